@@ -1,11 +1,26 @@
-import React, { useState, useRef } from 'react';
-import { Upload, Mic, Play, Pause, Activity, Cpu, Info, FileAudio } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { Upload, Mic, Square, Play, Pause, Activity, Cpu, Info, FileAudio, X, Layers, GitCompare, History } from 'lucide-react';
 import Spectrogram from './components/Spectrogram';
 import AnalysisResultCard from './components/AnalysisResultCard';
-import { AudioState, AnalysisResult } from './types';
+import RecordingTrimmer from './components/RecordingTrimmer';
+import LiveCallMonitor from './components/LiveCallMonitor';
+import BatchAnalysisPanel from './components/BatchAnalysisPanel';
+import ComparisonPanel from './components/ComparisonPanel';
+import CaseHistoryPanel from './components/CaseHistoryPanel';
+import ReportExportBar from './components/ReportExportBar';
+import ProfileSettingsPanel from './components/ProfileSettingsPanel';
+import OfflineSpectrogram from './components/OfflineSpectrogram';
+import TransportBar from './components/TransportBar';
+import { AudioState, AnalysisResult, CaseRecord, DetectionProfile } from './types';
 // CHANGED: Imported from local analysisService instead of geminiService
-import { analyzeAudioSignal } from './services/analysisService';
-import { APP_TITLE } from './constants';
+import { analyzeAudioSignal, isAbortError } from './services/analysisService';
+import { startMicCapture, concatChunks, MicCapture } from './services/micCapture';
+import { encodeWav } from './services/wavCodec';
+import { createAudioPlayer, LoopRegion } from './services/audioPlayer';
+import { findProfile, loadActiveProfileId, loadCustomProfiles } from './services/detectionProfiles';
+import { hashFile } from './services/reportService';
+import { archiveAnalysis, getCase, getCaseAudio, loadKeepAudio, saveKeepAudio } from './services/caseHistory';
+import { APP_TITLE, ANALYZER_VERSION } from './constants';
 
 const App: React.FC = () => {
   const [audioState, setAudioState] = useState<AudioState>({
@@ -17,47 +32,206 @@ const App: React.FC = () => {
     currentTime: 0
   });
 
+  // Playback transport; the player reports state changes back into audioState
+  const [player] = useState(() => createAudioPlayer({
+    onPlayStateChange: isPlaying => setAudioState(prev => ({ ...prev, isPlaying })),
+    onTimeUpdate: currentTime => setAudioState(prev => ({ ...prev, currentTime }))
+  }));
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+
+  const [mode, setMode] = useState<'single' | 'batch' | 'compare'>('single');
+  const [profile, setProfile] = useState<DetectionProfile>(() => findProfile(loadActiveProfileId(), loadCustomProfiles()));
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [selectedChannel, setSelectedChannel] = useState<string | null>(null);
+  const [midSide, setMidSide] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState(0);
+  const analysisAbortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const url = URL.createObjectURL(file);
-      setAudioState(prev => ({ ...prev, file, url, isPlaying: false }));
-      setAnalysisResult(null);
+  // Case history: the saved case behind the current result, if any
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [activeCase, setActiveCase] = useState<CaseRecord | null>(null);
+  const [keepAudio, setKeepAudio] = useState(loadKeepAudio);
+  const loadIdRef = useRef(0); // bumped per loaded file, so late lookups and saves are dropped
+  const bumpHistory = () => setHistoryVersion(v => v + 1);
+
+  // Microphone capture
+  const captureRef = useRef<MicCapture | null>(null);
+  const recordedChunksRef = useRef<Float32Array[]>([]);
+  const [liveStream, setLiveStream] = useState<MediaStream | null>(null);
+  const [pendingTake, setPendingTake] = useState<{ samples: Float32Array; sampleRate: number } | null>(null);
+
+  const loadFile = (file: File) => {
+    analysisAbortRef.current?.abort();
+    const url = URL.createObjectURL(file);
+    setAudioState(prev => ({ ...prev, file, url, isPlaying: false, duration: 0, currentTime: 0 }));
+    setLoopRegion(null);
+    setSelectedChannel(null);
+    setAnalysisResult(null);
+    setActiveCase(null);
+    setError(null);
+
+    // A file analyzed before shows its saved result at once
+    const loadId = ++loadIdRef.current;
+    hashFile(file)
+      .then(getCase)
+      .then(record => {
+        if (!record || loadIdRef.current !== loadId) return;
+        setActiveCase(record);
+        setAnalysisResult(record.result);
+        setSelectedChannel(record.result.channel ?? null);
+      })
+      .catch(err => console.warn("Case history lookup failed:", err));
+  };
+
+  const openCase = async (record: CaseRecord) => {
+    const audio = record.hasAudio ? await getCaseAudio(record.sha256).catch(() => null) : null;
+    if (audio) {
+      loadFile(audio);
+    } else {
+      // Result only: nothing to play or re-analyze
+      analysisAbortRef.current?.abort();
+      loadIdRef.current++;
+      setAudioState(prev => ({ ...prev, file: null, url: null, isPlaying: false, duration: 0, currentTime: 0 }));
+      setLoopRegion(null);
       setError(null);
     }
+    setActiveCase(record);
+    setAnalysisResult(record.result);
+    setSelectedChannel(record.result.channel ?? null);
+    setMode('single');
+  };
+
+  const updateKeepAudio = (keep: boolean) => {
+    setKeepAudio(keep);
+    saveKeepAudio(keep);
   };
 
+  const openBatchResult = (file: File, result: AnalysisResult) => {
+    loadFile(file);
+    // The batch result is the one to show; drop the saved-case lookup loadFile started
+    loadIdRef.current++;
+    setAnalysisResult(result);
+    setSelectedChannel(result.channel ?? null);
+    setMode('single');
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) loadFile(file);
+  };
+
+  useEffect(() => {
+    if (!audioState.url) return;
+    let active = true;
+    player.load(audioState.url)
+      .then(duration => {
+        if (active) setAudioState(prev => ({ ...prev, duration }));
+      })
+      .catch(err => console.error("Error loading audio:", err));
+    return () => {
+      active = false;
+      player.unload();
+    };
+  }, [audioState.url, player]);
+
+  useEffect(() => {
+    player.setLoop(loopRegion);
+  }, [loopRegion, player]);
+
+  // Overlays only when the analyzed channel matches the one on screen
+  const channelResult = !analysisResult ? undefined
+    : !analysisResult.channels ? analysisResult
+    : analysisResult.channels.find(c => c.label === selectedChannel)?.result ?? undefined;
+
   const togglePlayback = () => {
     if (!audioState.url) return;
-    setAudioState(prev => ({ ...prev, isPlaying: !prev.isPlaying }));
+    player.toggle();
   };
 
   const handleAnalysis = async () => {
     if (!audioState.file) return;
     
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsAnalyzing(true);
+    setAnalysisProgress(0);
     setError(null);
     
     try {
-      // Local deterministic analysis
-      const result = await analyzeAudioSignal(audioState.file);
+      // Local deterministic analysis (runs in a worker)
+      const result = await analyzeAudioSignal(audioState.file, {
+        signal: controller.signal,
+        profile,
+        midSide,
+        onProgress: setAnalysisProgress
+      });
       setAnalysisResult(result);
+      setSelectedChannel(result.channel ?? null);
+
+      const loadId = loadIdRef.current;
+      archiveAnalysis(audioState.file, result, { keepAudio })
+        .then(record => {
+          if (loadIdRef.current === loadId) setActiveCase(record);
+          bumpHistory();
+        })
+        .catch(err => console.warn("Could not save to the case history:", err));
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error(err);
       setError(err instanceof Error ? err.message : "Analysis failed. Please try again.");
     } finally {
+      analysisAbortRef.current = null;
       setIsAnalyzing(false);
     }
   };
 
-  // Mock recording functionality
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
   const startRecording = async () => {
-     alert("Microphone recording requires secure context and implementation complexity outside this scope. Please use file upload.");
+    setError(null);
+    setPendingTake(null);
+    recordedChunksRef.current = [];
+    try {
+      const capture = await startMicCapture(chunk => recordedChunksRef.current.push(chunk));
+      player.pause();
+      captureRef.current = capture;
+      setLiveStream(capture.stream);
+      setAudioState(prev => ({ ...prev, isRecording: true }));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Could not access the microphone.");
+    }
+  };
+
+  const stopRecording = async () => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    captureRef.current = null;
+    await capture.stop();
+    setLiveStream(null);
+    setAudioState(prev => ({ ...prev, isRecording: false }));
+
+    const samples = concatChunks(recordedChunksRef.current);
+    recordedChunksRef.current = [];
+    if (samples.length === 0) {
+      setError("No audio was captured from the microphone.");
+      return;
+    }
+    setPendingTake({ samples, sampleRate: capture.sampleRate });
+  };
+
+  const confirmTake = (start: number, end: number) => {
+    if (!pendingTake) return;
+    const wav = encodeWav(pendingTake.samples.subarray(start, end), pendingTake.sampleRate);
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    loadFile(new File([wav], `recording-${stamp}.wav`, { type: 'audio/wav' }));
+    setPendingTake(null);
   };
 
   return (
@@ -75,8 +249,14 @@ const App: React.FC = () => {
               <p className="text-xs text-slate-400 font-mono">DISCRETE-TIME SIGNAL ANALYSIS SYSTEM</p>
             </div>
           </div>
-          <div className="hidden sm:flex items-center gap-4 text-sm text-slate-400">
-             <span className="flex items-center gap-1"><Cpu className="w-4 h-4" /> Local DSP Engine v2.0</span>
+          <div className="flex items-center gap-4 text-sm text-slate-400">
+             <span className="hidden sm:flex items-center gap-1"><Cpu className="w-4 h-4" /> Local DSP Engine v{ANALYZER_VERSION}</span>
+             <button
+               onClick={() => setHistoryOpen(!historyOpen)}
+               className="px-3 py-1.5 bg-slate-900 hover:bg-slate-800 border border-slate-800 rounded-lg flex items-center gap-2 text-slate-300 transition-colors"
+             >
+               <History className="w-4 h-4" /> History
+             </button>
           </div>
         </div>
       </header>
@@ -93,7 +273,39 @@ const App: React.FC = () => {
            </p>
         </section>
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="flex gap-2 mb-6">
+          <button 
+            onClick={() => setMode('single')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors ${mode === 'single' ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-400 hover:text-slate-200 border border-slate-800'}`}
+          >
+            <FileAudio className="w-4 h-4" /> Single File
+          </button>
+          <button 
+            onClick={() => setMode('batch')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors ${mode === 'batch' ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-400 hover:text-slate-200 border border-slate-800'}`}
+          >
+            <Layers className="w-4 h-4" /> Batch
+          </button>
+          <button 
+            onClick={() => setMode('compare')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors ${mode === 'compare' ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-400 hover:text-slate-200 border border-slate-800'}`}
+          >
+            <GitCompare className="w-4 h-4" /> A/B Compare
+          </button>
+        </div>
+
+        <ProfileSettingsPanel profile={profile} onChange={setProfile} disabled={isAnalyzing} />
+
+        {/* Batch stays mounted so the queue survives switching back to a single file */}
+        <div className={mode === 'batch' ? '' : 'hidden'}>
+          <BatchAnalysisPanel profile={profile} midSide={midSide} onOpen={openBatchResult} onArchived={bumpHistory} />
+        </div>
+
+        <div className={mode === 'compare' ? '' : 'hidden'}>
+          <ComparisonPanel profile={profile} midSide={midSide} onArchived={bumpHistory} />
+        </div>
+
+        <div className={`grid grid-cols-1 lg:grid-cols-3 gap-8 ${mode === 'single' ? '' : 'hidden'}`}>
           
           {/* Left Column: Controls */}
           <div className="lg:col-span-1 space-y-6">
@@ -129,12 +341,22 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
-                <button 
-                  onClick={startRecording}
-                  className="w-full py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg flex items-center justify-center gap-2 font-medium transition-colors"
-                >
-                  <Mic className="w-4 h-4" /> Record Voice
-                </button>
+                {audioState.isRecording ? (
+                  <button 
+                    onClick={stopRecording}
+                    className="w-full py-3 bg-red-600 hover:bg-red-500 text-white rounded-lg flex items-center justify-center gap-2 font-medium transition-colors animate-pulse"
+                  >
+                    <Square className="w-4 h-4" /> Stop Recording
+                  </button>
+                ) : (
+                  <button 
+                    onClick={startRecording}
+                    disabled={!!liveStream}
+                    className="w-full py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed text-slate-300 rounded-lg flex items-center justify-center gap-2 font-medium transition-colors"
+                  >
+                    <Mic className="w-4 h-4" /> Record Voice
+                  </button>
+                )}
               </div>
 
               {audioState.file && (
@@ -145,6 +367,15 @@ const App: React.FC = () => {
               )}
             </div>
 
+            {pendingTake && (
+              <RecordingTrimmer
+                samples={pendingTake.samples}
+                sampleRate={pendingTake.sampleRate}
+                onConfirm={confirmTake}
+                onDiscard={() => setPendingTake(null)}
+              />
+            )}
+
             {/* Actions */}
             <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-xl">
                <h3 className="text-lg font-semibold mb-4 text-white">Process</h3>
@@ -152,17 +383,17 @@ const App: React.FC = () => {
                <div className="flex gap-2 mb-4">
                  <button 
                     onClick={togglePlayback}
-                    disabled={!audioState.url}
+                    disabled={!audioState.url || audioState.isRecording}
                     className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed rounded flex items-center justify-center gap-2 transition-colors"
                  >
                     {audioState.isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
-                    {audioState.isPlaying ? 'Stop' : 'Play'}
+                    {audioState.isPlaying ? 'Pause' : 'Play'}
                  </button>
                </div>
 
                <button 
                   onClick={handleAnalysis}
-                  disabled={!audioState.file || isAnalyzing}
+                  disabled={!audioState.file || isAnalyzing || audioState.isRecording}
                   className={`w-full py-3 rounded-lg font-bold text-white shadow-lg transition-all flex items-center justify-center gap-2
                     ${!audioState.file 
                       ? 'bg-slate-800 text-slate-500 cursor-not-allowed' 
@@ -177,7 +408,7 @@ const App: React.FC = () => {
                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                      </svg>
-                     Calculating FFT...
+                     Calculating FFT... {Math.round(analysisProgress * 100)}%
                    </>
                  ) : (
                    <>
@@ -185,6 +416,33 @@ const App: React.FC = () => {
                    </>
                  )}
                </button>
+
+               <label className="mt-3 flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                 <input
+                   type="checkbox"
+                   checked={midSide}
+                   onChange={e => setMidSide(e.target.checked)}
+                   className="accent-blue-500"
+                 />
+                 Also analyze Mid/Side of stereo files
+               </label>
+
+               {isAnalyzing && (
+                 <div className="mt-3 flex items-center gap-2">
+                   <div className="flex-1 bg-slate-800 rounded-full h-1.5">
+                     <div 
+                       className="bg-blue-500 h-1.5 rounded-full transition-all duration-200" 
+                       style={{ width: `${Math.round(analysisProgress * 100)}%` }}
+                     ></div>
+                   </div>
+                   <button 
+                     onClick={cancelAnalysis}
+                     className="text-xs text-slate-400 hover:text-red-300 flex items-center gap-1 transition-colors"
+                   >
+                     <X className="w-3 h-3" /> Cancel
+                   </button>
+                 </div>
+               )}
                
                {error && (
                  <div className="mt-4 p-3 bg-red-900/20 border border-red-500/30 text-red-300 text-xs rounded">
@@ -193,6 +451,8 @@ const App: React.FC = () => {
                )}
             </div>
 
+            <LiveCallMonitor disabled={audioState.isRecording} profile={profile} onLiveStream={setLiveStream} />
+
           </div>
 
           {/* Right Column: Visualization & Results */}
@@ -201,15 +461,53 @@ const App: React.FC = () => {
             {/* Visualizer */}
             <div className="bg-slate-900 rounded-xl border border-slate-800 p-1 shadow-2xl">
               <Spectrogram 
-                audioUrl={audioState.url} 
+                player={player}
                 isPlaying={audioState.isPlaying} 
-                onEnded={() => setAudioState(p => ({ ...p, isPlaying: false }))}
+                duration={audioState.duration}
+                liveStream={liveStream}
+                segments={analysisResult?.segments}
+              />
+              <TransportBar
+                player={player}
+                isPlaying={audioState.isPlaying}
+                currentTime={audioState.currentTime}
+                duration={audioState.duration}
+                loop={loopRegion}
+                onLoopChange={setLoopRegion}
+                disabled={audioState.isRecording}
               />
             </div>
 
+            <OfflineSpectrogram
+              file={audioState.file}
+              evidence={channelResult?.evidence}
+              breathing={channelResult?.breathing}
+              player={player}
+              isPlaying={audioState.isPlaying}
+              currentTime={audioState.currentTime}
+              loop={loopRegion}
+              channel={selectedChannel}
+              onChannelChange={setSelectedChannel}
+            />
+
             {/* Results */}
             {analysisResult ? (
-              <AnalysisResultCard result={analysisResult} />
+              <div>
+                {activeCase && (
+                  <div className="mb-3 p-3 bg-slate-900/60 border border-slate-800 rounded-lg text-xs text-slate-400 flex flex-wrap items-center gap-x-3 gap-y-1">
+                    <History className="w-3 h-3 text-blue-400" />
+                    <span>Saved case, analyzed {new Date(activeCase.analyzedAt).toLocaleString()}</span>
+                    {activeCase.review && (
+                      <span className={activeCase.review.decision === 'agree' ? 'text-slate-300' : 'text-amber-300'}>
+                        Reviewer {activeCase.review.decision === 'agree' ? 'agrees' : `overrode the verdict: ${activeCase.review.label}`}
+                      </span>
+                    )}
+                    {!audioState.file && <span>Audio not stored; showing the saved result only.</span>}
+                  </div>
+                )}
+                {audioState.file && <ReportExportBar file={audioState.file} result={analysisResult} />}
+                <AnalysisResultCard result={analysisResult} channel={selectedChannel} onChannelChange={setSelectedChannel} />
+              </div>
             ) : (
               <div className="flex-1 bg-slate-900/50 border border-slate-800/50 border-dashed rounded-xl flex items-center justify-center p-12 text-slate-600">
                 <div className="text-center">
@@ -223,6 +521,18 @@ const App: React.FC = () => {
         </div>
       </main>
 
+      <CaseHistoryPanel
+        open={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        version={historyVersion}
+        activeSha={activeCase?.sha256 ?? null}
+        keepAudio={keepAudio}
+        onKeepAudioChange={updateKeepAudio}
+        onOpen={openCase}
+        onChange={record => setActiveCase(prev => (prev?.sha256 === record.sha256 ? record : prev))}
+        onDelete={sha256 => setActiveCase(prev => (prev?.sha256 === sha256 ? null : prev))}
+      />
+
     </div>
   );
 };
@@ -0,0 +1,358 @@
+import { readFile, readdir, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { AnalysisReport, AnalysisResult, CalibrationEvaluation, CalibrationMethod, ConfusionMatrix, DetectionProfile } from '../types';
+import { ANALYZER_VERSION } from '../constants';
+import { analyzeChannels } from '../services/dspEngine';
+import { decodeAudioBytes } from '../services/audioDecoders';
+import { probeAudioFormat } from '../services/formatProbe';
+import { PRESET_PROFILES, parseProfileJson, profileToJson } from '../services/detectionProfiles';
+import { buildReport, reportsToCsv } from '../services/reportService';
+import { LabeledScore, evaluateCorpus } from '../services/calibration';
+
+// --- Headless CLI ---
+// Runs the same DSP engine as the web app over WAV/FLAC files.
+// analyze exit codes: 0 = no file classified as AI, 1 = at least one AI (even if other files failed),
+// 2 = usage or decode errors, 3 = with --fail-on-inconclusive only: none AI but at least one
+// Inconclusive (failed the input-quality checks).
+// calibrate exit codes: 0 = fitted, 2 = usage, labeling or decode errors.
+
+const USAGE = `sigspec ${ANALYZER_VERSION}
+
+Usage: sigspec analyze <file|dir>... [--json | --csv] [--profile <id|file.json>] [--mid-side] [--fail-on-inconclusive] [--out <path>] [--quiet]
+       sigspec calibrate <dir|manifest>... [--method platt|isotonic] [--profile <p>] [--save <file.json>] [--json] [--mid-side] [--out <path>] [--quiet]
+
+  <file|dir>    WAV or FLAC files; directories are searched recursively
+  --json        Print the versioned JSON reports
+  --csv         Print one CSV row per file
+  --profile <p> Detection profile: ${PRESET_PROFILES.map(p => p.id).join(', ')},
+                or a profile JSON exported from the web app (default: default)
+  --mid-side    Also analyze Mid and Side of stereo files
+  --fail-on-inconclusive
+                Exit 3 when no file is AI but some are Inconclusive
+  --out <path>  Write the output to a file instead of stdout
+  --quiet       Suppress per-file progress on stderr
+
+Exit codes: 0 no file classified as AI, 1 any file classified as AI (even if
+            others failed), 2 errors, 3 with --fail-on-inconclusive: no AI but
+            some files Inconclusive (too short, silent, clipped or noisy)
+
+calibrate scores a labeled corpus and fits P(AI) as a function of the score:
+  <dir>         Files are labeled by a folder on their path named human, real,
+                bonafide or genuine, or ai, synthetic, fake or spoof
+  <manifest>    .csv/.tsv/.txt lines of "path,label" (label human or ai), paths
+                relative to the manifest
+  --method <m>  platt (logistic, default) or isotonic (monotone steps; needs a
+                larger corpus)
+  --save <file> Write the profile with its calibration, for --profile or import
+                into the web app
+  --json        Print the evaluation (ROC, AUC, EER, confusion matrices) as JSON`;
+
+const AUDIO_EXTENSIONS = /\.(wav|wave|flac)$/i;
+
+interface CliOptions {
+  command: 'analyze' | 'calibrate';
+  inputs: string[];
+  format: 'text' | 'json' | 'csv';
+  profile: string;
+  method: CalibrationMethod;
+  save: string | null;
+  midSide: boolean;
+  failOnInconclusive: boolean;
+  out: string | null;
+  quiet: boolean;
+}
+
+const parseArgs = (argv: string[]): CliOptions | null => {
+  const [command, ...rest] = argv;
+  if (command !== 'analyze' && command !== 'calibrate') return null;
+
+  const options: CliOptions = {
+    command, inputs: [], format: 'text', profile: 'default', method: 'platt', save: null, midSide: false, failOnInconclusive: false, out: null, quiet: false
+  };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--json') options.format = 'json';
+    else if (arg === '--csv' && command === 'analyze') options.format = 'csv';
+    else if (arg === '--quiet') options.quiet = true;
+    else if (arg === '--mid-side') options.midSide = true;
+    else if (arg === '--fail-on-inconclusive' && command === 'analyze') options.failOnInconclusive = true;
+    else if (arg === '--out') options.out = rest[++i] ?? null;
+    else if (arg === '--profile') options.profile = rest[++i] ?? '';
+    else if (arg === '--save' && command === 'calibrate') options.save = rest[++i] ?? null;
+    else if (arg === '--method' && command === 'calibrate') {
+      const method = rest[++i];
+      if (method !== 'platt' && method !== 'isotonic') return null;
+      options.method = method;
+    }
+    else if (arg.startsWith('--')) return null;
+    else options.inputs.push(arg);
+  }
+  return options.inputs.length > 0 ? options : null;
+};
+
+const expandInputs = async (inputs: string[]): Promise<string[]> => {
+  const files: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input);
+    if (info.isDirectory()) {
+      const entries = await readdir(input, { recursive: true });
+      files.push(...entries.filter(e => AUDIO_EXTENSIONS.test(e)).map(e => path.join(input, e)).sort());
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+};
+
+// Accepts a preset id or a path to an exported profile
+const loadProfile = async (spec: string): Promise<DetectionProfile> => {
+  const preset = PRESET_PROFILES.find(p => p.id === spec);
+  if (preset) return preset;
+  if (spec.endsWith('.json')) return parseProfileJson(await readFile(spec, 'utf8'));
+  throw new Error(`Unknown profile "${spec}". Use one of ${PRESET_PROFILES.map(p => p.id).join(', ')} or a .json file.`);
+};
+
+const analyzeFile = async (filePath: string, profile: DetectionProfile, midSide: boolean): Promise<AnalysisReport> => {
+  const bytes = await readFile(filePath);
+  const decoded = decodeAudioBytes(bytes);
+  const source = probeAudioFormat(bytes);
+  const result = analyzeChannels(decoded.channels, decoded.sampleRate, profile, { midSide, source });
+  return buildReport(new Blob([bytes]), path.basename(filePath), { ...result, source });
+};
+
+const verdictLabel = (result: AnalysisResult) =>
+  result.classification === 'AI-Generated Voice' ? 'AI   ' : result.classification === 'Inconclusive' ? 'INCON' : 'HUMAN';
+
+const confidenceLabel = (result: AnalysisResult) =>
+  result.classification === 'Inconclusive' ? '   -' : `${String(result.confidence).padStart(3)}%`;
+
+// One line per file, plus an indented line per channel for multichannel files
+const formatText = (report: AnalysisReport, filePath: string) => {
+  const { result } = report;
+  const lines = [`${verdictLabel(result)} ${confidenceLabel(result)}  ${filePath}  (${result.keyObservation})`];
+  for (const channel of result.channels || []) {
+    lines.push(channel.result
+      ? `  ${channel.label.padEnd(10)} ${verdictLabel(channel.result)} ${confidenceLabel(channel.result)}  score ${channel.result.score}`
+      : `  ${channel.label.padEnd(10)} silent`);
+  }
+  const container = report.container;
+  if (container && (container.encoder || container.software)) {
+    lines.push(`  encoder ${[container.encoder, container.software].filter(Boolean).join(' / ')} (${container.bitrateMode})`);
+  }
+  for (const finding of container?.findings.filter(f => f.severity === 'warning') || []) {
+    lines.push(`  ! ${finding.message}`);
+  }
+  const transcoding = result.transcoding;
+  if (transcoding && transcoding.generations > 0) {
+    const discounted = result.factors.filter(f => f.originalPoints !== undefined).map(f => f.id);
+    lines.push(`  lossy codec ${Math.round(transcoding.codecLikelihood * 100)}%, ${transcoding.generations === 1 ? '1 generation' : '2+ generations'}${discounted.length ? `; discounted ${discounted.join(', ')}` : ''}`);
+  }
+  if (result.stereo) {
+    lines.push(`  L/R correlation ${result.stereo.correlation.toFixed(3)}${result.stereo.identical ? ' (bit-identical)' : ''}, side ${result.stereo.sideLevelDb} dB`);
+  }
+  return lines.join('\n');
+};
+
+const main = async (): Promise<number> => {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(USAGE);
+    return 2;
+  }
+  return options.command === 'calibrate' ? runCalibrate(options) : runAnalyze(options);
+};
+
+const runAnalyze = async (options: CliOptions): Promise<number> => {
+  let files: string[];
+  let profile: DetectionProfile;
+  try {
+    profile = await loadProfile(options.profile);
+    files = await expandInputs(options.inputs);
+  } catch (err) {
+    console.error(`sigspec: ${err instanceof Error ? err.message : err}`);
+    return 2;
+  }
+
+  const reports: AnalysisReport[] = [];
+  const lines: string[] = [];
+  let failures = 0;
+
+  for (const filePath of files) {
+    if (!options.quiet) process.stderr.write(`Analyzing ${filePath}...\n`);
+    try {
+      const report = await analyzeFile(filePath, profile, options.midSide);
+      reports.push(report);
+      lines.push(formatText(report, filePath));
+    } catch (err) {
+      failures++;
+      console.error(`sigspec: ${filePath}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  const output =
+    options.format === 'json' ? JSON.stringify(reports, null, 2) :
+    options.format === 'csv' ? reportsToCsv(reports) :
+    lines.join('\n');
+
+  if (options.out) {
+    await writeFile(options.out, output + '\n');
+  } else if (output) {
+    process.stdout.write(output + '\n');
+  }
+
+  // An AI detection is never hidden behind an unreadable file in the same run
+  if (reports.some(r => r.result.classification === 'AI-Generated Voice')) return 1;
+  if (failures > 0) return 2;
+  return options.failOnInconclusive && reports.some(r => r.result.classification === 'Inconclusive') ? 3 : 0;
+};
+
+// --- Calibration ---
+
+const HUMAN_LABELS = ['human', 'real', 'bonafide', 'bona-fide', 'genuine'];
+const AI_LABELS = ['ai', 'synthetic', 'fake', 'spoof', 'tts'];
+
+const parseLabel = (text: string): boolean | null => {
+  const label = text.trim().toLowerCase();
+  return HUMAN_LABELS.includes(label) ? false : AI_LABELS.includes(label) ? true : null;
+};
+
+interface LabeledFile {
+  path: string;
+  isAI: boolean;
+}
+
+// Directories label files by the nearest labeled folder; manifests list them explicitly
+const collectLabeledFiles = async (inputs: string[]): Promise<LabeledFile[]> => {
+  const labeled: LabeledFile[] = [];
+  for (const input of inputs) {
+    if ((await stat(input)).isDirectory()) {
+      const files = await expandInputs([input]);
+      for (const file of files) {
+        const folders = path.relative(input, path.dirname(file)).split(path.sep).reverse();
+        const isAI = folders.map(parseLabel).find(l => l !== null) ?? parseLabel(path.basename(input));
+        if (isAI === null || isAI === undefined) {
+          throw new Error(`${file}: no human/ai folder on its path.`);
+        }
+        labeled.push({ path: file, isAI });
+      }
+      continue;
+    }
+    const lines = (await readFile(input, 'utf8')).split(/\r?\n/);
+    lines.forEach((line, i) => {
+      if (!line.trim() || line.startsWith('#')) return;
+      const [file, label] = line.split(/[,\t]/).map(cell => cell.trim());
+      if (i === 0 && label?.toLowerCase() === 'label') return; // header row
+      const isAI = parseLabel(label ?? '');
+      if (!file || isAI === null) throw new Error(`${input}:${i + 1}: expected "path,label" with label human or ai.`);
+      labeled.push({ path: path.resolve(path.dirname(input), file), isAI });
+    });
+  }
+  return labeled;
+};
+
+const percent = (value: number | null) => value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+
+const formatConfusion = (label: string, m: ConfusionMatrix) =>
+  `${label} (score > ${m.threshold}): TP ${m.truePositive}  FP ${m.falsePositive}  TN ${m.trueNegative}  FN ${m.falseNegative}  ` +
+  `precision ${percent(m.precision)}  recall ${percent(m.recall)}  F1 ${percent(m.f1)}  accuracy ${percent(m.accuracy)}`;
+
+const formatEvaluation = (e: CalibrationEvaluation) => {
+  const { calibration: c } = e;
+  const lines = [
+    `Corpus: ${e.corpus.human} human, ${e.corpus.ai} AI (profile ${e.profileId})`,
+    `AUC ${e.auc.toFixed(3)}  EER ${percent(e.eer)} at score > ${e.eerThreshold}`,
+    formatConfusion('At decision threshold', e.atDecisionThreshold),
+    formatConfusion('At EER threshold     ', e.atEerThreshold),
+    `Brier score: heuristic ${e.brier.heuristic.toFixed(4)}, calibrated ${e.brier.calibrated.toFixed(4)} (in-sample)`,
+    `Log loss:    heuristic ${e.logLoss.heuristic.toFixed(4)}, calibrated ${e.logLoss.calibrated.toFixed(4)} (in-sample)`
+  ];
+  if (c.platt) {
+    const { a, b } = c.platt;
+    lines.push(`Calibration (platt): P(AI) = 1 / (1 + exp(${a} * score + ${b}))${a < 0 ? `, 50% at score ${(-b / a).toFixed(1)}` : ''}`);
+    if (a >= 0) lines.push('  ! P(AI) does not rise with the score on this corpus; the profile does not separate it.');
+  } else if (c.isotonic) {
+    lines.push(`Calibration (isotonic): ${c.isotonic.scores.map((s, i) => `${s}:${percent(c.isotonic!.probabilities[i])}`).join('  ')}`);
+  }
+  if (e.corpus.human + e.corpus.ai < 50) {
+    lines.push(`  ! Only ${e.corpus.human + e.corpus.ai} files; treat the fitted probabilities as rough.`);
+  }
+  return lines.join('\n');
+};
+
+const runCalibrate = async (options: CliOptions): Promise<number> => {
+  let files: LabeledFile[];
+  let profile: DetectionProfile;
+  try {
+    profile = await loadProfile(options.profile);
+    files = await collectLabeledFiles(options.inputs);
+  } catch (err) {
+    console.error(`sigspec: ${err instanceof Error ? err.message : err}`);
+    return 2;
+  }
+
+  // Score with the heuristic confidence so the comparison is against the uncalibrated output
+  const uncalibrated: DetectionProfile = { ...profile, calibration: undefined };
+  const samples: LabeledScore[] = [];
+  let failures = 0;
+  let inconclusive = 0;
+  for (const file of files) {
+    if (!options.quiet) process.stderr.write(`Analyzing ${file.path}...\n`);
+    try {
+      const bytes = await readFile(file.path);
+      const decoded = decodeAudioBytes(bytes);
+      const result = analyzeChannels(decoded.channels, decoded.sampleRate, uncalibrated, { midSide: options.midSide, source: probeAudioFormat(bytes) });
+      // Calibrated confidence is never shown for these, so they stay out of the fit
+      if (result.classification === 'Inconclusive') {
+        inconclusive++;
+        if (!options.quiet) process.stderr.write(`  skipped: ${result.keyObservation}\n`);
+        continue;
+      }
+      samples.push({
+        score: result.score,
+        isAI: file.isAI,
+        confidence: result.confidence,
+        flaggedAI: result.classification === 'AI-Generated Voice'
+      });
+    } catch (err) {
+      failures++;
+      console.error(`sigspec: ${file.path}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  let evaluation: CalibrationEvaluation;
+  try {
+    evaluation = evaluateCorpus(samples, profile.id, profile.thresholds.decisionThreshold, options.method);
+  } catch (err) {
+    console.error(`sigspec: ${err instanceof Error ? err.message : err}`);
+    return 2;
+  }
+
+  if (inconclusive > 0) console.error(`sigspec: ${inconclusive} Inconclusive file(s) left out of the corpus.`);
+  const output = options.format === 'json' ? JSON.stringify(evaluation, null, 2) : formatEvaluation(evaluation);
+  if (options.out) {
+    await writeFile(options.out, output + '\n');
+  } else {
+    process.stdout.write(output + '\n');
+  }
+
+  if (options.save) {
+    const calibrated: DetectionProfile = {
+      ...uncalibrated,
+      ...(profile.builtIn ? { id: `${profile.id}-calibrated`, name: `${profile.name} (calibrated)` } : {}),
+      builtIn: undefined,
+      calibration: evaluation.calibration
+    };
+    await writeFile(options.save, profileToJson(calibrated) + '\n');
+    if (!options.quiet) process.stderr.write(`Saved calibrated profile to ${options.save}\n`);
+  }
+  return failures > 0 ? 2 : 0;
+};
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(err => {
+    console.error(`sigspec: ${err instanceof Error ? err.message : err}`);
+    process.exitCode = 2;
+  });
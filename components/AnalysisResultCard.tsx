@@ -1,33 +1,125 @@
 import React from 'react';
 import { AnalysisResult } from '../types';
-import { ShieldCheck, ShieldAlert, Activity, Volume2, Radio, Waves } from 'lucide-react';
+import { ShieldCheck, ShieldAlert, Activity, Volume2, Radio, Waves, Clock, Scale, Wind, Cpu, ShieldQuestion, AlertTriangle, Gauge, FileAudio } from 'lucide-react';
+import ScoreWaterfall from './ScoreWaterfall';
+import { resultForChannel } from '../services/dspEngine';
 
 interface Props {
   result: AnalysisResult;
+  channel?: string | null;
+  onChannelChange?: (channel: string) => void;
 }
 
-const AnalysisResultCard: React.FC<Props> = ({ result }) => {
+// Unknown (breathing extractor off) is neither evidence of a human nor its absence
+const breathingBadge = (detected?: boolean) =>
+  detected === undefined ? 'bg-slate-800 text-slate-400' : detected ? 'bg-green-900 text-green-300' : 'bg-red-900 text-red-300';
+
+const AnalysisResultCard: React.FC<Props> = ({ result: fileResult, channel = null, onChannelChange }) => {
+  const result = resultForChannel(fileResult, channel);
+  const shownChannel = channel && fileResult.channels?.some(c => c.label === channel) ? channel : fileResult.channel;
   const isHuman = result.classification === 'Human Voice';
-  const scoreColor = isHuman ? 'text-green-400' : 'text-red-400';
-  const borderColor = isHuman ? 'border-green-500/50' : 'border-red-500/50';
-  const bgColor = isHuman ? 'bg-green-950/20' : 'bg-red-950/20';
+  const isInconclusive = result.classification === 'Inconclusive';
+  const scoreColor = isInconclusive ? 'text-amber-400' : isHuman ? 'text-green-400' : 'text-red-400';
+  const borderColor = isInconclusive ? 'border-amber-500/50' : isHuman ? 'border-green-500/50' : 'border-red-500/50';
+  const bgColor = isInconclusive ? 'bg-amber-950/20' : isHuman ? 'bg-green-950/20' : 'bg-red-950/20';
+  const failedChecks = (result.quality?.checks || []).filter(c => !c.passed);
+  const flaggedSegments = (result.segments || []).filter(seg => seg.classification === 'AI-Generated Voice');
+  const source = fileResult.source;
+  const features = result.features || [];
+  const breathing = result.breathing;
+  const transcoding = result.transcoding;
+  const nyquistHz = result.sampleRate ? result.sampleRate / 2 : null;
 
   return (
     <div className={`w-full rounded-xl border ${borderColor} ${bgColor} p-6 mt-6 animate-in fade-in slide-in-from-bottom-4 duration-500`}>
+      {fileResult.channels && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+          <span className="text-slate-500 font-mono uppercase tracking-wider">Channel</span>
+          {fileResult.channels.map(c => {
+            const isAI = c.result?.classification === 'AI-Generated Voice';
+            const dot = !c.result ? 'bg-slate-600' : isAI ? 'bg-red-500' : c.result.classification === 'Inconclusive' ? 'bg-amber-500' : 'bg-green-500';
+            return (
+              <button
+                key={c.label}
+                onClick={() => onChannelChange?.(c.label)}
+                disabled={!c.result}
+                title={c.result ? `${c.result.classification} (${c.result.confidence}%)` : 'Digitally silent'}
+                className={`px-2 py-1 rounded border font-mono transition-colors disabled:opacity-40 ${
+                  c.label === shownChannel ? 'bg-slate-700 border-slate-500 text-white' : 'border-slate-700 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                <span className={`inline-block w-1.5 h-1.5 rounded-full mr-1.5 ${dot}`}></span>
+                {c.label}{c.label === fileResult.channel ? ' *' : ''}
+              </button>
+            );
+          })}
+          {fileResult.stereo && (
+            <span className={`ml-auto font-mono ${fileResult.stereo.identical ? 'text-amber-400' : 'text-slate-500'}`}>
+              L/R r = {fileResult.stereo.correlation.toFixed(3)}{fileResult.stereo.identical ? ' (identical)' : ''}
+            </span>
+          )}
+        </div>
+      )}
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 border-b border-slate-700 pb-4 mb-4">
         <div>
           <h3 className="text-slate-400 text-sm font-mono uppercase tracking-wider mb-1">Classification Result</h3>
+          {source && (
+            <div className="text-xs font-mono text-slate-500 mb-2" title="Format as stored in the file">
+              {source.container}/{source.codec}
+              {source.sampleRate !== null && ` · ${source.sampleRate} Hz`}
+              {source.bitsPerSample !== null && ` · ${source.bitsPerSample}-bit`}
+              {source.channels !== null && ` · ${source.channels} ch`}
+              {source.bitrateKbps !== null && ` · ${source.bitrateKbps} kbps`}
+              {source.durationSec !== null && ` · ${source.durationSec.toFixed(2)} s`}
+            </div>
+          )}
           <div className="flex items-center gap-3">
-            {isHuman ? <ShieldCheck className="w-8 h-8 text-green-400" /> : <ShieldAlert className="w-8 h-8 text-red-500" />}
+            {isInconclusive ? <ShieldQuestion className="w-8 h-8 text-amber-400" />
+              : isHuman ? <ShieldCheck className="w-8 h-8 text-green-400" /> : <ShieldAlert className="w-8 h-8 text-red-500" />}
             <h2 className={`text-3xl font-bold ${scoreColor}`}>{result.classification}</h2>
           </div>
         </div>
-        <div className="text-right">
-          <div className="text-slate-400 text-sm font-mono">Confidence Level</div>
-          <div className="text-2xl font-bold text-white">{result.confidence}%</div>
-        </div>
+        {isInconclusive ? (
+          <div className="text-right">
+            <div className="text-slate-400 text-sm font-mono">No Verdict</div>
+            <div className="text-xs text-amber-300 max-w-xs">The input did not pass the quality checks below.</div>
+          </div>
+        ) : (
+          <div className="text-right">
+            <div className="text-slate-400 text-sm font-mono">
+              {result.probabilityAI !== undefined ? 'Calibrated Confidence' : 'Confidence Level'}
+            </div>
+            <div className="text-2xl font-bold text-white">{result.confidence}%</div>
+            {result.probabilityAI !== undefined ? (
+              <div className="text-[10px] text-slate-500 font-mono" title={`Fitted on ${result.profile?.calibration?.corpus.human} human and ${result.profile?.calibration?.corpus.ai} AI files`}>
+                P(AI) = {result.probabilityAI.toFixed(3)} · {result.profile?.calibration?.method}
+              </div>
+            ) : (
+              <div className="text-[10px] text-slate-500 font-mono" title="Run sigspec calibrate on a labeled corpus to get a probability">
+                heuristic, uncalibrated
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
+      {isInconclusive && failedChecks.length > 0 && (
+        <div className="bg-amber-950/30 p-4 rounded-lg border border-amber-500/30 mb-6">
+          <h4 className="text-amber-400 font-semibold mb-2 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" /> Why there is no verdict
+          </h4>
+          <ul className="space-y-1 text-sm text-amber-100/90">
+            {failedChecks.map(c => (
+              <li key={c.id} className="flex justify-between gap-4">
+                <span>{c.reason}</span>
+                <span className="font-mono text-xs text-amber-300/80 whitespace-nowrap">{c.label}: {c.value ?? 'n/a'} {c.unit} (needs {c.threshold})</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-[10px] text-amber-300/60 mt-2">The score breakdown below is shown for review only.</p>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
         <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-800">
            <h4 className="text-blue-400 font-semibold mb-3 flex items-center gap-2">
@@ -58,6 +150,16 @@ const AnalysisResultCard: React.FC<Props> = ({ result }) => {
               <span className="font-mono text-white">{result.metrics.frequencyCutoffHz} Hz</span>
             </div>
 
+            {result.metrics.bandwidthEdgeHz !== undefined && (
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-slate-400 flex items-center gap-2"><Radio className="w-3 h-3" /> True Bandwidth (-60 dB)</span>
+                <span className="font-mono text-white">
+                  {result.metrics.bandwidthEdgeHz} Hz
+                  {nyquistHz && <span className="text-slate-500"> / {nyquistHz} Hz</span>}
+                </span>
+              </div>
+            )}
+
             <div>
               <div className="flex justify-between text-xs text-slate-400 mb-1">
                 <span>Harmonic Regularity</span>
@@ -72,17 +174,148 @@ const AnalysisResultCard: React.FC<Props> = ({ result }) => {
               <p className="text-[10px] text-slate-500 mt-1 text-right">Higher = More Artificial</p>
             </div>
 
-            <div className="flex items-center justify-between text-sm pt-2 border-t border-slate-800">
-              <span className="text-slate-400">Breathing Artifacts?</span>
-              <span className={`px-2 py-0.5 rounded text-xs font-bold ${result.metrics.breathingArtifactsDetected ? 'bg-green-900 text-green-300' : 'bg-red-900 text-red-300'}`}>
-                {result.metrics.breathingArtifactsDetected ? 'DETECTED' : 'ABSENT'}
-              </span>
+            {result.quality && (
+              <div className="pt-2 border-t border-slate-800">
+                <span className="text-slate-400 text-sm flex items-center gap-2 mb-2"><Gauge className="w-3 h-3" /> Input Quality</span>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                  {result.quality.checks.map(c => (
+                    <div key={c.id} className="flex justify-between" title={c.reason}>
+                      <span className="text-slate-500">{c.label}</span>
+                      <span className={`font-mono ${c.passed ? 'text-white' : 'text-amber-400'}`}>{c.value ?? 'n/a'} {c.unit}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="pt-2 border-t border-slate-800">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-slate-400 flex items-center gap-2"><Wind className="w-3 h-3" /> Breaths Detected</span>
+                <span className={`px-2 py-0.5 rounded text-xs font-bold ${breathingBadge(result.metrics.breathingArtifactsDetected)}`}>
+                  {breathing ? breathing.breaths.length : result.metrics.breathingArtifactsDetected === undefined ? 'N/A' : result.metrics.breathingArtifactsDetected ? 'YES' : 'NONE'}
+                </span>
+              </div>
             </div>
 
           </div>
         </div>
       </div>
 
+      {features.length > 0 && (
+        <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-800 mb-6">
+          <h4 className="text-teal-400 font-semibold mb-3 flex items-center gap-2">
+            <Cpu className="w-4 h-4" /> Feature Extractors
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
+            {features.map(extractor => (
+              <div key={extractor.id}>
+                <span className="text-slate-400 text-sm block mb-1">{extractor.label}</span>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                  {extractor.metrics.map(m => (
+                    <div key={m.key} className="flex justify-between">
+                      <span className="text-slate-500">{m.label}</span>
+                      <span className="font-mono text-white">{m.value === null ? 'n/a' : `${m.value}${m.unit ? ` ${m.unit}` : ''}`}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {transcoding && (
+        <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-800 mb-6">
+          <h4 className="text-orange-400 font-semibold mb-3 flex items-center gap-2">
+            <FileAudio className="w-4 h-4" /> Transcoding History
+            <span className="ml-auto text-xs font-mono text-slate-400">
+              codec likelihood {Math.round(transcoding.codecLikelihood * 100)}% · {transcoding.generations === 0
+                ? 'no lossy generation'
+                : transcoding.generations === 1 ? '1 lossy generation' : '2+ lossy generations'}
+            </span>
+          </h4>
+          <ul className="space-y-1 text-sm text-slate-300 list-disc list-inside">
+            {transcoding.evidence.map((line, i) => <li key={i}>{line}</li>)}
+          </ul>
+          {result.factors.some(f => f.originalPoints !== undefined) && (
+            <p className="text-xs text-amber-300 mt-3">
+              Codec-explainable factors were discounted: {result.factors
+                .filter(f => f.originalPoints !== undefined)
+                .map(f => `${f.label} ${f.originalPoints} → ${f.points}`)
+                .join(', ')}.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-800 mb-6">
+        <h4 className="text-cyan-400 font-semibold mb-3 flex items-center gap-2">
+          <Scale className="w-4 h-4" /> Score Breakdown
+          <span className="ml-auto text-xs font-mono text-slate-400">
+            {result.profile && `${result.profile.name} · `}score {result.score} / threshold {result.decisionThreshold}
+          </span>
+        </h4>
+        <ScoreWaterfall factors={result.factors} score={result.score} decisionThreshold={result.decisionThreshold} />
+        <table className="w-full mt-4 text-xs">
+          <thead>
+            <tr className="text-slate-500 border-b border-slate-800 text-left">
+              <th className="font-normal py-1 pr-2">Rule</th>
+              <th className="font-normal py-1 pr-2">Measured</th>
+              <th className="font-normal py-1 pr-2">Condition</th>
+              <th className="font-normal py-1 pr-2 text-right">Points</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.factors.map(f => (
+              <tr key={f.id} className="border-b border-slate-800/50 align-top" title={f.rationale}>
+                <td className="py-1.5 pr-2 text-slate-300">
+                  {f.label}
+                  <div className="text-[10px] text-slate-500">{f.rationale}</div>
+                  {f.discountReason && <div className="text-[10px] text-amber-400">{f.discountReason}</div>}
+                </td>
+                <td className="py-1.5 pr-2 font-mono text-white whitespace-nowrap">{f.value} {f.unit}</td>
+                <td className="py-1.5 pr-2 font-mono text-slate-400">{f.threshold}</td>
+                <td className={`py-1.5 pr-2 font-mono text-right ${f.points > 0 ? 'text-red-400' : f.points < 0 ? 'text-green-400' : 'text-slate-500'}`}>
+                  {f.originalPoints !== undefined && (
+                    <span className="text-slate-500 line-through mr-1">+{f.originalPoints}</span>
+                  )}
+                  {f.points > 0 ? '+' : ''}{f.points}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {result.segments && result.segments.length > 0 && (
+        <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-800">
+          <h4 className="text-amber-400 font-semibold mb-3 flex items-center gap-2">
+            <Clock className="w-4 h-4" /> Segment Timeline
+          </h4>
+          {flaggedSegments.length === 0 ? (
+            <p className="text-sm text-slate-400">
+              None of the {result.segments.length} speech segments scored as synthetic on their own.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-slate-300 mb-3">
+                {flaggedSegments.length} of {result.segments.length} speech segments scored as synthetic.
+                Click a red region under the spectrogram to jump to it.
+              </p>
+              <ul className="space-y-1">
+                {flaggedSegments.map(seg => (
+                  <li key={seg.startSec} className="flex justify-between text-xs font-mono text-slate-400">
+                    <span className="text-red-300">{seg.startSec.toFixed(1)}s - {seg.endSec.toFixed(1)}s</span>
+                    <span className="truncate mx-3 flex-1 text-slate-500">{seg.keyObservation}</span>
+                    <span className="text-white">{seg.confidence}%</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
     </div>
   );
 };
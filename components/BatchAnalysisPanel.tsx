@@ -0,0 +1,307 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FolderOpen, Upload, Play, X, ArrowUp, ArrowDown, Trash2, Layers, FileSpreadsheet } from 'lucide-react';
+import { AnalysisResult, BatchItem, DetectionProfile } from '../types';
+import { collectDroppedFiles, createBatchItems, isAudioFile, runBatch } from '../services/batchService';
+import { buildReport, reportsToCsv, downloadText } from '../services/reportService';
+import { archiveAnalysis } from '../services/caseHistory';
+
+interface Props {
+  profile: DetectionProfile;
+  midSide: boolean;
+  onOpen: (file: File, result: AnalysisResult) => void;
+  onArchived?: () => void; // a finished item was saved to the case history
+}
+
+type SortKey =
+  | 'name'
+  | 'duration'
+  | 'classification'
+  | 'confidence'
+  | 'noiseFloorDb'
+  | 'frequencyCutoffHz'
+  | 'bandwidthEdgeHz'
+  | 'harmonicRegularityScore'
+  | 'energyVariationScore'
+  | 'breathingArtifactsDetected';
+
+type VerdictFilter = 'all' | 'Human Voice' | 'AI-Generated Voice' | 'Inconclusive' | 'failed';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'name', label: 'File' },
+  { key: 'duration', label: 'Duration' },
+  { key: 'classification', label: 'Verdict' },
+  { key: 'confidence', label: 'Conf.' },
+  { key: 'noiseFloorDb', label: 'Noise (dB)' },
+  { key: 'frequencyCutoffHz', label: 'Cutoff (Hz)' },
+  { key: 'bandwidthEdgeHz', label: 'Bandwidth (Hz)' },
+  { key: 'harmonicRegularityScore', label: 'Regularity' },
+  { key: 'energyVariationScore', label: 'Energy Var.' },
+  { key: 'breathingArtifactsDetected', label: 'Breaths' }
+];
+
+const sortValue = (item: BatchItem, key: SortKey): string | number => {
+  const r = item.result;
+  switch (key) {
+    case 'name': return item.file.name.toLowerCase();
+    case 'duration': return r?.durationSec ?? -1;
+    case 'classification': return r?.classification ?? '';
+    case 'confidence': return r?.confidence ?? -1;
+    case 'bandwidthEdgeHz': return r?.metrics.bandwidthEdgeHz ?? -1;
+    case 'breathingArtifactsDetected': return r ? r.breathing?.breaths.length ?? Number(r.metrics.breathingArtifactsDetected ?? -1) : -1;
+    default: return r ? r.metrics[key] : Number.NEGATIVE_INFINITY;
+  }
+};
+
+const formatDuration = (sec?: number) => {
+  if (sec === undefined) return '—';
+  const m = Math.floor(sec / 60);
+  const s = Math.floor(sec % 60).toString().padStart(2, '0');
+  return `${m}:${s}`;
+};
+
+const BatchAnalysisPanel: React.FC<Props> = ({ profile, midSide, onOpen, onArchived }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [concurrency, setConcurrency] = useState(2);
+  const [sortKey, setSortKey] = useState<SortKey>('name');
+  const [sortAsc, setSortAsc] = useState(true);
+  const [filter, setFilter] = useState<VerdictFilter>('all');
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    // Not part of React's input typings
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const addFiles = (files: File[]) => {
+    const audio = files.filter(isAudioFile);
+    if (audio.length > 0) setItems(prev => [...prev, ...createBatchItems(audio)]);
+  };
+
+  const handleInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(await collectDroppedFiles(e.dataTransfer));
+  };
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+  const startBatch = async () => {
+    const pending = items.filter(item => item.status === 'queued' || item.status === 'cancelled');
+    if (pending.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    pending.forEach(item => updateItem(item.id, { status: 'queued', progress: 0 }));
+    const onUpdate = (id: string, patch: Partial<BatchItem>) => {
+      updateItem(id, patch);
+      const item = pending.find(p => p.id === id);
+      if (item && patch.result) {
+        archiveAnalysis(item.file, patch.result, { withThumbnail: false })
+          .then(() => onArchived?.())
+          .catch(err => console.warn("Could not save to the case history:", err));
+      }
+    };
+    await runBatch(pending, { concurrency, signal: controller.signal, profile, midSide, onUpdate });
+    abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  const cancelBatch = () => {
+    abortRef.current?.abort();
+    setItems(prev => prev.map(item => (item.status === 'queued' ? { ...item, status: 'cancelled' } : item)));
+  };
+
+  const exportCsv = async () => {
+    const done = visibleItems.filter(item => item.result);
+    const reports = await Promise.all(done.map(item => buildReport(item.file, item.file.name, item.result as AnalysisResult)));
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    downloadText(reportsToCsv(reports), `sigspec-batch-${stamp}.csv`, 'text/csv');
+  };
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAsc(!sortAsc);
+    } else {
+      setSortKey(key);
+      setSortAsc(true);
+    }
+  };
+
+  const visibleItems = useMemo(() => {
+    const filtered = items.filter(item => {
+      if (filter === 'all') return true;
+      if (filter === 'failed') return item.status === 'error';
+      return item.result?.classification === filter;
+    });
+    return [...filtered].sort((a, b) => {
+      const va = sortValue(a, sortKey);
+      const vb = sortValue(b, sortKey);
+      const cmp = va < vb ? -1 : va > vb ? 1 : 0;
+      return sortAsc ? cmp : -cmp;
+    });
+  }, [items, filter, sortKey, sortAsc]);
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const aiCount = items.filter(item => item.result?.classification === 'AI-Generated Voice').length;
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-xl">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Layers className="w-5 h-5 text-blue-400" /> Batch Analysis
+        </h3>
+        <div className="flex items-center gap-2 text-xs font-mono text-slate-400">
+          <span>{doneCount}/{items.length} analyzed</span>
+          <span className="text-red-400">{aiCount} flagged</span>
+        </div>
+      </div>
+
+      <div
+        onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`h-24 border-2 border-dashed rounded-lg flex flex-col items-center justify-center gap-2 text-sm transition-all
+          ${isDragging ? 'border-blue-500 bg-slate-800/50 text-blue-400' : 'border-slate-700 text-slate-400'}`}
+      >
+        <span>Drop audio files or folders here</span>
+        <div className="flex gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded flex items-center gap-1 text-xs transition-colors">
+            <Upload className="w-3 h-3" /> Files
+          </button>
+          <button onClick={() => folderInputRef.current?.click()} className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded flex items-center gap-1 text-xs transition-colors">
+            <FolderOpen className="w-3 h-3" /> Folder
+          </button>
+        </div>
+      </div>
+      <input type="file" ref={fileInputRef} onChange={handleInput} accept="audio/*" multiple className="hidden" />
+      <input type="file" ref={folderInputRef} onChange={handleInput} multiple className="hidden" />
+
+      <div className="flex flex-wrap items-center gap-3 mt-4">
+        {isRunning ? (
+          <button onClick={cancelBatch} className="px-4 py-2 bg-red-600 hover:bg-red-500 text-white rounded flex items-center gap-2 text-sm font-medium transition-colors">
+            <X className="w-4 h-4" /> Cancel
+          </button>
+        ) : (
+          <button
+            onClick={startBatch}
+            disabled={!items.some(item => item.status === 'queued' || item.status === 'cancelled')}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded flex items-center gap-2 text-sm font-medium transition-colors"
+          >
+            <Play className="w-4 h-4" /> Run Queue
+          </button>
+        )}
+        <button
+          onClick={() => setItems([])}
+          disabled={isRunning || items.length === 0}
+          className="px-3 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed text-slate-300 rounded flex items-center gap-2 text-sm transition-colors"
+        >
+          <Trash2 className="w-4 h-4" /> Clear
+        </button>
+        <button
+          onClick={exportCsv}
+          disabled={isRunning || doneCount === 0}
+          className="px-3 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed text-slate-300 rounded flex items-center gap-2 text-sm transition-colors"
+        >
+          <FileSpreadsheet className="w-4 h-4" /> Export CSV
+        </button>
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          Parallel
+          <select
+            value={concurrency}
+            onChange={e => setConcurrency(Number(e.target.value))}
+            disabled={isRunning}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200"
+          >
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-400 ml-auto">
+          Show
+          <select
+            value={filter}
+            onChange={e => setFilter(e.target.value as VerdictFilter)}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200"
+          >
+            <option value="all">All</option>
+            <option value="AI-Generated Voice">AI-Generated</option>
+            <option value="Human Voice">Human</option>
+            <option value="Inconclusive">Inconclusive</option>
+            <option value="failed">Failed</option>
+          </select>
+        </label>
+      </div>
+
+      {items.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-slate-400 border-b border-slate-800">
+                {COLUMNS.map(col => (
+                  <th key={col.key} className="text-left font-normal py-2 pr-3 whitespace-nowrap">
+                    <button onClick={() => toggleSort(col.key)} className="flex items-center gap-1 hover:text-white transition-colors">
+                      {col.label}
+                      {sortKey === col.key && (sortAsc ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleItems.map(item => {
+                const r = item.result;
+                const isAI = r?.classification === 'AI-Generated Voice';
+                return (
+                  <tr
+                    key={item.id}
+                    onClick={() => r && onOpen(item.file, r)}
+                    className={`border-b border-slate-800/60 ${r ? 'cursor-pointer hover:bg-slate-800/50' : ''}`}
+                  >
+                    <td className="py-2 pr-3 text-slate-200 truncate max-w-[180px]" title={item.file.name}>{item.file.name}</td>
+                    <td className="py-2 pr-3 text-slate-400">{formatDuration(r?.durationSec)}</td>
+                    <td className="py-2 pr-3 whitespace-nowrap">
+                      {r ? (
+                        <span
+                          className={isAI ? 'text-red-400' : r.classification === 'Inconclusive' ? 'text-amber-400' : 'text-green-400'}
+                          title={r.classification === 'Inconclusive' ? r.explanation : undefined}
+                        >
+                          {r.classification}
+                        </span>
+                      ) : item.status === 'running' ? (
+                        <span className="text-blue-300">{Math.round(item.progress * 100)}%</span>
+                      ) : item.status === 'error' ? (
+                        <span className="text-red-300" title={item.error}>failed</span>
+                      ) : (
+                        <span className="text-slate-500">{item.status}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-white">{r && r.classification !== 'Inconclusive' ? `${r.confidence}%` : '—'}</td>
+                    <td className="py-2 pr-3 text-slate-300">{r ? r.metrics.noiseFloorDb : '—'}</td>
+                    <td className="py-2 pr-3 text-slate-300">{r ? r.metrics.frequencyCutoffHz : '—'}</td>
+                    <td className="py-2 pr-3 text-slate-300">{r?.metrics.bandwidthEdgeHz ?? '—'}</td>
+                    <td className="py-2 pr-3 text-slate-300">{r ? r.metrics.harmonicRegularityScore : '—'}</td>
+                    <td className="py-2 pr-3 text-slate-300">{r ? r.metrics.energyVariationScore : '—'}</td>
+                    <td className="py-2 pr-3 text-slate-300">{r ? r.breathing?.breaths.length ?? (r.metrics.breathingArtifactsDetected === undefined ? 'n/a' : r.metrics.breathingArtifactsDetected ? 'yes' : 'no') : '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchAnalysisPanel;
@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Search, X, Trash2, FolderOpen, Check, Tag, HardDrive } from 'lucide-react';
+import { CaseRecord, Classification } from '../types';
+import { CaseEdit, caseMatches, deleteCase, listCases, updateCase } from '../services/caseHistory';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  version: number;          // bumped whenever a case is saved elsewhere
+  activeSha: string | null; // case shown in the single-file view
+  keepAudio: boolean;
+  onKeepAudioChange: (keep: boolean) => void;
+  onOpen: (record: CaseRecord) => void;
+  onChange: (record: CaseRecord) => void;
+  onDelete: (sha256: string) => void;
+}
+
+const CLASSIFICATIONS: Classification[] = ['Human Voice', 'AI-Generated Voice', 'Inconclusive'];
+
+const verdictColor = (classification: Classification) =>
+  classification === 'AI-Generated Voice' ? 'text-red-400' : classification === 'Inconclusive' ? 'text-amber-400' : 'text-green-400';
+
+const parseTags = (text: string) =>
+  Array.from(new Set(text.split(',').map(t => t.trim()).filter(Boolean)));
+
+interface DetailsProps {
+  record: CaseRecord;
+  onEdit: (edit: CaseEdit) => void;
+  onOpen: () => void;
+  onDelete: () => void;
+}
+
+// Tags, notes and the reviewer's label of one case; text fields save when they lose focus
+const CaseDetails: React.FC<DetailsProps> = ({ record, onEdit, onOpen, onDelete }) => {
+  const [tagsText, setTagsText] = useState(record.tags.join(', '));
+  const [notes, setNotes] = useState(record.notes);
+  const verdict = record.result.classification;
+
+  useEffect(() => {
+    setTagsText(record.tags.join(', '));
+    setNotes(record.notes);
+  }, [record.sha256, record.tags, record.notes]);
+
+  const commitTags = () => {
+    const tags = parseTags(tagsText);
+    if (tags.join(',') !== record.tags.join(',')) onEdit({ tags });
+  };
+
+  const commitNotes = () => {
+    if (notes !== record.notes) onEdit({ notes });
+  };
+
+  const review = (label: Classification) => onEdit({
+    review: { decision: label === verdict ? 'agree' : 'override', label, reviewedAt: new Date().toISOString() }
+  });
+
+  return (
+    <div className="mt-3 space-y-3 text-xs" onClick={e => e.stopPropagation()}>
+      <div className="font-mono text-slate-500 break-all">SHA-256 {record.sha256}</div>
+      <div className="text-slate-400">
+        Analyzed {new Date(record.analyzedAt).toLocaleString()} with {record.result.profile?.name ?? 'the default profile'}
+        {record.hasAudio ? '; audio stored.' : '; audio not stored.'}
+      </div>
+
+      <label className="block">
+        <span className="text-slate-500 flex items-center gap-1 mb-1"><Tag className="w-3 h-3" /> Tags (comma-separated)</span>
+        <input
+          value={tagsText}
+          onChange={e => setTagsText(e.target.value)}
+          onBlur={commitTags}
+          onKeyDown={e => { if (e.key === 'Enter') commitTags(); }}
+          className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200"
+        />
+      </label>
+
+      <label className="block">
+        <span className="text-slate-500 block mb-1">Notes</span>
+        <textarea
+          value={notes}
+          onChange={e => setNotes(e.target.value)}
+          onBlur={commitNotes}
+          rows={3}
+          className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200 resize-y"
+        />
+      </label>
+
+      <div>
+        <span className="text-slate-500 block mb-1">Reviewer label</span>
+        <div className="flex flex-wrap gap-1">
+          {CLASSIFICATIONS.map(label => {
+            const selected = record.review?.label === label;
+            return (
+              <button
+                key={label}
+                onClick={() => review(label)}
+                className={`px-2 py-1 rounded border transition-colors ${selected ? 'bg-blue-600 border-blue-500 text-white' : 'border-slate-700 text-slate-300 hover:bg-slate-800'}`}
+              >
+                {label === verdict ? `Agree: ${label}` : `Override: ${label}`}
+              </button>
+            );
+          })}
+          {record.review && (
+            <button onClick={() => onEdit({ review: null })} className="px-2 py-1 rounded text-slate-500 hover:text-slate-300">
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={onOpen} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded flex items-center gap-1 text-slate-300 transition-colors">
+          <FolderOpen className="w-3 h-3" /> Open
+        </button>
+        <button onClick={onDelete} className="px-3 py-1.5 bg-slate-800 hover:bg-red-900/60 rounded flex items-center gap-1 text-slate-300 hover:text-red-300 transition-colors">
+          <Trash2 className="w-3 h-3" /> Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Slide-over list of every analysis kept in this browser
+const CaseHistoryPanel: React.FC<Props> = ({
+  open, onClose, version, activeSha, keepAudio, onKeepAudioChange, onOpen, onChange, onDelete
+}) => {
+  const [cases, setCases] = useState<CaseRecord[]>([]);
+  const [query, setQuery] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let active = true;
+    listCases()
+      .then(records => {
+        if (active) setCases(records);
+      })
+      .catch(err => {
+        console.error(err);
+        if (active) setError("The case history could not be read. Browser storage may be disabled.");
+      });
+    return () => {
+      active = false;
+    };
+  }, [open, version]);
+
+  const visible = useMemo(() => cases.filter(c => caseMatches(c, query)), [cases, query]);
+
+  const edit = async (sha256: string, change: CaseEdit) => {
+    try {
+      const record = await updateCase(sha256, change);
+      setCases(prev => prev.map(c => (c.sha256 === sha256 ? record : c)));
+      onChange(record);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save the change.");
+    }
+  };
+
+  const remove = async (record: CaseRecord) => {
+    if (!window.confirm(`Delete the saved analysis of ${record.fileName}? This cannot be undone.`)) return;
+    try {
+      await deleteCase(record.sha256);
+      setCases(prev => prev.filter(c => c.sha256 !== record.sha256));
+      onDelete(record.sha256);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not delete the case.");
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <aside className="fixed inset-y-0 right-0 w-full sm:w-96 bg-slate-950 border-l border-slate-800 shadow-2xl z-20 flex flex-col">
+      <div className="p-4 border-b border-slate-800 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <History className="w-5 h-5 text-blue-400" /> Case History
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" aria-label="Close case history">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="relative">
+          <Search className="w-4 h-4 text-slate-500 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search name, tag, note, verdict or hash"
+            className="w-full bg-slate-900 border border-slate-700 rounded pl-8 pr-2 py-1.5 text-sm text-slate-200"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input type="checkbox" checked={keepAudio} onChange={e => onKeepAudioChange(e.target.checked)} className="accent-blue-500" />
+          <HardDrive className="w-3 h-3" /> Also store the audio of new analyses
+        </label>
+        <p className="text-[10px] text-slate-500">Kept in this browser only (IndexedDB); nothing is uploaded.</p>
+        {error && <div className="p-2 bg-red-900/20 border border-red-500/30 text-red-300 text-xs rounded">{error}</div>}
+      </div>
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-2">
+        {visible.length === 0 && (
+          <li className="text-sm text-slate-500 text-center py-8">
+            {cases.length === 0 ? 'No analyses saved yet.' : 'No case matches the search.'}
+          </li>
+        )}
+        {visible.map(record => {
+          const verdict = record.result.classification;
+          return (
+            <li
+              key={record.sha256}
+              onClick={() => setExpanded(expanded === record.sha256 ? null : record.sha256)}
+              className={`p-3 rounded-lg border cursor-pointer transition-colors ${record.sha256 === activeSha ? 'border-blue-500/60 bg-blue-950/20' : 'border-slate-800 bg-slate-900 hover:border-slate-700'}`}
+            >
+              {record.thumbnail && <img src={record.thumbnail} alt="" className="w-full h-12 object-cover rounded mb-2" />}
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm text-slate-200 truncate">{record.fileName}</span>
+                <span className="text-[10px] font-mono text-slate-500 whitespace-nowrap">{new Date(record.analyzedAt).toLocaleDateString()}</span>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+                <span className={verdictColor(verdict)}>{verdict}</span>
+                {record.review && (
+                  <span className={`flex items-center gap-1 ${record.review.decision === 'agree' ? 'text-slate-400' : 'text-amber-300'}`}>
+                    <Check className="w-3 h-3" />
+                    {record.review.decision === 'agree' ? 'reviewed' : `overridden: ${record.review.label}`}
+                  </span>
+                )}
+                {record.tags.map(tag => (
+                  <span key={tag} className="px-1.5 py-0.5 rounded bg-slate-800 text-slate-400">{tag}</span>
+                ))}
+              </div>
+              {expanded === record.sha256 && (
+                <CaseDetails
+                  record={record}
+                  onEdit={change => edit(record.sha256, change)}
+                  onOpen={() => onOpen(record)}
+                  onDelete={() => remove(record)}
+                />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+};
+
+export default CaseHistoryPanel;
@@ -0,0 +1,314 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GitCompare, Upload, Play, X, ShieldCheck, ShieldAlert, ShieldQuestion } from 'lucide-react';
+import { AnalysisResult, DetectionProfile } from '../types';
+import { analyzeAudioSignal, isAbortError } from '../services/analysisService';
+import { compareResults } from '../services/comparisonService';
+import { archiveAnalysis } from '../services/caseHistory';
+import { createAudioPlayer, LoopRegion } from '../services/audioPlayer';
+import OfflineSpectrogram from './OfflineSpectrogram';
+import TransportBar from './TransportBar';
+import OverlayChart from './OverlayChart';
+
+interface Props {
+  profile: DetectionProfile;
+  midSide: boolean;
+  onArchived?: () => void; // both analyses were saved to the case history
+}
+
+type Side = 'reference' | 'suspect';
+
+const SIDES: { side: Side; title: string; hint: string; color: string }[] = [
+  { side: 'reference', title: 'Reference', hint: 'Verified recording of the real person', color: '#38bdf8' },
+  { side: 'suspect', title: 'Suspect', hint: 'Clip under investigation', color: '#f97316' }
+];
+
+const formatValue = (value: number | null, unit: string) => (value === null ? '—' : `${value}${unit ? ` ${unit}` : ''}`);
+
+interface PaneProps {
+  title: string;
+  hint: string;
+  color: string;
+  file: File | null;
+  result: AnalysisResult | null;
+  onFile: (file: File) => void;
+  disabled: boolean;
+}
+
+// One side of the comparison: file slot, its own player and an offline spectrogram
+const ComparisonPane: React.FC<PaneProps> = ({ title, hint, color, file, result, onFile, disabled }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [loop, setLoop] = useState<LoopRegion | null>(null);
+  const [channel, setChannel] = useState<string | null>(null);
+  const [player] = useState(() => createAudioPlayer({ onPlayStateChange: setIsPlaying, onTimeUpdate: setCurrentTime }));
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setLoop(null);
+    setChannel(null);
+    setDuration(0);
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    let active = true;
+    player.load(url)
+      .then(d => {
+        if (active) setDuration(d);
+      })
+      .catch(err => console.error("Error loading audio:", err));
+    return () => {
+      active = false;
+      player.unload();
+      URL.revokeObjectURL(url);
+    };
+  }, [file, player]);
+
+  useEffect(() => {
+    player.setLoop(loop);
+  }, [loop, player]);
+
+  useEffect(() => {
+    if (result) setChannel(result.channel ?? null);
+  }, [result]);
+
+  const channelResult = !result ? undefined
+    : !result.channels ? result
+    : result.channels.find(c => c.label === channel)?.result ?? undefined;
+
+  const handleInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    if (picked) onFile(picked);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex flex-col gap-3 min-w-0">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <h4 className="font-semibold text-white flex items-center gap-2">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} /> {title}
+          </h4>
+          <p className="text-xs text-slate-500 truncate">{file ? file.name : hint}</p>
+        </div>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed rounded flex items-center gap-1 text-xs text-slate-300 transition-colors"
+        >
+          <Upload className="w-3 h-3" /> {file ? 'Replace' : 'Load'}
+        </button>
+        <input type="file" ref={inputRef} onChange={handleInput} accept="audio/*" className="hidden" />
+      </div>
+
+      {result && (
+        <div className="flex items-center gap-2 text-xs font-mono">
+          {result.classification === 'Inconclusive' ? <ShieldQuestion className="w-4 h-4 text-amber-400" />
+            : result.classification === 'Human Voice' ? <ShieldCheck className="w-4 h-4 text-green-400" />
+            : <ShieldAlert className="w-4 h-4 text-red-400" />}
+          <span className="text-slate-300">{result.classification}</span>
+          <span className="text-slate-500">score {result.score}</span>
+        </div>
+      )}
+
+      {file && (
+        <>
+          <div className="bg-slate-900 rounded-xl border border-slate-800">
+            <TransportBar
+              player={player}
+              isPlaying={isPlaying}
+              currentTime={currentTime}
+              duration={duration}
+              loop={loop}
+              onLoopChange={setLoop}
+            />
+          </div>
+          <OfflineSpectrogram
+            file={file}
+            evidence={channelResult?.evidence}
+            breathing={channelResult?.breathing}
+            player={player}
+            isPlaying={isPlaying}
+            currentTime={currentTime}
+            loop={loop}
+            channel={channel}
+            onChannelChange={setChannel}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+// Side-by-side analysis of a suspect clip against a verified reference of the same voice
+const ComparisonPanel: React.FC<Props> = ({ profile, midSide, onArchived }) => {
+  const [files, setFiles] = useState<Record<Side, File | null>>({ reference: null, suspect: null });
+  const [results, setResults] = useState<Record<Side, AnalysisResult> | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const comparison = useMemo(() => results && compareResults(results.reference, results.suspect), [results]);
+
+  const setFile = (side: Side, file: File) => {
+    abortRef.current?.abort();
+    setFiles(prev => ({ ...prev, [side]: file }));
+    setResults(null);
+    setError(null);
+  };
+
+  const runComparison = async () => {
+    if (!files.reference || !files.suspect) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setProgress(0);
+    setError(null);
+    try {
+      // One after the other: each analysis already has a worker to itself
+      const reference = await analyzeAudioSignal(files.reference, {
+        signal: controller.signal, profile, midSide, onProgress: f => setProgress(f / 2)
+      });
+      const suspect = await analyzeAudioSignal(files.suspect, {
+        signal: controller.signal, profile, midSide, onProgress: f => setProgress(0.5 + f / 2)
+      });
+      setResults({ reference, suspect });
+      Promise.all([archiveAnalysis(files.reference, reference), archiveAnalysis(files.suspect, suspect)])
+        .then(() => onArchived?.())
+        .catch(err => console.warn("Could not save to the case history:", err));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Comparison failed. Please try again.");
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-xl">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-blue-400" /> A/B Comparison
+        </h3>
+        <div className="flex items-center gap-3">
+          {isRunning ? (
+            <>
+              <div className="w-32 bg-slate-800 rounded-full h-1.5">
+                <div className="bg-blue-500 h-1.5 rounded-full transition-all duration-200" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+              </div>
+              <button onClick={() => abortRef.current?.abort()} className="px-4 py-2 bg-red-600 hover:bg-red-500 text-white rounded flex items-center gap-2 text-sm font-medium transition-colors">
+                <X className="w-4 h-4" /> Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={runComparison}
+              disabled={!files.reference || !files.suspect}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded flex items-center gap-2 text-sm font-medium transition-colors"
+            >
+              <Play className="w-4 h-4" /> Compare
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/20 border border-red-500/30 text-red-300 text-xs rounded">
+          Error: {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {SIDES.map(({ side, title, hint, color }) => (
+          <ComparisonPane
+            key={side}
+            title={title}
+            hint={hint}
+            color={color}
+            file={files[side]}
+            result={results?.[side] ?? null}
+            onFile={file => setFile(side, file)}
+            disabled={isRunning}
+          />
+        ))}
+      </div>
+
+      {comparison && (
+        <div className="mt-6 space-y-6">
+          <div className={`p-4 rounded-lg border ${comparison.deviations.length > 0 ? 'border-amber-500/50 bg-amber-950/20 text-amber-200' : 'border-green-500/50 bg-green-950/20 text-green-200'}`}>
+            <p className="font-semibold">{comparison.verdict}</p>
+            <p className="text-xs text-slate-400 mt-1">
+              Deviations are measured against the reference, not against a model of AI speech: a different microphone,
+              room or codec can move the recording-chain measures (noise floor, bandwidth, LTAS) too.
+            </p>
+          </div>
+
+          <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-800">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-500 border-b border-slate-800 text-left">
+                  <th className="font-normal py-1 pr-2">Measure</th>
+                  <th className="font-normal py-1 pr-2 text-right">Reference</th>
+                  <th className="font-normal py-1 pr-2 text-right">Suspect</th>
+                  <th className="font-normal py-1 pr-2 text-right">Difference</th>
+                  <th className="font-normal py-1 pr-2">Tolerance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.metrics.map(m => (
+                  <tr key={m.key} className="border-b border-slate-800/50">
+                    <td className="py-1.5 pr-2 text-slate-300">{m.label}</td>
+                    <td className="py-1.5 pr-2 font-mono text-right text-white">{formatValue(m.reference, m.unit)}</td>
+                    <td className="py-1.5 pr-2 font-mono text-right text-white">{formatValue(m.suspect, m.unit)}</td>
+                    <td className={`py-1.5 pr-2 font-mono text-right ${m.deviates ? 'text-amber-400 font-bold' : 'text-slate-400'}`}>
+                      {m.difference === null ? '—' : `${m.reference !== null && m.difference > 0 ? '+' : ''}${m.difference}${m.unit ? ` ${m.unit}` : ''}`}
+                    </td>
+                    <td className="py-1.5 pr-2 font-mono text-slate-500">{m.tolerance}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-800">
+              <h4 className="text-sm text-slate-400 mb-2">Long-term average spectrum (1/3 octave)</h4>
+              <OverlayChart
+                x={comparison.ltas.bandHz}
+                series={[
+                  { label: 'Reference', color: SIDES[0].color, values: comparison.ltas.reference },
+                  { label: 'Suspect', color: SIDES[1].color, values: comparison.ltas.suspect }
+                ]}
+                xUnit="Hz"
+                yUnit="dB"
+                logX
+                yFloor={-80}
+                ariaLabel="Long-term average spectra of reference and suspect"
+              />
+            </div>
+            <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-800">
+              <h4 className="text-sm text-slate-400 mb-2">Pitch distribution (share of voiced frames)</h4>
+              <OverlayChart
+                x={comparison.pitch.binHz}
+                series={[
+                  { label: 'Reference', color: SIDES[0].color, values: comparison.pitch.reference.map(s => Math.round(s * 1000) / 10) },
+                  { label: 'Suspect', color: SIDES[1].color, values: comparison.pitch.suspect.map(s => Math.round(s * 1000) / 10) }
+                ]}
+                xUnit="Hz"
+                yUnit="%"
+                logX
+                ariaLabel="F0 distributions of reference and suspect"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPanel;
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PhoneCall, PhoneOff, ShieldCheck, ShieldAlert, ShieldQuestion } from 'lucide-react';
+import { DetectionProfile, StreamingUpdate } from '../types';
+import { startMicCapture, MicCapture } from '../services/micCapture';
+import { createStreamingAnalyzer } from '../services/streamingAnalyzer';
+
+interface Props {
+  disabled?: boolean;
+  profile: DetectionProfile;
+  onLiveStream: (stream: MediaStream | null) => void;
+}
+
+// Maps a verdict onto a single 0-100 "leans AI" axis for the trend chart.
+// Inconclusive windows (silence, noise) are left out of the trend.
+const aiLikelihood = (update: StreamingUpdate) =>
+  update.result.classification === 'AI-Generated Voice' ? update.result.confidence : 100 - update.result.confidence;
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+
+const LiveCallMonitor: React.FC<Props> = ({ disabled, profile, onLiveStream }) => {
+  const captureRef = useRef<MicCapture | null>(null);
+  const [isMonitoring, setIsMonitoring] = useState(false);
+  const [updates, setUpdates] = useState<StreamingUpdate[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopMonitoring = async () => {
+    const capture = captureRef.current;
+    captureRef.current = null;
+    setIsMonitoring(false);
+    onLiveStream(null);
+    if (capture) await capture.stop();
+  };
+
+  useEffect(() => {
+    return () => {
+      if (!captureRef.current) return;
+      captureRef.current.stop();
+      onLiveStream(null);
+    };
+  }, []);
+
+  const startMonitoring = async () => {
+    setError(null);
+    setUpdates([]);
+    try {
+      let analyzer: ReturnType<typeof createStreamingAnalyzer> | null = null;
+      const capture = await startMicCapture(chunk => analyzer?.push(chunk));
+      analyzer = createStreamingAnalyzer({
+        sampleRate: capture.sampleRate,
+        profile,
+        onUpdate: update => setUpdates(prev => [...prev, update])
+      });
+      captureRef.current = capture;
+      setIsMonitoring(true);
+      onLiveStream(capture.stream);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Could not start live monitoring.");
+    }
+  };
+
+  const latest = updates[updates.length - 1];
+  const isHuman = latest?.result.classification === 'Human Voice';
+  const isInconclusive = latest?.result.classification === 'Inconclusive';
+  const maxTime = latest?.timeSec || 1;
+  const trendPath = updates
+    .filter(u => u.result.classification !== 'Inconclusive')
+    .map((u, i) => {
+      const x = (u.timeSec / maxTime) * CHART_WIDTH;
+      const y = CHART_HEIGHT - (aiLikelihood(u) / 100) * CHART_HEIGHT;
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-xl">
+      <h3 className="text-lg font-semibold mb-4 text-white flex items-center gap-2">
+        <PhoneCall className="w-5 h-5 text-blue-400" /> Live Call Monitor
+      </h3>
+
+      {isMonitoring ? (
+        <button
+          onClick={stopMonitoring}
+          className="w-full py-2 bg-red-600 hover:bg-red-500 text-white rounded flex items-center justify-center gap-2 text-sm font-medium transition-colors"
+        >
+          <PhoneOff className="w-4 h-4" /> Stop Monitoring
+        </button>
+      ) : (
+        <button
+          onClick={startMonitoring}
+          disabled={disabled}
+          className="w-full py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed text-slate-300 rounded flex items-center justify-center gap-2 text-sm font-medium transition-colors"
+        >
+          <PhoneCall className="w-4 h-4" /> Start Monitoring
+        </button>
+      )}
+
+      {isMonitoring && !latest && (
+        <p className="mt-4 text-xs font-mono text-slate-500">Buffering audio for first verdict...</p>
+      )}
+
+      {latest && (
+        <div className="mt-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              {isInconclusive ? <ShieldQuestion className="w-5 h-5 text-amber-400" />
+                : isHuman ? <ShieldCheck className="w-5 h-5 text-green-400" /> : <ShieldAlert className="w-5 h-5 text-red-500" />}
+              <span className={`text-sm font-bold ${isInconclusive ? 'text-amber-400' : isHuman ? 'text-green-400' : 'text-red-400'}`}>
+                {latest.result.classification}
+              </span>
+            </div>
+            {isInconclusive
+              ? <span className="text-xs font-mono text-slate-400 truncate ml-3" title={latest.result.explanation}>{latest.result.keyObservation}</span>
+              : <span className="text-sm font-mono text-white">{latest.result.confidence}%</span>}
+          </div>
+
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-20 bg-slate-950 rounded border border-slate-800" preserveAspectRatio="none">
+            <line x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT / 2} y2={CHART_HEIGHT / 2} stroke="#334155" strokeDasharray="4 4" />
+            <path d={trendPath} fill="none" stroke="#22d3ee" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          </svg>
+          <div className="flex justify-between text-[10px] font-mono text-slate-500">
+            <span>AI likelihood trend</span>
+            <span>{latest.timeSec.toFixed(0)}s elapsed / {latest.windowSec.toFixed(0)}s window</span>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-900/20 border border-red-500/30 text-red-300 text-xs rounded">
+          Error: {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveCallMonitor;
@@ -0,0 +1,570 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ScanSearch, RotateCcw } from 'lucide-react';
+import { BreathingAnalysis, EvidenceTracks } from '../types';
+import { decodeAudioFile } from '../services/analysisService';
+import { MID_LABEL, SIDE_LABEL, channelLabels, extractChannel } from '../services/dspEngine';
+import { AudioPlayer, LoopRegion } from '../services/audioPlayer';
+import { usePlaybackTime } from './TransportBar';
+import {
+  COLORMAP_NAMES,
+  ColormapName,
+  FrequencyScale,
+  SpectrogramData,
+  SpectrogramView,
+  computeSpectrogram,
+  frequencyToPosition,
+  fullView,
+  paintSpectrogramView,
+  positionToFrequency,
+  sampleSpectrogram,
+  LOG_MIN_HZ
+} from '../services/spectrogramService';
+
+interface Props {
+  file: File | null;
+  evidence?: EvidenceTracks;
+  breathing?: BreathingAnalysis;
+  player: AudioPlayer;
+  isPlaying: boolean;
+  currentTime: number;
+  loop: LoopRegion | null;
+  channel: string | null;
+  onChannelChange: (channel: string) => void;
+}
+
+type OverlayLayer = 'rolloff' | 'centroid' | 'pitch' | 'gated' | 'digitalSilence' | 'breaths' | 'pauses' | 'noiseFloor';
+
+const OVERLAY_LAYERS: { id: OverlayLayer; label: string; color: string }[] = [
+  { id: 'rolloff', label: '85% rolloff', color: '#f8fafc' },
+  { id: 'centroid', label: 'Centroid', color: '#22d3ee' },
+  { id: 'pitch', label: 'Pitch (F0)', color: '#a3e635' },
+  { id: 'gated', label: 'Gated-out frames', color: '#64748b' },
+  { id: 'digitalSilence', label: 'Digital silence', color: '#ef4444' },
+  { id: 'breaths', label: 'Breaths', color: '#38bdf8' },
+  { id: 'pauses', label: 'Pauses', color: '#c084fc' },
+  { id: 'noiseFloor', label: 'Noise-floor frame', color: '#facc15' }
+];
+
+const FFT_SIZES = [512, 1024, 2048, 4096, 8192];
+const HOP_DIVISORS = [2, 4, 8];
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 300;
+const AXIS_LEFT = 52;
+const AXIS_BOTTOM = 20;
+const PLOT_WIDTH = CANVAS_WIDTH - AXIS_LEFT;
+const PLOT_HEIGHT = CANVAS_HEIGHT - AXIS_BOTTOM;
+
+const ZOOM_STEP = 1.25;
+const CLICK_SLOP_PX = 3;
+const MIN_SPAN_SEC = 0.05;
+
+// 1-2-5 step that gives roughly `target` ticks across `span`
+const niceStep = (span: number, target: number) => {
+  const raw = span / target;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const normalized = raw / magnitude;
+  return (normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10) * magnitude;
+};
+
+const formatHz = (hz: number) => (hz >= 1000 ? `${+(hz / 1000).toFixed(1)}k` : `${Math.round(hz)}`);
+
+// Candidate frequency labels; log and mel axes use a 1-2-5 ladder instead of even steps
+const frequencyTicks = (view: SpectrogramView): number[] => {
+  if (view.scale === 'linear') {
+    const step = niceStep(view.maxHz - view.minHz, 6);
+    const ticks: number[] = [];
+    for (let f = Math.ceil(view.minHz / step) * step; f <= view.maxHz; f += step) ticks.push(f);
+    return ticks;
+  }
+  const ladder: number[] = [];
+  for (let decade = 10; decade <= 100000; decade *= 10) ladder.push(decade, decade * 2, decade * 5);
+  let lastY = Infinity;
+  return ladder.filter(f => {
+    if (f < view.minHz || f > view.maxHz) return false;
+    const y = PLOT_HEIGHT * (1 - frequencyToPosition(f, view.scale, view.minHz, view.maxHz));
+    if (lastY - y < 16) return false;
+    lastY = y;
+    return true;
+  });
+};
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+// --- Evidence Overlays ---
+
+const drawEvidence = (
+  ctx: CanvasRenderingContext2D,
+  evidence: EvidenceTracks,
+  breathing: BreathingAnalysis | undefined,
+  view: SpectrogramView,
+  layers: Set<OverlayLayer>
+) => {
+  const span = view.endSec - view.startSec;
+  const xAt = (t: number) => AXIS_LEFT + ((t - view.startSec) / span) * PLOT_WIDTH;
+  const yAt = (hz: number) => PLOT_HEIGHT * (1 - frequencyToPosition(hz, view.scale, view.minHz, view.maxHz));
+  const frameCenter = (i: number) => i * evidence.frameHopSec + evidence.frameDurationSec / 2;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(AXIS_LEFT, 0, PLOT_WIDTH, PLOT_HEIGHT);
+  ctx.clip();
+
+  const shadeSpan = (startSec: number, endSec: number) => {
+    const x0 = xAt(startSec);
+    ctx.fillRect(x0, 0, Math.max(1, xAt(endSec) - x0), PLOT_HEIGHT);
+  };
+
+  if (layers.has('gated')) {
+    // Contiguous gated frames are merged into one band each
+    ctx.fillStyle = 'rgba(15, 23, 42, 0.6)';
+    let runStart: number | null = null;
+    evidence.active.forEach((active, i) => {
+      if (!active && runStart === null) runStart = i;
+      if ((active || i === evidence.active.length - 1) && runStart !== null) {
+        const end = active ? i : i + 1;
+        shadeSpan(runStart * evidence.frameHopSec, (end - 1) * evidence.frameHopSec + evidence.frameDurationSec);
+        runStart = null;
+      }
+    });
+  }
+
+  if (layers.has('digitalSilence')) {
+    ctx.fillStyle = 'rgba(239, 68, 68, 0.35)';
+    for (const run of evidence.digitalSilence) shadeSpan(run.startSec, run.endSec);
+    ctx.fillStyle = '#ef4444';
+    for (const run of evidence.digitalSilence) ctx.fillRect(xAt(run.startSec), 0, Math.max(1, xAt(run.endSec) - xAt(run.startSec)), 3);
+  }
+
+  if (breathing && layers.has('pauses')) {
+    ctx.fillStyle = '#c084fc';
+    for (const pause of breathing.pauses) ctx.fillRect(xAt(pause.startSec), PLOT_HEIGHT - 3, Math.max(1, xAt(pause.endSec) - xAt(pause.startSec)), 3);
+  }
+
+  if (breathing && layers.has('breaths')) {
+    ctx.fillStyle = 'rgba(56, 189, 248, 0.25)';
+    for (const breath of breathing.breaths) shadeSpan(breath.startSec, breath.endSec);
+    ctx.fillStyle = '#38bdf8';
+    for (const breath of breathing.breaths) ctx.fillRect(xAt(breath.startSec), 0, Math.max(1, xAt(breath.endSec) - xAt(breath.startSec)), 3);
+  }
+
+  const drawTrack = (values: (number | null)[], color: string) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    let penDown = false;
+    values.forEach((hz, i) => {
+      // Gaps at gated frames keep the line from implying measurements that were never scored
+      if (hz === null) {
+        penDown = false;
+        return;
+      }
+      const x = xAt(frameCenter(i));
+      const y = yAt(hz);
+      if (penDown) ctx.lineTo(x, y);
+      else ctx.moveTo(x, y);
+      penDown = true;
+    });
+    ctx.stroke();
+  };
+
+  if (layers.has('centroid')) drawTrack(evidence.centroidHz, '#22d3ee');
+  if (layers.has('rolloff')) drawTrack(evidence.rolloffHz, '#f8fafc');
+  if (layers.has('pitch')) drawTrack(evidence.f0Hz, '#a3e635');
+
+  if (layers.has('noiseFloor') && evidence.minRmsFrame !== null) {
+    const x = xAt(frameCenter(evidence.minRmsFrame));
+    ctx.strokeStyle = '#facc15';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 3]);
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, PLOT_HEIGHT);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.fillStyle = '#facc15';
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText('noise floor', x + 3, 4);
+  }
+
+  ctx.restore();
+};
+
+// Channel picker entries: physical channels, plus Mid/Side for stereo
+const viewableChannels = (count: number): string[] =>
+  count > 1 ? [...channelLabels(count), ...(count === 2 ? [MID_LABEL, SIDE_LABEL] : [])] : [];
+
+// Display settings that survive a new file or a new FFT resolution
+const displayOf = (v: SpectrogramView | null): Partial<SpectrogramView> =>
+  v ? { scale: v.scale, minDb: v.minDb, maxDb: v.maxDb, colormap: v.colormap } : {};
+
+const OfflineSpectrogram: React.FC<Props> = ({ file, evidence, breathing, player, isPlaying, currentTime, loop, channel, onChannelChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const samplesRef = useRef<{ file: File; channels: Float32Array[]; sampleRate: number } | null>(null);
+  const dragRef = useRef<{ x: number; y: number; view: SpectrogramView } | null>(null);
+  const viewFileRef = useRef<File | null>(null);
+
+  const [channelCount, setChannelCount] = useState(0);
+  const [fftSize, setFftSize] = useState(2048);
+  const [hopDivisor, setHopDivisor] = useState(4);
+  const [spec, setSpec] = useState<SpectrogramData | null>(null);
+  const [view, setView] = useState<SpectrogramView | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<{ timeSec: number; hz: number; db: number | null } | null>(null);
+  const playheadSec = usePlaybackTime(player, isPlaying, currentTime);
+  const [layers, setLayers] = useState<Set<OverlayLayer>>(() => new Set<OverlayLayer>(['rolloff', 'digitalSilence', 'breaths']));
+
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const specRef = useRef(spec);
+  specRef.current = spec;
+
+  const labels = viewableChannels(channelCount);
+
+  // --- STFT ---
+  useEffect(() => {
+    if (!file) {
+      samplesRef.current = null;
+      setSpec(null);
+      setView(null);
+      return;
+    }
+    let cancelled = false;
+    setIsComputing(true);
+    setError(null);
+
+    (async () => {
+      try {
+        if (samplesRef.current?.file !== file) {
+          const { channels, sampleRate } = await decodeAudioFile(file);
+          samplesRef.current = { file, channels, sampleRate };
+          if (!cancelled) setChannelCount(channels.length);
+        }
+        if (cancelled) return;
+        // Yield once so the "computing" state paints before the STFT blocks the thread
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (cancelled) return;
+        const { channels, sampleRate } = samplesRef.current;
+        const samples = channel && viewableChannels(channels.length).includes(channel) ? extractChannel(channels, channel) : channels[0];
+        const next = computeSpectrogram(samples, sampleRate, fftSize, fftSize / hopDivisor);
+        setSpec(next);
+        // Keep the current zoom when only the resolution changes
+        const sameFile = viewFileRef.current === file;
+        viewFileRef.current = file;
+        setView(prev => (prev && sameFile ? prev : fullView(next, displayOf(prev))));
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not compute the spectrogram.");
+      } finally {
+        if (!cancelled) setIsComputing(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, fftSize, hopDivisor, channel]);
+
+  // --- Drawing ---
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    if (!spec || !view || spec.frames === 0) return;
+
+    const img = ctx.createImageData(PLOT_WIDTH, PLOT_HEIGHT);
+    paintSpectrogramView(img, spec, view);
+    ctx.putImageData(img, AXIS_LEFT, 0);
+
+    if (evidence) drawEvidence(ctx, evidence, breathing, view, layers);
+
+    ctx.font = '10px monospace';
+    ctx.fillStyle = '#94a3b8';
+    ctx.strokeStyle = '#475569';
+
+    // Frequency ruler
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    for (const hz of frequencyTicks(view)) {
+      const y = PLOT_HEIGHT * (1 - frequencyToPosition(hz, view.scale, view.minHz, view.maxHz));
+      if (y < 0 || y > PLOT_HEIGHT) continue;
+      ctx.beginPath();
+      ctx.moveTo(AXIS_LEFT - 4, y);
+      ctx.lineTo(AXIS_LEFT, y);
+      ctx.stroke();
+      ctx.fillText(formatHz(hz), AXIS_LEFT - 6, clamp(y, 6, PLOT_HEIGHT - 6));
+    }
+
+    // Time ruler
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    const span = view.endSec - view.startSec;
+    const step = niceStep(span, 8);
+    const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+    for (let t = Math.ceil(view.startSec / step) * step; t <= view.endSec; t += step) {
+      const x = AXIS_LEFT + ((t - view.startSec) / span) * PLOT_WIDTH;
+      ctx.beginPath();
+      ctx.moveTo(x, PLOT_HEIGHT);
+      ctx.lineTo(x, PLOT_HEIGHT + 4);
+      ctx.stroke();
+      ctx.fillText(`${t.toFixed(decimals)}s`, clamp(x, AXIS_LEFT + 12, CANVAS_WIDTH - 12), PLOT_HEIGHT + 6);
+    }
+  }, [spec, view, evidence, breathing, layers]);
+
+  const toggleLayer = (id: OverlayLayer) =>
+    setLayers(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  // --- Interaction ---
+
+  // Canvas pixel coordinates relative to the plot area
+  const plotPoint = (clientX: number, clientY: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: ((clientX - rect.left) / rect.width) * CANVAS_WIDTH - AXIS_LEFT,
+      y: ((clientY - rect.top) / rect.height) * CANVAS_HEIGHT
+    };
+  };
+
+  const maxTime = (s: SpectrogramData) => (s.frames * s.hopSize) / s.sampleRate;
+
+  // Moves and scales the frequency window in axis-position space, so log and mel zoom evenly
+  const reframeFrequency = (v: SpectrogramView, s: SpectrogramData, lowPos: number, highPos: number): SpectrogramView => {
+    const nyquist = s.sampleRate / 2;
+    const minHz = clamp(positionToFrequency(lowPos, v.scale, v.minHz, v.maxHz), 0, nyquist);
+    const maxHz = clamp(positionToFrequency(highPos, v.scale, v.minHz, v.maxHz), 0, nyquist);
+    return maxHz - minHz < 50 ? v : { ...v, minHz, maxHz };
+  };
+
+  // Registered natively: React's wheel listener is passive and cannot prevent page scroll
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      const v = viewRef.current;
+      const s = specRef.current;
+      if (!v || !s) return;
+      e.preventDefault();
+      const { x, y } = plotPoint(e.clientX, e.clientY);
+      const factor = e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+
+      if (e.shiftKey) {
+        const pos = 1 - clamp(y / PLOT_HEIGHT, 0, 1);
+        setView(reframeFrequency(v, s, pos - pos * factor, pos + (1 - pos) * factor));
+      } else {
+        const span = v.endSec - v.startSec;
+        const anchor = v.startSec + clamp(x / PLOT_WIDTH, 0, 1) * span;
+        const newSpan = clamp(span * factor, MIN_SPAN_SEC, maxTime(s));
+        const startSec = clamp(anchor - ((anchor - v.startSec) / span) * newSpan, 0, maxTime(s) - newSpan);
+        setView({ ...v, startSec, endSec: startSec + newSpan });
+      }
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (!view) return;
+    dragRef.current = { ...plotPoint(e.clientX, e.clientY), view };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!spec || !view) return;
+    const { x, y } = plotPoint(e.clientX, e.clientY);
+
+    const drag = dragRef.current;
+    if (drag) {
+      const v = drag.view;
+      const span = v.endSec - v.startSec;
+      const startSec = clamp(v.startSec - ((x - drag.x) / PLOT_WIDTH) * span, 0, maxTime(spec) - span);
+      // Frequency pans stop at either end of the spectrum
+      const floorHz = v.scale === 'log' ? LOG_MIN_HZ : 0;
+      const dPos = clamp(
+        (y - drag.y) / PLOT_HEIGHT,
+        Math.min(0, frequencyToPosition(floorHz, v.scale, v.minHz, v.maxHz)),
+        Math.max(0, frequencyToPosition(spec.sampleRate / 2, v.scale, v.minHz, v.maxHz) - 1)
+      );
+      setView(reframeFrequency({ ...v, startSec, endSec: startSec + span }, spec, dPos, 1 + dPos));
+    }
+
+    if (x < 0 || x > PLOT_WIDTH || y < 0 || y > PLOT_HEIGHT) {
+      setCursor(null);
+      return;
+    }
+    const timeSec = view.startSec + (x / PLOT_WIDTH) * (view.endSec - view.startSec);
+    const hz = positionToFrequency(1 - y / PLOT_HEIGHT, view.scale, view.minHz, view.maxHz);
+    setCursor({ timeSec, hz, db: sampleSpectrogram(spec, timeSec, hz) });
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  // A click that did not pan seeks playback to that time
+  const handleMouseUp = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    endDrag();
+    if (!drag || !view) return;
+    const { x, y } = plotPoint(e.clientX, e.clientY);
+    if (Math.abs(x - drag.x) > CLICK_SLOP_PX || Math.abs(y - drag.y) > CLICK_SLOP_PX) return;
+    if (x < 0 || x > PLOT_WIDTH) return;
+    player.seek(view.startSec + (x / PLOT_WIDTH) * (view.endSec - view.startSec));
+  };
+
+  // Percent offset of a time within the canvas, or null when outside the visible window
+  const overlayLeft = (t: number) => {
+    if (!view || t < view.startSec || t > view.endSec) return null;
+    return `${((AXIS_LEFT + ((t - view.startSec) / (view.endSec - view.startSec)) * PLOT_WIDTH) / CANVAS_WIDTH) * 100}%`;
+  };
+  const playheadLeft = spec ? overlayLeft(playheadSec) : null;
+  const loopBand = view && loop && loop.endSec > view.startSec && loop.startSec < view.endSec
+    ? {
+        left: overlayLeft(Math.max(loop.startSec, view.startSec))!,
+        right: `${100 - parseFloat(overlayLeft(Math.min(loop.endSec, view.endSec))!)}%`
+      }
+    : null;
+
+  const resetView = () => {
+    if (spec) setView(fullView(spec, displayOf(view)));
+  };
+
+  const updateView = (patch: Partial<SpectrogramView>) => setView(v => v && { ...v, ...patch });
+
+  const selectClass = "bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200";
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-800 p-4 shadow-xl">
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-xs text-slate-400">
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2 mr-auto">
+          <ScanSearch className="w-4 h-4 text-blue-400" /> Full-File Spectrogram
+        </h3>
+        {labels.length > 0 && (
+          <label className="flex items-center gap-1">
+            Channel
+            <select value={channel && labels.includes(channel) ? channel : labels[0]} onChange={e => onChannelChange(e.target.value)} className={selectClass}>
+              {labels.map(label => <option key={label} value={label}>{label}</option>)}
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-1">
+          FFT
+          <select value={fftSize} onChange={e => setFftSize(Number(e.target.value))} className={selectClass}>
+            {FFT_SIZES.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Hop
+          <select value={hopDivisor} onChange={e => setHopDivisor(Number(e.target.value))} className={selectClass}>
+            {HOP_DIVISORS.map(d => <option key={d} value={d}>{fftSize / d}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Axis
+          <select value={view?.scale || 'linear'} onChange={e => updateView({ scale: e.target.value as FrequencyScale })} className={selectClass}>
+            <option value="linear">Linear</option>
+            <option value="log">Log</option>
+            <option value="mel">Mel</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Colors
+          <select value={view?.colormap || 'viridis'} onChange={e => updateView({ colormap: e.target.value as ColormapName })} className={selectClass}>
+            {COLORMAP_NAMES.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          dB
+          <input
+            type="number" step={5} value={view?.minDb ?? -100}
+            onChange={e => updateView({ minDb: Math.min(Number(e.target.value), (view?.maxDb ?? 0) - 5) })}
+            className={`${selectClass} w-14 text-right font-mono`}
+          />
+          to
+          <input
+            type="number" step={5} value={view?.maxDb ?? 0}
+            onChange={e => updateView({ maxDb: Math.max(Number(e.target.value), (view?.minDb ?? -100) + 5) })}
+            className={`${selectClass} w-14 text-right font-mono`}
+          />
+        </label>
+        <button
+          onClick={resetView}
+          disabled={!spec}
+          title="Reset zoom (or double-click the plot)"
+          className="p-1 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-50 transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          className={`block w-full rounded border border-slate-800 ${spec ? 'cursor-crosshair' : ''}`}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => { endDrag(); setCursor(null); }}
+          onDoubleClick={resetView}
+        />
+        {spec && loopBand && (
+          <div
+            className="absolute top-0 bg-amber-400/15 border-x border-amber-400/70 pointer-events-none"
+            style={{ left: loopBand.left, right: loopBand.right, height: `${(PLOT_HEIGHT / CANVAS_HEIGHT) * 100}%` }}
+          />
+        )}
+        {playheadLeft && (
+          <div
+            className="absolute top-0 w-px bg-cyan-300 pointer-events-none"
+            style={{ left: playheadLeft, height: `${(PLOT_HEIGHT / CANVAS_HEIGHT) * 100}%` }}
+          />
+        )}
+        {(!file || isComputing || error) && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/50 backdrop-blur-sm rounded">
+            <span className={`font-mono text-sm ${error ? 'text-red-300' : 'text-slate-300'}`}>
+              {error ? `Error: ${error}` : isComputing ? 'Computing STFT...' : 'Load a file to view its spectrogram'}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {evidence && (
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-[10px] font-mono">
+          <span className="text-slate-500 uppercase tracking-wider">Evidence</span>
+          {OVERLAY_LAYERS.map(layer => (
+            <button
+              key={layer.id}
+              onClick={() => toggleLayer(layer.id)}
+              className={`px-2 py-0.5 rounded border flex items-center gap-1 transition-colors ${layers.has(layer.id) ? 'border-slate-600 bg-slate-800 text-slate-200' : 'border-slate-800 text-slate-500'}`}
+            >
+              <span className="w-2 h-2 rounded-sm" style={{ background: layer.color, opacity: layers.has(layer.id) ? 1 : 0.3 }}></span>
+              {layer.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-between mt-2 text-[10px] font-mono text-slate-500">
+        <span>Click: seek &middot; Wheel: zoom time &middot; Shift+wheel: zoom frequency &middot; Drag: pan &middot; Double-click: reset</span>
+        <span className="text-slate-300">
+          {cursor
+            ? `${cursor.timeSec.toFixed(3)}s  ${Math.round(cursor.hz)} Hz  ${cursor.db !== null ? `${cursor.db.toFixed(1)} dB` : '--'}`
+            : spec && spec.hopSize !== fftSize / hopDivisor ? `Hop widened to ${spec.hopSize} for this file length` : ''}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default OfflineSpectrogram;
@@ -0,0 +1,95 @@
+import React from 'react';
+
+export interface OverlaySeries {
+  label: string;
+  color: string;
+  values: (number | null)[]; // one per x; null leaves a gap
+}
+
+interface Props {
+  x: number[];
+  series: OverlaySeries[];
+  xUnit: string;
+  yUnit: string;
+  logX?: boolean;
+  yFloor?: number; // values below are drawn at the floor
+  ariaLabel: string;
+}
+
+const WIDTH = 360;
+const HEIGHT = 180;
+const AXIS_LEFT = 36;
+const AXIS_BOTTOM = 18;
+const LEGEND_HEIGHT = 14;
+const PLOT_WIDTH = WIDTH - AXIS_LEFT - 4;
+const PLOT_HEIGHT = HEIGHT - AXIS_BOTTOM - LEGEND_HEIGHT;
+const X_TICKS = 5;
+
+const formatTick = (v: number) => (Math.abs(v) >= 1000 ? `${+(v / 1000).toFixed(1)}k` : `${+v.toFixed(1)}`);
+
+// Line chart of several series over the same x values, for curves meant to be read against each other
+const OverlayChart: React.FC<Props> = ({ x, series, xUnit, yUnit, logX = false, yFloor, ariaLabel }) => {
+  const clamp = (v: number) => (yFloor !== undefined ? Math.max(yFloor, v) : v);
+  const values = series.flatMap(s => s.values.filter((v): v is number => v !== null).map(clamp));
+  if (x.length < 2 || values.length === 0) {
+    return <p className="text-xs text-slate-500 font-mono">No data to plot.</p>;
+  }
+
+  const yMin = Math.min(...values);
+  const yMax = Math.max(...values);
+  const ySpan = yMax - yMin || 1;
+  const toX = (v: number) => (logX ? Math.log(v) : v);
+  const xMin = toX(x[0]);
+  const xSpan = toX(x[x.length - 1]) - xMin || 1;
+  const px = (v: number) => AXIS_LEFT + ((toX(v) - xMin) / xSpan) * PLOT_WIDTH;
+  const py = (v: number) => LEGEND_HEIGHT + (1 - (clamp(v) - yMin) / ySpan) * PLOT_HEIGHT;
+
+  // Contiguous runs of non-null values become separate polylines
+  const paths = (s: OverlaySeries) => {
+    const runs: string[] = [];
+    let run: string[] = [];
+    s.values.forEach((v, i) => {
+      if (v === null) {
+        if (run.length > 1) runs.push(run.join(' '));
+        run = [];
+      } else {
+        run.push(`${px(x[i]).toFixed(1)},${py(v).toFixed(1)}`);
+      }
+    });
+    if (run.length > 1) runs.push(run.join(' '));
+    return runs;
+  };
+
+  const tickIndices = Array.from({ length: X_TICKS }, (_, i) => Math.round((i * (x.length - 1)) / (X_TICKS - 1)));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label={ariaLabel}>
+      {series.map((s, i) => (
+        <g key={s.label}>
+          <line x1={AXIS_LEFT + i * 110} x2={AXIS_LEFT + i * 110 + 14} y1={6} y2={6} stroke={s.color} strokeWidth={2} />
+          <text x={AXIS_LEFT + i * 110 + 18} y={9} fontSize={9} className="fill-slate-400">{s.label}</text>
+        </g>
+      ))}
+      <rect x={AXIS_LEFT} y={LEGEND_HEIGHT} width={PLOT_WIDTH} height={PLOT_HEIGHT} fill="none" stroke="#334155" />
+      {[yMin, yMax].map((v, i) => (
+        <text key={i} x={AXIS_LEFT - 4} y={py(v) + 3} textAnchor="end" fontSize={8} fontFamily="monospace" className="fill-slate-500">
+          {formatTick(v)}
+        </text>
+      ))}
+      <text x={4} y={LEGEND_HEIGHT + PLOT_HEIGHT / 2} fontSize={8} fontFamily="monospace" className="fill-slate-500">{yUnit}</text>
+      {tickIndices.map((i, n) => (
+        <text
+          key={i} x={px(x[i])} y={HEIGHT - 6} textAnchor={n === 0 ? 'start' : n === X_TICKS - 1 ? 'end' : 'middle'}
+          fontSize={8} fontFamily="monospace" className="fill-slate-500"
+        >
+          {formatTick(x[i])}{n === X_TICKS - 1 ? ` ${xUnit}` : ''}
+        </text>
+      ))}
+      {series.map(s => paths(s).map((points, i) => (
+        <polyline key={`${s.label}-${i}`} points={points} fill="none" stroke={s.color} strokeWidth={1.5} />
+      )))}
+    </svg>
+  );
+};
+
+export default OverlayChart;
@@ -0,0 +1,318 @@
+import React, { useRef, useState } from 'react';
+import { SlidersHorizontal, Save, Trash2, Upload, Download, X } from 'lucide-react';
+import { DetectionProfile } from '../types';
+import {
+  PRESET_PROFILES,
+  loadCustomProfiles,
+  saveCustomProfiles,
+  saveActiveProfileId,
+  parseProfileJson,
+  profileToJson
+} from '../services/detectionProfiles';
+import { downloadText } from '../services/reportService';
+import { isExtractorEnabled, listExtractors } from '../services/featureRegistry';
+
+interface Props {
+  profile: DetectionProfile;
+  onChange: (profile: DetectionProfile) => void;
+  disabled?: boolean;
+}
+
+type ThresholdKey = keyof DetectionProfile['thresholds'];
+type WeightKey = keyof DetectionProfile['weights'];
+
+const THRESHOLD_FIELDS: { key: ThresholdKey; label: string; step: number }[] = [
+  { key: 'bandwidthLimitHz', label: 'Bandwidth limit (Hz)', step: 100 },
+  { key: 'cleanNoiseFloorDb', label: 'Clean noise floor (dB)', step: 1 },
+  { key: 'rolloffStdHz', label: 'Rigid rolloff std (Hz)', step: 10 },
+  { key: 'digitalSilenceRun', label: 'Zero run (samples)', step: 100 },
+  { key: 'rmsCV', label: 'Compressed RMS CV', step: 0.05 },
+  { key: 'smoothJitterPct', label: 'Smooth pitch jitter (%)', step: 0.05 },
+  { key: 'monotonePitchSt', label: 'Monotone F0 std (st)', step: 0.1 },
+  { key: 'phaseIncoherence', label: 'Phase drift (0-0.5)', step: 0.01 },
+  { key: 'highBandPeriodicity', label: 'High-band periodicity', step: 0.05 },
+  { key: 'smoothMfccDelta', label: 'Smooth delta-MFCC std', step: 0.01 },
+  { key: 'fastModulationRatio', label: 'Fast modulation ratio', step: 0.005 },
+  { key: 'ltasSlopeDeviationDb', label: 'LTAS slope deviation (dB/oct)', step: 0.5 },
+  { key: 'codecDiscountPct', label: 'Codec discount (%)', step: 5 },
+  { key: 'activeRmsGate', label: 'Speech RMS gate', step: 0.001 },
+  { key: 'minSpeechSec', label: 'Min. speech (s)', step: 0.5 },
+  { key: 'minActiveRatio', label: 'Min. active frame share', step: 0.01 },
+  { key: 'maxClippingPct', label: 'Max. clipped samples (%)', step: 0.1 },
+  { key: 'minSnrDb', label: 'Min. SNR (dB)', step: 1 },
+  { key: 'decisionThreshold', label: 'Decision threshold', step: 1 }
+];
+
+const WEIGHT_FIELDS: { key: WeightKey; label: string }[] = [
+  { key: 'bandwidthClean', label: 'Band-limited + clean' },
+  { key: 'bandwidthNoisy', label: 'Band-limited + noisy' },
+  { key: 'fullBandwidth', label: 'Full bandwidth' },
+  { key: 'rolloffRigid', label: 'Rigid rolloff' },
+  { key: 'rolloffNatural', label: 'Natural rolloff' },
+  { key: 'digitalSilence', label: 'Digital silence' },
+  { key: 'lowDynamicRange', label: 'Low dynamic range' },
+  { key: 'identicalChannels', label: 'Identical L/R channels' },
+  { key: 'smoothProsody', label: 'Over-smooth pitch' },
+  { key: 'naturalProsody', label: 'Natural pitch jitter' },
+  { key: 'monotonePitch', label: 'Monotone pitch' },
+  { key: 'incoherentPhase', label: 'Incoherent phase' },
+  { key: 'highBandPeaks', label: 'High-band periodic peaks' },
+  { key: 'smoothMfcc', label: 'Smooth MFCC dynamics' },
+  { key: 'smoothModulation', label: 'Smooth envelope modulation' },
+  { key: 'unnaturalLtas', label: 'Unnatural LTAS slope' }
+];
+
+const newProfileId = () => `custom-${Date.now().toString(36)}`;
+
+// Everything that changes the raw score (the decision threshold only moves the verdict)
+const scoringKey = (p: DetectionProfile) => {
+  const { decisionThreshold, ...thresholds } = p.thresholds;
+  const disabled = Object.keys(p.extractors || {}).filter(id => p.extractors![id] === false).sort();
+  return JSON.stringify([thresholds, p.weights, disabled]);
+};
+
+const ProfileSettingsPanel: React.FC<Props> = ({ profile, onChange, disabled }) => {
+  const [customProfiles, setCustomProfiles] = useState<DetectionProfile[]>(loadCustomProfiles);
+  const [draft, setDraft] = useState<DetectionProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const activate = (next: DetectionProfile) => {
+    saveActiveProfileId(next.id);
+    onChange(next);
+  };
+
+  const storeCustom = (list: DetectionProfile[]) => {
+    setCustomProfiles(list);
+    saveCustomProfiles(list);
+  };
+
+  const selectProfile = (id: string) => {
+    const next = [...PRESET_PROFILES, ...customProfiles].find(p => p.id === id);
+    if (!next) return;
+    setDraft(null);
+    activate(next);
+  };
+
+  const updateThreshold = (key: ThresholdKey, value: number) =>
+    setDraft(d => d && { ...d, thresholds: { ...d.thresholds, [key]: value } });
+
+  const updateWeight = (key: WeightKey, value: number) =>
+    setDraft(d => d && { ...d, weights: { ...d.weights, [key]: value } });
+
+  const toggleExtractor = (id: string, enabled: boolean) =>
+    setDraft(d => d && { ...d, extractors: { ...d.extractors, [id]: enabled } });
+
+  // Built-in presets are never overwritten; saving one forks it into a custom profile.
+  // A calibration maps scores to probabilities, so it is dropped once the scoring changes.
+  const saveDraft = () => {
+    if (!draft) return;
+    const calibrated = draft.calibration && scoringKey(draft) === scoringKey(profile) ? draft : { ...draft, calibration: undefined };
+    const saved: DetectionProfile = calibrated.builtIn
+      ? { ...calibrated, id: newProfileId(), name: `${calibrated.name} (custom)`, builtIn: undefined }
+      : calibrated;
+    const exists = customProfiles.some(p => p.id === saved.id);
+    storeCustom(exists ? customProfiles.map(p => (p.id === saved.id ? saved : p)) : [...customProfiles, saved]);
+    setDraft(null);
+    activate(saved);
+  };
+
+  const deleteProfile = () => {
+    if (profile.builtIn) return;
+    storeCustom(customProfiles.filter(p => p.id !== profile.id));
+    setDraft(null);
+    activate(PRESET_PROFILES[0]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const imported = parseProfileJson(await file.text());
+      // Never shadow a preset or silently replace an existing custom profile
+      const taken = [...PRESET_PROFILES, ...customProfiles].some(p => p.id === imported.id);
+      const profileToAdd = taken ? { ...imported, id: newProfileId() } : imported;
+      storeCustom([...customProfiles, profileToAdd]);
+      setDraft(null);
+      activate(profileToAdd);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not import profile.");
+    }
+  };
+
+  const exportProfile = () => {
+    downloadText(profileToJson(profile), `${profile.id}.profile.json`, 'application/json');
+  };
+
+  const numberInput = (value: number, onValue: (v: number) => void, step = 1) => (
+    <input
+      type="number"
+      value={value}
+      step={step}
+      onChange={e => {
+        const v = parseFloat(e.target.value);
+        if (isFinite(v)) onValue(v);
+      }}
+      className="w-20 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-right font-mono text-slate-200"
+    />
+  );
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-800 p-4 shadow-xl mb-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-blue-400" /> Detection Profile
+        </h3>
+        <select
+          value={profile.id}
+          onChange={e => selectProfile(e.target.value)}
+          disabled={disabled}
+          className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 disabled:opacity-50"
+        >
+          <optgroup label="Presets">
+            {PRESET_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+          {customProfiles.length > 0 && (
+            <optgroup label="Custom">
+              {customProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <span className="text-xs text-slate-500 flex-1 min-w-[12rem]">
+          {profile.description}
+          {profile.calibration && (
+            <span
+              className="ml-2 px-1.5 py-0.5 rounded bg-teal-900/50 text-teal-300 font-mono"
+              title={`Fitted ${profile.calibration.fittedAt}`}
+            >
+              calibrated · {profile.calibration.method} · {profile.calibration.corpus.human + profile.calibration.corpus.ai} files
+            </span>
+          )}
+        </span>
+
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            onClick={() => setDraft(draft ? null : { ...profile, thresholds: { ...profile.thresholds }, weights: { ...profile.weights }, extractors: { ...profile.extractors } })}
+            disabled={disabled}
+            className="px-2 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded text-slate-300 transition-colors"
+          >
+            {draft ? 'Close Editor' : 'Edit'}
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={disabled}
+            className="px-2 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded text-slate-300 flex items-center gap-1 transition-colors"
+          >
+            <Upload className="w-3 h-3" /> Import
+          </button>
+          <button
+            onClick={exportProfile}
+            className="px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded text-slate-300 flex items-center gap-1 transition-colors"
+          >
+            <Download className="w-3 h-3" /> Export
+          </button>
+          <input type="file" ref={importInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+        </div>
+      </div>
+
+      {draft && (
+        <div className="mt-4 border-t border-slate-800 pt-4 space-y-4">
+          <div className="flex items-center gap-2 text-xs">
+            <label className="text-slate-400">Name</label>
+            <input
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              className="flex-1 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 text-xs">
+            <div>
+              <h4 className="text-slate-500 uppercase tracking-wider font-semibold mb-2">Thresholds</h4>
+              <div className="space-y-1">
+                {THRESHOLD_FIELDS.map(f => (
+                  <label key={f.key} className="flex items-center justify-between gap-2 text-slate-400">
+                    {f.label}
+                    {numberInput(draft.thresholds[f.key], v => updateThreshold(f.key, v), f.step)}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <h4 className="text-slate-500 uppercase tracking-wider font-semibold mb-2">Weights (points)</h4>
+              <div className="space-y-1">
+                {WEIGHT_FIELDS.map(f => (
+                  <label key={f.key} className="flex items-center justify-between gap-2 text-slate-400">
+                    {f.label}
+                    {numberInput(draft.weights[f.key], v => updateWeight(f.key, v))}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="text-xs">
+            <h4 className="text-slate-500 uppercase tracking-wider font-semibold mb-2">Feature Extractors</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1">
+              {listExtractors().map(e => (
+                <label key={e.id} className="flex items-start gap-2 text-slate-400" title={e.description}>
+                  <input
+                    type="checkbox"
+                    checked={isExtractorEnabled(draft, e.id)}
+                    onChange={ev => toggleExtractor(e.id, ev.target.checked)}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    {e.label}
+                    <span className="block text-[10px] text-slate-500">{e.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {draft.calibration && (
+            <p className="text-xs text-slate-500">
+              This profile is calibrated. Changing thresholds, weights or extractors (other than the decision
+              threshold) drops the calibration; rerun <span className="font-mono">sigspec calibrate</span> to refit it.
+            </p>
+          )}
+
+          <div className="flex items-center gap-2 text-xs">
+            <button
+              onClick={saveDraft}
+              disabled={!draft.name.trim()}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded text-white flex items-center gap-1 transition-colors"
+            >
+              <Save className="w-3 h-3" /> {draft.builtIn ? 'Save as Custom Profile' : 'Save Profile'}
+            </button>
+            {!profile.builtIn && (
+              <button
+                onClick={deleteProfile}
+                className="px-3 py-1.5 bg-slate-800 hover:bg-red-900/50 rounded text-red-300 flex items-center gap-1 transition-colors"
+              >
+                <Trash2 className="w-3 h-3" /> Delete
+              </button>
+            )}
+            <button
+              onClick={() => setDraft(null)}
+              className="px-3 py-1.5 text-slate-400 hover:text-slate-200 flex items-center gap-1 transition-colors"
+            >
+              <X className="w-3 h-3" /> Discard Changes
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 p-2 bg-red-900/20 border border-red-500/30 text-red-300 text-xs rounded">
+          Error: {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSettingsPanel;
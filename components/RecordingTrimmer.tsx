@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Scissors, Check, Trash2 } from 'lucide-react';
+
+interface Props {
+  samples: Float32Array;
+  sampleRate: number;
+  onConfirm: (start: number, end: number) => void;
+  onDiscard: () => void;
+}
+
+const MIN_SELECTION_SEC = 0.1;
+
+const formatSeconds = (s: number) => `${s.toFixed(2)}s`;
+
+const RecordingTrimmer: React.FC<Props> = ({ samples, sampleRate, onConfirm, onDiscard }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const duration = samples.length / sampleRate;
+  const [start, setStart] = useState(0);
+  const [end, setEnd] = useState(duration);
+  // Takes shorter than the minimum selection would otherwise push the bounds past the ends
+  const clamp = (t: number) => Math.max(0, Math.min(duration, t));
+
+  useEffect(() => {
+    setStart(0);
+    setEnd(duration);
+  }, [samples, duration]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const WIDTH = canvas.width;
+    const HEIGHT = canvas.height;
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+    // Min/max envelope per pixel column
+    const samplesPerPixel = Math.max(1, Math.floor(samples.length / WIDTH));
+    ctx.fillStyle = '#22d3ee';
+    for (let x = 0; x < WIDTH; x++) {
+      let min = 0;
+      let max = 0;
+      const offset = x * samplesPerPixel;
+      for (let i = 0; i < samplesPerPixel && offset + i < samples.length; i++) {
+        const v = samples[offset + i];
+        if (v < min) min = v;
+        if (v > max) max = v;
+      }
+      const yTop = (1 - max) * HEIGHT / 2;
+      const yBottom = (1 - min) * HEIGHT / 2;
+      ctx.fillRect(x, yTop, 1, Math.max(1, yBottom - yTop));
+    }
+
+    // Dim the regions that will be cut
+    ctx.fillStyle = 'rgba(2, 6, 23, 0.7)';
+    const startX = (start / duration) * WIDTH;
+    const endX = (end / duration) * WIDTH;
+    ctx.fillRect(0, 0, startX, HEIGHT);
+    ctx.fillRect(endX, 0, WIDTH - endX, HEIGHT);
+  }, [samples, start, end, duration]);
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-xl">
+      <h3 className="text-lg font-semibold mb-4 text-white flex items-center gap-2">
+        <Scissors className="w-5 h-5 text-blue-400" /> Trim Recording
+      </h3>
+
+      <canvas ref={canvasRef} width={600} height={80} className="w-full h-20 rounded border border-slate-700" />
+
+      <div className="mt-4 space-y-2 text-xs text-slate-400">
+        <label className="flex items-center gap-3">
+          <span className="w-10">Start</span>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.01}
+            value={start}
+            onChange={e => setStart(clamp(Math.min(Number(e.target.value), end - MIN_SELECTION_SEC)))}
+            className="flex-1 accent-blue-500"
+          />
+          <span className="font-mono w-14 text-right">{formatSeconds(start)}</span>
+        </label>
+        <label className="flex items-center gap-3">
+          <span className="w-10">End</span>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.01}
+            value={end}
+            onChange={e => setEnd(clamp(Math.max(Number(e.target.value), start + MIN_SELECTION_SEC)))}
+            className="flex-1 accent-blue-500"
+          />
+          <span className="font-mono w-14 text-right">{formatSeconds(end)}</span>
+        </label>
+        <p className="font-mono text-slate-500">Selection: {formatSeconds(end - start)} @ {sampleRate} Hz</p>
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={() => onConfirm(Math.floor(start * sampleRate), Math.floor(end * sampleRate))}
+          className="flex-1 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded flex items-center justify-center gap-2 text-sm font-medium transition-colors"
+        >
+          <Check className="w-4 h-4" /> Use Take
+        </button>
+        <button
+          onClick={onDiscard}
+          className="py-2 px-4 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded flex items-center justify-center gap-2 text-sm transition-colors"
+        >
+          <Trash2 className="w-4 h-4" /> Discard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingTrimmer;
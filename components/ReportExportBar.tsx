@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { FileJson, FileText, Printer } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import {
+  buildReport,
+  reportToJson,
+  renderHtmlReport,
+  downloadText,
+  reportBaseName
+} from '../services/reportService';
+import { renderSpectrogramSnapshot } from '../services/spectrogramService';
+
+interface Props {
+  file: File;
+  result: AnalysisResult;
+}
+
+type ExportKind = 'json' | 'html' | 'print';
+
+const ReportExportBar: React.FC<Props> = ({ file, result }) => {
+  const [busy, setBusy] = useState<ExportKind | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildHtml = async () => {
+    const [report, snapshot] = await Promise.all([buildReport(file, file.name, result), renderSpectrogramSnapshot(file)]);
+    return renderHtmlReport(report, snapshot);
+  };
+
+  const runExport = async (kind: ExportKind) => {
+    setBusy(kind);
+    setError(null);
+    // Open synchronously so the popup is tied to the click
+    const printWindow = kind === 'print' ? window.open('', '_blank') : null;
+    try {
+      const base = reportBaseName(file.name);
+      if (kind === 'json') {
+        downloadText(reportToJson(await buildReport(file, file.name, result)), `${base}.report.json`, 'application/json');
+      } else if (kind === 'html') {
+        downloadText(await buildHtml(), `${base}.report.html`, 'text/html');
+      } else if (printWindow) {
+        printWindow.document.write(await buildHtml());
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+      } else {
+        throw new Error("The print window was blocked by the browser.");
+      }
+    } catch (err) {
+      console.error(err);
+      printWindow?.close();
+      setError(err instanceof Error ? err.message : "Export failed.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonClass = "px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-wait text-slate-300 rounded flex items-center gap-2 text-xs font-medium transition-colors";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs font-mono uppercase tracking-wider text-slate-500 mr-1">Export</span>
+      <button onClick={() => runExport('json')} disabled={!!busy} className={buttonClass}>
+        <FileJson className="w-3 h-3" /> {busy === 'json' ? 'Hashing...' : 'JSON'}
+      </button>
+      <button onClick={() => runExport('html')} disabled={!!busy} className={buttonClass}>
+        <FileText className="w-3 h-3" /> {busy === 'html' ? 'Rendering...' : 'HTML Report'}
+      </button>
+      <button onClick={() => runExport('print')} disabled={!!busy} className={buttonClass}>
+        <Printer className="w-3 h-3" /> {busy === 'print' ? 'Rendering...' : 'Print / PDF'}
+      </button>
+      {error && <span className="text-xs text-red-300">{error}</span>}
+    </div>
+  );
+};
+
+export default ReportExportBar;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { ScoreFactor } from '../types';
+
+interface Props {
+  factors: ScoreFactor[];
+  score: number;
+  decisionThreshold: number;
+}
+
+const ROW_HEIGHT = 22;
+const LABEL_WIDTH = 150;
+const CHART_WIDTH = 300;
+const VALUE_WIDTH = 40;
+
+// Horizontal waterfall: each rule's bar starts where the running total left off,
+// ending in the total bar measured against the decision threshold. A discounted rule
+// keeps a dashed outline of the points it had before the discount.
+const ScoreWaterfall: React.FC<Props> = ({ factors, score, decisionThreshold }) => {
+  const steps: { label: string; from: number; to: number; points: number; original?: number; isTotal?: boolean }[] = [];
+  let running = 0;
+  for (const f of factors) {
+    steps.push({ label: f.label, from: running, to: running + f.points, points: f.points, original: f.originalPoints });
+    running += f.points;
+  }
+  steps.push({ label: 'Total score', from: 0, to: score, points: score, isTotal: true });
+
+  const values = steps.flatMap(s => [s.from, s.to, s.from + (s.original ?? 0)]).concat(decisionThreshold, 0);
+  const min = Math.min(...values) - 10;
+  const max = Math.max(...values) + 10;
+  const x = (v: number) => LABEL_WIDTH + ((v - min) / (max - min)) * CHART_WIDTH;
+  const height = steps.length * ROW_HEIGHT + 16;
+  const width = LABEL_WIDTH + CHART_WIDTH + VALUE_WIDTH;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full" role="img" aria-label="Score breakdown">
+      <line x1={x(0)} x2={x(0)} y1={0} y2={height - 16} stroke="#475569" />
+      <line x1={x(decisionThreshold)} x2={x(decisionThreshold)} y1={0} y2={height - 16} stroke="#f87171" strokeDasharray="4 3" />
+      <text x={x(decisionThreshold)} y={height - 4} textAnchor="middle" className="fill-red-400" fontSize={9} fontFamily="monospace">
+        AI &gt; {decisionThreshold}
+      </text>
+      <text x={x(0)} y={height - 4} textAnchor="middle" className="fill-slate-500" fontSize={9} fontFamily="monospace">0</text>
+
+      {steps.map((step, i) => {
+        const y = i * ROW_HEIGHT;
+        const left = x(Math.min(step.from, step.to));
+        const barWidth = Math.max(1, Math.abs(x(step.to) - x(step.from)));
+        const color = step.isTotal
+          ? (step.to > decisionThreshold ? '#ef4444' : '#22c55e')
+          : step.points > 0 ? '#f87171' : step.points < 0 ? '#4ade80' : '#64748b';
+        return (
+          <g key={`${step.label}-${i}`}>
+            <text x={LABEL_WIDTH - 8} y={y + 15} textAnchor="end" fontSize={10} className={step.isTotal ? 'fill-white' : 'fill-slate-400'}>
+              {step.label}
+            </text>
+            {step.original !== undefined && (
+              <rect
+                x={x(step.from)} y={y + 5} width={Math.max(1, x(step.from + step.original) - x(step.from))} height={ROW_HEIGHT - 10}
+                rx={2} fill="none" stroke="#fbbf24" strokeDasharray="3 2"
+              />
+            )}
+            <rect x={left} y={y + 5} width={barWidth} height={ROW_HEIGHT - 10} rx={2} fill={color} opacity={step.isTotal ? 1 : 0.8} />
+            {!step.isTotal && i < steps.length - 2 && (
+              <line x1={x(step.to)} x2={x(step.to)} y1={y + ROW_HEIGHT - 5} y2={y + ROW_HEIGHT + 5} stroke="#475569" strokeDasharray="2 2" />
+            )}
+            <text x={LABEL_WIDTH + CHART_WIDTH + VALUE_WIDTH - 4} y={y + 15} textAnchor="end" fontSize={10} fontFamily="monospace" className="fill-slate-300">
+              {step.points > 0 && !step.isTotal ? '+' : ''}{step.points}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default ScoreWaterfall;
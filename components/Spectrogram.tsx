@@ -1,110 +1,65 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useRef } from 'react';
+import { SegmentVerdict } from '../types';
+import { AudioPlayer } from '../services/audioPlayer';
 
 interface SpectrogramProps {
-  audioUrl: string | null;
+  player: AudioPlayer;
   isPlaying: boolean;
-  onEnded: () => void;
+  duration: number;
+  liveStream?: MediaStream | null;
+  segments?: SegmentVerdict[];
 }
 
-const Spectrogram: React.FC<SpectrogramProps> = ({ audioUrl, isPlaying, onEnded }) => {
+const Spectrogram: React.FC<SpectrogramProps> = ({ player, isPlaying, duration, liveStream, segments }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
   const animationRef = useRef<number | null>(null);
-  const audioBufferRef = useRef<AudioBuffer | null>(null);
-  const startTimeRef = useRef<number>(0);
   
   // To simulate the "scrolling" spectrogram effect
   const spectrogramDataRef = useRef<Uint8Array[]>([]); 
 
+  // Playback itself lives in the shared player; this view only taps its analyser
   useEffect(() => {
-    if (audioUrl) {
-      loadAudio(audioUrl);
+    if (isPlaying && !liveStream) {
+      analyserRef.current = player.getAnalyser();
+      draw();
     }
     return () => {
-      stopAudio();
+      if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [audioUrl]);
+  }, [isPlaying, player]);
 
+  // A new file starts a fresh scrolling history
   useEffect(() => {
-    if (isPlaying && audioBufferRef.current) {
-      playAudio();
-    } else {
-      pauseAudio();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isPlaying]);
-
-  const loadAudio = async (url: string) => {
-    try {
-      const response = await fetch(url);
-      const arrayBuffer = await response.arrayBuffer();
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      audioContextRef.current = audioContext;
-      
-      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-      audioBufferRef.current = audioBuffer;
-      spectrogramDataRef.current = []; // Reset spectrogram history
-    } catch (e) {
-      console.error("Error loading audio:", e);
-    }
-  };
-
-  const playAudio = () => {
-    if (!audioContextRef.current || !audioBufferRef.current) return;
-    
-    // Cleanup previous source
-    if (sourceRef.current) {
-      sourceRef.current.stop();
-      sourceRef.current.disconnect();
-    }
+    spectrogramDataRef.current = [];
+  }, [duration]);
 
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = audioBufferRef.current;
-    
-    const analyser = audioContextRef.current.createAnalyser();
-    analyser.fftSize = 2048; // Resolution of frequency
+  // Live microphone input: analyser only, never routed to the speakers to avoid feedback
+  useEffect(() => {
+    if (!liveStream) return;
+    const liveContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const liveSource = liveContext.createMediaStreamSource(liveStream);
+    const analyser = liveContext.createAnalyser();
+    analyser.fftSize = 2048;
+    liveSource.connect(analyser);
     analyserRef.current = analyser;
-
-    source.connect(analyser);
-    analyser.connect(audioContextRef.current.destination);
-    
-    source.onended = () => {
-       onEnded();
-       if (animationRef.current) cancelAnimationFrame(animationRef.current);
-    };
-
-    source.start(0, startTimeRef.current % audioBufferRef.current.duration);
-    sourceRef.current = source;
-    
+    spectrogramDataRef.current = [];
     draw();
-  };
 
-  const pauseAudio = () => {
-    if (sourceRef.current) {
-      sourceRef.current.stop();
-      sourceRef.current.disconnect();
-      sourceRef.current = null;
-    }
-    if (animationRef.current) {
-      cancelAnimationFrame(animationRef.current);
-    }
-    // Note: We aren't perfectly tracking pause time for resume in this simplified demo, 
-    // it usually restarts or we'd need more complex state. 
-    // For this demo, we assume simple toggle playback.
-  };
+    return () => {
+      if (animationRef.current) cancelAnimationFrame(animationRef.current);
+      liveSource.disconnect();
+      analyserRef.current = null;
+      liveContext.close();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [liveStream]);
 
-  const stopAudio = () => {
-    pauseAudio();
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-    }
-    audioBufferRef.current = null;
-    spectrogramDataRef.current = [];
+  const seekTo = (timeSec: number) => {
+    player.seek(timeSec);
+    player.play();
   };
 
   const draw = () => {
@@ -151,12 +106,11 @@ const Spectrogram: React.FC<SpectrogramProps> = ({ audioUrl, isPlaying, onEnded
     // Fill ImageData
     for (let x = 0; x < spectrogramDataRef.current.length; x++) {
        const spectrum = spectrogramDataRef.current[x];
-       // We map Y axis to frequency bins. 
-       // We usually want log scale but linear is faster for demo.
+       // Linear axis over every bin up to Nyquist; the full-file view offers log and mel.
        for (let y = 0; y < specHeight; y++) {
          // Map y pixel to frequency bin index
          // Flip y so low freq is at bottom of spec area
-         const binIndex = Math.floor((1 - (y / specHeight)) * (bufferLength / 2)); 
+         const binIndex = Math.min(bufferLength - 1, Math.floor((1 - (y / specHeight)) * bufferLength));
          
          const value = spectrum[binIndex]; // 0 - 255
          
@@ -204,18 +158,47 @@ const Spectrogram: React.FC<SpectrogramProps> = ({ audioUrl, isPlaying, onEnded
   };
 
   return (
-    <div ref={containerRef} className="w-full h-64 bg-slate-900 rounded-lg overflow-hidden border border-slate-700 shadow-inner relative">
-       <canvas 
-        ref={canvasRef} 
-        width={containerRef.current?.offsetWidth || 800} 
-        height={256}
-        className="w-full h-full"
-       />
-       {!isPlaying && (
-         <div className="absolute inset-0 flex items-center justify-center bg-black/50 backdrop-blur-sm">
-            <span className="text-slate-300 font-mono text-sm">Visualizer Paused</span>
-         </div>
-       )}
+    <div>
+      <div ref={containerRef} className="w-full h-64 bg-slate-900 rounded-lg overflow-hidden border border-slate-700 shadow-inner relative">
+         <canvas 
+          ref={canvasRef} 
+          width={containerRef.current?.offsetWidth || 800} 
+          height={256}
+          className="w-full h-full"
+         />
+         {liveStream && (
+           <div className="absolute top-2 right-2 flex items-center gap-2 px-2 py-1 rounded bg-red-900/60 border border-red-500/40">
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+              <span className="text-red-200 font-mono text-[10px] uppercase">Recording</span>
+           </div>
+         )}
+         {!isPlaying && !liveStream && (
+           <div className="absolute inset-0 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+              <span className="text-slate-300 font-mono text-sm">Visualizer Paused</span>
+           </div>
+         )}
+      </div>
+      {segments && segments.length > 0 && duration > 0 && (
+        <div className="relative w-full h-4 mt-1 bg-slate-950 rounded overflow-hidden border border-slate-800">
+          {segments.map(seg => {
+            const isAI = seg.classification === 'AI-Generated Voice';
+            const color = isAI ? 'bg-red-500' : seg.classification === 'Inconclusive' ? 'bg-amber-500/30' : 'bg-green-700/40';
+            return (
+              <button
+                key={seg.startSec}
+                onClick={() => seekTo(seg.startSec)}
+                title={`${seg.startSec.toFixed(1)}s - ${seg.endSec.toFixed(1)}s: ${seg.classification} (${seg.confidence}%)`}
+                className={`absolute top-0 h-full border-r border-slate-950 hover:brightness-150 transition-all ${color}`}
+                style={{
+                  left: `${(seg.startSec / duration) * 100}%`,
+                  width: `${((Math.min(seg.endSec, duration) - seg.startSec) / duration) * 100}%`,
+                  opacity: isAI ? seg.confidence / 100 : 1
+                }}
+              />
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
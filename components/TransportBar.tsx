@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause, SkipBack, Repeat, X } from 'lucide-react';
+import { AudioPlayer, LoopRegion } from '../services/audioPlayer';
+
+interface Props {
+  player: AudioPlayer;
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  loop: LoopRegion | null;
+  onLoopChange: (loop: LoopRegion | null) => void;
+  disabled?: boolean;
+}
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const NUDGE_SEC = 1;
+const FINE_NUDGE_SEC = 0.1;
+
+export const formatClock = (sec: number) => {
+  const m = Math.floor(sec / 60);
+  const s = (sec % 60).toFixed(2).padStart(5, '0');
+  return `${m}:${s}`;
+};
+
+// Smooth playhead position: follows the audio clock every animation frame while
+// playing, and the last reported position otherwise.
+export const usePlaybackTime = (player: AudioPlayer, isPlaying: boolean, currentTime: number) => {
+  const [time, setTime] = useState(currentTime);
+  useEffect(() => {
+    setTime(player.getCurrentTime());
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function tick() {
+      setTime(player.getCurrentTime());
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [player, isPlaying, currentTime]);
+  return time;
+};
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (/^(INPUT|SELECT|TEXTAREA|BUTTON)$/.test(target.tagName) || target.isContentEditable);
+
+const TransportBar: React.FC<Props> = ({ player, isPlaying, currentTime, duration, loop, onLoopChange, disabled }) => {
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ anchorSec: number; selecting: boolean } | null>(null);
+  const [scrubSec, setScrubSec] = useState<number | null>(null);
+  const [rate, setRate] = useState(1);
+  const time = usePlaybackTime(player, isPlaying, currentTime);
+  const shownTime = scrubSec ?? time;
+  const isReady = duration > 0 && !disabled;
+
+  const setLoopStart = (t: number) => onLoopChange({ startSec: t, endSec: loop && loop.endSec > t ? loop.endSec : duration });
+  const setLoopEnd = (t: number) => onLoopChange({ startSec: loop && loop.startSec < t ? loop.startSec : 0, endSec: t });
+
+  // --- Keyboard shortcuts ---
+  // Space play/pause, arrows nudge (Shift for fine steps), [ and ] set the loop, Esc clears it
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutRef.current = (e: KeyboardEvent) => {
+    if (!isReady || isEditableTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+    const step = e.shiftKey ? FINE_NUDGE_SEC : NUDGE_SEC;
+    const now = player.getCurrentTime();
+    if (e.key === ' ') player.toggle();
+    else if (e.key === 'ArrowLeft') player.seek(Math.max(0, now - step));
+    else if (e.key === 'ArrowRight') player.seek(Math.min(duration, now + step));
+    else if (e.key === '[') setLoopStart(now);
+    else if (e.key === ']') setLoopEnd(now);
+    else if (e.key === 'Escape' && loop) onLoopChange(null);
+    else return;
+    e.preventDefault();
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // --- Timeline scrubbing ---
+  // Drag to scrub (seeks on release); Shift+drag selects an A-B loop
+  const timeAt = (clientX: number) => {
+    const rect = timelineRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!isReady) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const t = timeAt(e.clientX);
+    dragRef.current = { anchorSec: t, selecting: e.shiftKey };
+    if (!e.shiftKey) setScrubSec(t);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const t = timeAt(e.clientX);
+    if (drag.selecting) onLoopChange({ startSec: Math.min(drag.anchorSec, t), endSec: Math.max(drag.anchorSec, t) });
+    else setScrubSec(t);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    if (!drag.selecting) player.seek(timeAt(e.clientX));
+    setScrubSec(null);
+  };
+
+  const changeRate = (next: number) => {
+    setRate(next);
+    player.setPlaybackRate(next);
+  };
+
+  const pct = (t: number) => `${duration > 0 ? (t / duration) * 100 : 0}%`;
+  const buttonClass = "p-1.5 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed text-slate-300 transition-colors";
+
+  return (
+    <div className="px-3 py-2 space-y-2">
+      <div
+        ref={timelineRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className={`relative h-6 bg-slate-950 rounded border border-slate-800 select-none ${isReady ? 'cursor-pointer' : 'opacity-50'}`}
+        title="Drag to scrub, Shift+drag to select a loop"
+      >
+        {loop && (
+          <div
+            className="absolute top-0 h-full bg-amber-400/20 border-x border-amber-400"
+            style={{ left: pct(loop.startSec), width: pct(loop.endSec - loop.startSec) }}
+          />
+        )}
+        <div className="absolute top-0 left-0 h-full bg-blue-500/20" style={{ width: pct(shownTime) }} />
+        <div className="absolute top-0 h-full w-0.5 bg-cyan-300" style={{ left: pct(shownTime) }} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button onClick={() => player.seek(loop ? loop.startSec : 0)} disabled={!isReady} className={buttonClass} title="Back to start">
+          <SkipBack className="w-4 h-4" />
+        </button>
+        <button onClick={player.toggle} disabled={!isReady} className={buttonClass} title="Play/Pause (Space)">
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <span className="font-mono text-slate-300 tabular-nums">
+          {formatClock(shownTime)} <span className="text-slate-600">/ {formatClock(duration)}</span>
+        </span>
+
+        <div className="flex items-center gap-1 ml-auto">
+          <Repeat className={`w-3.5 h-3.5 ${loop ? 'text-amber-400' : 'text-slate-600'}`} />
+          <button onClick={() => setLoopStart(player.getCurrentTime())} disabled={!isReady} className={`${buttonClass} px-2 font-mono`} title="Set loop start ([)">A</button>
+          <button onClick={() => setLoopEnd(player.getCurrentTime())} disabled={!isReady} className={`${buttonClass} px-2 font-mono`} title="Set loop end (])">B</button>
+          {loop && (
+            <>
+              <span className="font-mono text-amber-300 tabular-nums">
+                {formatClock(loop.startSec)}&ndash;{formatClock(loop.endSec)}
+              </span>
+              <button onClick={() => onLoopChange(null)} className={buttonClass} title="Clear loop (Esc)">
+                <X className="w-3 h-3" />
+              </button>
+            </>
+          )}
+        </div>
+
+        <select
+          value={rate}
+          onChange={e => changeRate(Number(e.target.value))}
+          disabled={!isReady}
+          className="bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 disabled:opacity-50"
+          title="Playback speed"
+        >
+          {PLAYBACK_RATES.map(r => <option key={r} value={r}>{r}x</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default TransportBar;
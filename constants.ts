@@ -1,4 +1,9 @@
 export const APP_TITLE = "SigSpec Signal Analyzer";
+export const ANALYZER_VERSION = "2.1.0";
+export const REPORT_SCHEMA_VERSION = 5;
+
+// Decoders reject lower rates: no analysis frame fits in the file, and real audio starts at 8 kHz
+export const MIN_SAMPLE_RATE = 1000;
 
 // Removed SYSTEM_INSTRUCTION as external AI services have been deprecated.
 // This application now relies solely on client-side Digital Signal Processing.
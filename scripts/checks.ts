@@ -0,0 +1,19 @@
+import { runChecks } from './checks/harness';
+import './checks/calibration';
+import './checks/containers';
+import './checks/decoders';
+import './checks/extractors';
+import './checks/fft';
+import './checks/multichannel';
+import './checks/profiles';
+import './checks/quality';
+import './checks/transcoding';
+import './checks/vocoder';
+
+// --- Checks ---
+// Plain assertions over the pure services, one file per area under scripts/checks.
+// Run with `npm test`; exits 1 if any check fails.
+
+runChecks().then(failures => {
+  process.exitCode = failures > 0 ? 1 : 0;
+});
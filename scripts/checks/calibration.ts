@@ -0,0 +1,56 @@
+import assert from 'assert/strict';
+import { LabeledScore, calibratedProbability, confusionAt, evaluateCorpus, fitCalibration } from '../../services/calibration';
+import { check } from './harness';
+
+// --- Calibration ---
+
+const labeledScore = (score: number, isAI: boolean): LabeledScore =>
+  ({ score, isAI, confidence: 60 + Math.min(39, Math.abs(score)), flaggedAI: score > 35 });
+
+// Overlapping classes: humans around -20, AI around 60
+const corpus: LabeledScore[] = [
+  ...[-60, -45, -30, -25, -20, -15, -10, 0, 10, 45].map(s => labeledScore(s, false)),
+  ...[20, 40, 50, 55, 60, 70, 80, 95, 110, 5].map(s => labeledScore(s, true))
+];
+
+check('confusionAt counts each outcome at the threshold', () => {
+  const m = confusionAt([labeledScore(10, false), labeledScore(30, false), labeledScore(40, true), labeledScore(5, true)], 20);
+  assert.deepEqual(
+    [m.truePositive, m.falsePositive, m.trueNegative, m.falseNegative, m.precision, m.recall, m.accuracy],
+    [1, 1, 1, 1, 0.5, 0.5, 0.5]
+  );
+  assert.equal(confusionAt([labeledScore(10, true)], 20).precision, null);
+});
+
+check('Platt calibration is increasing in the score', () => {
+  const calibration = fitCalibration(corpus, 'platt');
+  assert.ok(calibration.platt && calibration.platt.a < 0, `slope ${calibration.platt?.a}`);
+  const probabilities = [-80, -20, 0, 20, 40, 60, 120].map(s => calibratedProbability(calibration, s));
+  probabilities.slice(1).forEach((p, i) => assert.ok(p > probabilities[i], `P(${i + 1}) <= P(${i})`));
+  assert.ok(probabilities[0] < 0.1 && probabilities[probabilities.length - 1] > 0.9);
+});
+
+check('isotonic calibration is non-decreasing and stays inside (0, 1)', () => {
+  const calibration = fitCalibration(corpus, 'isotonic');
+  const { scores, probabilities } = calibration.isotonic!;
+  scores.slice(1).forEach((s, i) => assert.ok(s >= scores[i]));
+  probabilities.slice(1).forEach((p, i) => assert.ok(p >= probabilities[i]));
+  let previous = 0;
+  for (let s = -100; s <= 150; s += 2.5) {
+    const p = calibratedProbability(calibration, s);
+    assert.ok(p >= previous && p > 0 && p < 1, `P(${s}) = ${p}`);
+    previous = p;
+  }
+});
+
+check('calibration needs both classes', () => {
+  assert.throws(() => fitCalibration(corpus.filter(s => s.isAI), 'platt'), /both human and AI/);
+});
+
+check('a perfectly separated corpus has AUC 1 and EER 0', () => {
+  const separated = [labeledScore(-10, false), labeledScore(0, false), labeledScore(50, true), labeledScore(60, true)];
+  const evaluation = evaluateCorpus(separated, 'default', 35, 'isotonic');
+  assert.equal(evaluation.auc, 1);
+  assert.equal(evaluation.eer, 0);
+  assert.deepEqual(evaluation.corpus, { human: 2, ai: 2 });
+});
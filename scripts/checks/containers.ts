@@ -0,0 +1,31 @@
+import assert from 'assert/strict';
+import { findMp4Box } from '../../services/formatProbe';
+import { inspectContainer } from '../../services/containerForensics';
+import { check } from './harness';
+
+// --- Container Forensics ---
+// Box and chunk sizes are read from the file; a lying size must not drive a loop past the data.
+
+const box = (type: string, content: number[], size = 8 + content.length) =>
+  [size >>> 24, (size >>> 16) & 0xff, (size >>> 8) & 0xff, size & 0xff, ...type.split('').map(ch => ch.charCodeAt(0)), ...content];
+
+const fourCC = (text: string) => text.split('').map(ch => ch.charCodeAt(0));
+
+check('an MP4 ftyp box claiming more bytes than the file is clamped', () => {
+  const bytes = new Uint8Array(box('ftyp', [...fourCC('M4A '), 0, 0, 0, 0, ...fourCC('isom'), ...fourCC('M4A ')], 0x33000014));
+  assert.deepEqual(findMp4Box(bytes, ['ftyp']), { offset: 8, size: bytes.length - 8 });
+  const forensics = inspectContainer(bytes, 'clip.m4a');
+  assert.equal(forensics.container, 'MP4');
+  assert.equal(forensics.tags.find(t => t.key === 'compatible brands')?.value, 'isom, M4A ');
+});
+
+check('a child box never reaches past its parent', () => {
+  const bytes = new Uint8Array([
+    ...box('ftyp', fourCC('M4A ')),
+    ...box('moov', box('udta', [1, 2, 3, 4], 0x7fffffff)),
+    ...box('free', new Array(64).fill(0))
+  ]);
+  const moov = findMp4Box(bytes, ['moov'])!;
+  const udta = findMp4Box(bytes, ['moov', 'udta'])!;
+  assert.equal(udta.offset + udta.size, moov.offset + moov.size);
+});
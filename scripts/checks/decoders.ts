@@ -0,0 +1,169 @@
+import assert from 'assert/strict';
+import { decodeAudioBytes } from '../../services/audioDecoders';
+import { encodeWav } from '../../services/wavCodec';
+import { check } from './harness';
+import { sineInts } from './fixtures';
+
+// --- Decoders ---
+// WAV and FLAC round trips, and the malformed headers that used to hang or crash the CLI.
+
+class BitWriter {
+  private bits: number[] = [];
+
+  write(value: number, n: number) {
+    for (let b = n - 1; b >= 0; b--) this.bits.push(Math.floor(value / 2 ** b) % 2);
+  }
+
+  writeSigned(value: number, n: number) {
+    this.write(value < 0 ? value + 2 ** n : value, n);
+  }
+
+  alignToByte() {
+    while (this.bits.length % 8 !== 0) this.bits.push(0);
+  }
+
+  bytes(): Uint8Array {
+    this.alignToByte();
+    const out = new Uint8Array(this.bits.length / 8);
+    this.bits.forEach((bit, i) => { out[i >> 3] |= bit << (7 - (i & 7)); });
+    return out;
+  }
+}
+
+// One-frame 16-bit stereo FLAC in left/side mode: left as a FIXED order-2 subframe with a
+// Rice-coded residual, side as VERBATIM. CRCs are left zero; the decoder does not check them.
+const encodeTestFlac = (left: number[], right: number[], sampleRate: number): Uint8Array => {
+  const blockSize = left.length;
+  const w = new BitWriter();
+  'fLaC'.split('').forEach(ch => w.write(ch.charCodeAt(0), 8));
+  w.write(0x80, 8); // last metadata block, STREAMINFO
+  w.write(34, 24);
+  w.write(blockSize, 16);
+  w.write(blockSize, 16);
+  w.write(0, 24);
+  w.write(0, 24);
+  w.write(sampleRate, 20);
+  w.write(2 - 1, 3);
+  w.write(16 - 1, 5);
+  w.write(blockSize, 36);
+  for (let i = 0; i < 16; i++) w.write(0, 8); // MD5
+
+  w.write(0x3ffe, 14);
+  w.write(0, 2);      // reserved, fixed block size
+  w.write(7, 4);      // 16-bit block size follows
+  w.write(0, 4);      // rate from STREAMINFO
+  w.write(8, 4);      // left/side
+  w.write(4, 3);      // 16 bits per sample
+  w.write(0, 1);
+  w.write(0, 8);      // frame number 0
+  w.write(blockSize - 1, 16);
+  w.write(0, 8);      // CRC-8
+
+  const order = 2;
+  w.write(0, 1);
+  w.write(8 + order, 6);
+  w.write(0, 1);
+  for (let i = 0; i < order; i++) w.writeSigned(left[i], 16);
+  const residual = left.slice(order).map((x, i) => x - (2 * left[i + 1] - left[i]));
+  const zigzag = residual.map(r => (r >= 0 ? 2 * r : -2 * r - 1));
+  const mean = zigzag.reduce((sum, u) => sum + u, 0) / zigzag.length;
+  const param = Math.min(14, Math.max(0, Math.floor(Math.log2(Math.max(1, mean)))));
+  w.write(0, 2);      // Rice, 4-bit parameters
+  w.write(0, 4);      // one partition
+  w.write(param, 4);
+  for (const u of zigzag) {
+    w.write(0, Math.floor(u / 2 ** param));
+    w.write(1, 1);
+    w.write(u % 2 ** param, param);
+  }
+
+  w.write(0, 1);
+  w.write(1, 6);      // VERBATIM
+  w.write(0, 1);
+  left.forEach((l, i) => w.writeSigned(l - right[i], 17));
+
+  w.alignToByte();
+  w.write(0, 16);     // CRC-16
+  return w.bytes();
+};
+
+interface WavHeader {
+  format: number;
+  channels: number;
+  sampleRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+}
+
+const PCM_MONO_16: WavHeader = { format: 1, channels: 1, sampleRate: 8000, blockAlign: 2, bitsPerSample: 16 };
+
+// Canonical 44-byte header with the given fmt fields over `dataBytes` bytes of silence
+const wavWithHeader = (header: WavHeader, dataBytes = 64): Uint8Array => {
+  const view = new DataView(new ArrayBuffer(44 + dataBytes));
+  'RIFF'.split('').forEach((ch, i) => view.setUint8(i, ch.charCodeAt(0)));
+  view.setUint32(4, 36 + dataBytes, true);
+  'WAVEfmt '.split('').forEach((ch, i) => view.setUint8(8 + i, ch.charCodeAt(0)));
+  view.setUint32(16, 16, true);
+  view.setUint16(20, header.format, true);
+  view.setUint16(22, header.channels, true);
+  view.setUint32(24, header.sampleRate, true);
+  view.setUint32(28, header.sampleRate * header.blockAlign, true);
+  view.setUint16(32, header.blockAlign, true);
+  view.setUint16(34, header.bitsPerSample, true);
+  'data'.split('').forEach((ch, i) => view.setUint8(36 + i, ch.charCodeAt(0)));
+  view.setUint32(40, dataBytes, true);
+  return new Uint8Array(view.buffer);
+};
+
+check('WAV encode/decode round trip keeps 16-bit samples', async () => {
+  const ints = sineInts(1000, 20000, 37);
+  const samples = Float32Array.from(ints, v => v / 32768);
+  const bytes = new Uint8Array(await encodeWav(samples, 22050).arrayBuffer());
+  const decoded = decodeAudioBytes(bytes);
+  assert.equal(decoded.sampleRate, 22050);
+  assert.equal(decoded.bitsPerSample, 16);
+  assert.equal(decoded.channels.length, 1);
+  assert.equal(decoded.channels[0].length, samples.length);
+  decoded.channels[0].forEach((v, i) => assert.ok(Math.abs(v - samples[i]) <= 1 / 32768, `sample ${i}: ${v} vs ${samples[i]}`));
+});
+
+check('FLAC decodes FIXED, VERBATIM and left/side subframes exactly', () => {
+  const left = sineInts(4096, 12000, 91);
+  const right = sineInts(4096, 9000, 53, 1);
+  const decoded = decodeAudioBytes(encodeTestFlac(left, right, 48000));
+  assert.equal(decoded.sampleRate, 48000);
+  assert.equal(decoded.bitsPerSample, 16);
+  assert.equal(decoded.channels.length, 2);
+  assert.deepEqual(Array.from(decoded.channels[0], v => v * 32768), left);
+  assert.deepEqual(Array.from(decoded.channels[1], v => v * 32768), right);
+});
+
+check('unknown formats are rejected', () => {
+  assert.throws(() => decodeAudioBytes(new Uint8Array(64)), /Unsupported audio format/);
+});
+
+check('a well-formed header decodes', () => {
+  const decoded = decodeAudioBytes(wavWithHeader(PCM_MONO_16));
+  assert.equal(decoded.channels[0].length, 32);
+});
+
+check('WAV headers that would break the sample loop are rejected', () => {
+  const rejected: [Partial<WavHeader>, RegExp][] = [
+    [{ sampleRate: 0 }, /Invalid WAV sample rate \(0 Hz\)/],
+    [{ sampleRate: 1 }, /Invalid WAV sample rate \(1 Hz\)/],
+    [{ channels: 0 }, /Invalid WAV channel count/],
+    [{ blockAlign: 0 }, /Invalid WAV block align/],
+    [{ channels: 2, blockAlign: 2 }, /Invalid WAV block align/],
+    [{ bitsPerSample: 12 }, /Unsupported WAV bit depth \(12\)/],
+    [{ format: 3, bitsPerSample: 16 }, /Unsupported WAV bit depth \(16\)/],
+    [{ format: 2 }, /Unsupported WAV encoding/]
+  ];
+  for (const [fields, message] of rejected) {
+    assert.throws(() => decodeAudioBytes(wavWithHeader({ ...PCM_MONO_16, ...fields })), message, JSON.stringify(fields));
+  }
+});
+
+check('FLAC STREAMINFO with an invalid sample rate is rejected', () => {
+  const samples = sineInts(64, 1000, 16);
+  assert.throws(() => decodeAudioBytes(encodeTestFlac(samples, samples, 0)), /Invalid FLAC sample rate \(0 Hz\)/);
+});
@@ -0,0 +1,22 @@
+import assert from 'assert/strict';
+import { analyzeSamples } from '../../services/dspEngine';
+import { compareResults } from '../../services/comparisonService';
+import { DEFAULT_PROFILE } from '../../services/detectionProfiles';
+import { check } from './harness';
+import { cleanHarmonicVoice } from './fixtures';
+
+// --- Feature Extractors ---
+
+check('turning the breathing extractor off leaves breaths unknown everywhere', () => {
+  const samples = cleanHarmonicVoice(16000, 4);
+  const on = analyzeSamples(samples.slice(), 16000);
+  const off = analyzeSamples(samples.slice(), 16000, { ...DEFAULT_PROFILE, extractors: { breathing: false } });
+  assert.notEqual(on.breathing, undefined);
+  assert.equal(typeof on.metrics.breathingArtifactsDetected, 'boolean');
+  assert.equal(off.breathing, undefined);
+  assert.equal(off.metrics.breathingArtifactsDetected, undefined);
+  assert.equal(off.features?.some(f => f.id === 'breathing'), false);
+  const breathRate = compareResults(on, off).metrics.find(m => m.key === 'breathsPerMinute')!;
+  assert.equal(breathRate.suspect, null);
+  assert.equal(breathRate.deviates, false);
+});
@@ -0,0 +1,73 @@
+import assert from 'assert/strict';
+import { getComplexFFT, getRealFFT } from '../../services/fft';
+import { check } from './harness';
+
+// --- FFT Engine ---
+
+// Deterministic pseudo-random samples in [-1, 1)
+const noise = (length: number, seed: number) =>
+  Float32Array.from({ length }, () => (seed = (seed * 16807) % 2147483647) / 1073741823.5 - 1);
+
+const naiveDft = (real: Float32Array, imag = new Float32Array(real.length)) => {
+  const n = real.length;
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  for (let k = 0; k < n; k++) {
+    for (let t = 0; t < n; t++) {
+      const angle = (-2 * Math.PI * k * t) / n;
+      re[k] += real[t] * Math.cos(angle) - imag[t] * Math.sin(angle);
+      im[k] += real[t] * Math.sin(angle) + imag[t] * Math.cos(angle);
+    }
+  }
+  return { re, im };
+};
+
+// Float32 tables and accumulation: allow a small error relative to the largest bin
+const assertClose = (actual: ArrayLike<number>, expected: ArrayLike<number>, bins: number, scale: number, label: string) => {
+  for (let k = 0; k < bins; k++) {
+    assert.ok(Math.abs(actual[k] - expected[k]) <= 1e-4 * scale, `${label}[${k}]: ${actual[k]} vs ${expected[k]}`);
+  }
+};
+
+check('rfft matches a naive DFT on bins 0..N/2', () => {
+  const n = 512;
+  const input = noise(n, 7);
+  const re = new Float32Array(n / 2 + 1);
+  const im = new Float32Array(n / 2 + 1);
+  getRealFFT(n).transform(input, re, im);
+  const expected = naiveDft(input);
+  const scale = Math.max(...Array.from(expected.re, Math.abs), ...Array.from(expected.im, Math.abs));
+  assertClose(re, expected.re, n / 2 + 1, scale, 're');
+  assertClose(im, expected.im, n / 2 + 1, scale, 'im');
+});
+
+check('the complex FFT matches a naive DFT in place', () => {
+  const n = 64;
+  const real = noise(n, 11);
+  const imag = noise(n, 13);
+  const expected = naiveDft(real, imag);
+  getComplexFFT(n).transform(real, imag);
+  const scale = Math.max(...Array.from(expected.re, Math.abs), ...Array.from(expected.im, Math.abs));
+  assertClose(real, expected.re, n, scale, 're');
+  assertClose(imag, expected.im, n, scale, 'im');
+});
+
+check('the real FFT is linear and cached per size', () => {
+  const n = 1024;
+  const a = noise(n, 3);
+  const b = noise(n, 5);
+  const out = () => ({ re: new Float32Array(n / 2 + 1), im: new Float32Array(n / 2 + 1) });
+  const [fa, fb, fab] = [out(), out(), out()];
+  const fft = getRealFFT(n);
+  fft.transform(a, fa.re, fa.im);
+  fft.transform(b, fb.re, fb.im);
+  fft.transform(a.map((v, i) => v + 2 * b[i]), fab.re, fab.im);
+  assertClose(fab.re, fa.re.map((v, k) => v + 2 * fb.re[k]), n / 2 + 1, n, 're');
+  assert.equal(getRealFFT(n), fft);
+});
+
+check('FFT sizes must be supported powers of two', () => {
+  assert.throws(() => getRealFFT(1000), /power of two/);
+  assert.throws(() => getRealFFT(256), /power of two between/);
+  assert.throws(() => getComplexFFT(48), /power of two/);
+});
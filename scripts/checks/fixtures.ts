@@ -0,0 +1,22 @@
+// --- Shared Fixtures ---
+// Synthetic signals for the checks; deterministic, so a failure reproduces exactly.
+
+// Integer PCM samples in [-32768, 32767]; `|| 0` turns the -0 rounding can produce into 0
+export const sineInts = (length: number, amplitude: number, period: number, phase = 0) =>
+  Array.from({ length }, (_, i) => Math.round(amplitude * Math.sin((2 * Math.PI * i) / period + phase)) || 0);
+
+// Noiseless harmonic "voice": a gliding 140 Hz tone with 1/h partials up to 8 kHz, in
+// 1.2 s phrases separated by 0.3 s of silence, like clean synthetic speech
+export const cleanHarmonicVoice = (sampleRate: number, seconds: number): Float32Array => {
+  const samples = new Float32Array(sampleRate * seconds);
+  let phase = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    phase += (2 * Math.PI * (140 + 20 * Math.sin(2 * Math.PI * 0.7 * t))) / sampleRate;
+    if (t % 1.5 >= 1.2) continue;
+    let v = 0;
+    for (let h = 1; h * 160 < 8000; h++) v += Math.sin(h * phase) / h;
+    samples[i] = 0.3 * (0.5 + 0.5 * Math.sin(2 * Math.PI * 3 * t) ** 2) * v;
+  }
+  return samples;
+};
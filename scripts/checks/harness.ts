@@ -0,0 +1,29 @@
+// --- Check Harness ---
+// Each file under scripts/checks registers its checks on import; scripts/checks.ts runs them.
+
+interface Check {
+  name: string;
+  run: () => void | Promise<void>;
+}
+
+const checks: Check[] = [];
+
+export const check = (name: string, run: () => void | Promise<void>) => {
+  checks.push({ name, run });
+};
+
+// Runs every registered check in order and returns the number that failed
+export const runChecks = async (): Promise<number> => {
+  let failures = 0;
+  for (const { name, run } of checks) {
+    try {
+      await run();
+      console.log(`ok    ${name}`);
+    } catch (err) {
+      failures++;
+      console.log(`FAIL  ${name}\n      ${err instanceof Error ? err.message.split('\n').join('\n      ') : err}`);
+    }
+  }
+  console.log(`\n${checks.length - failures}/${checks.length} checks passed`);
+  return failures;
+};
@@ -0,0 +1,23 @@
+import assert from 'assert/strict';
+import { analyzeChannels } from '../../services/dspEngine';
+import { check } from './harness';
+import { cleanHarmonicVoice } from './fixtures';
+
+// --- Multichannel ---
+
+check('an all-silent stereo file is Inconclusive like a silent mono one', () => {
+  const silence = () => new Float32Array(16000 * 2);
+  const mono = analyzeChannels([silence()], 16000);
+  const stereo = analyzeChannels([silence(), silence()], 16000);
+  assert.equal(mono.classification, 'Inconclusive');
+  assert.equal(stereo.classification, 'Inconclusive');
+  assert.equal(stereo.channel, 'Left');
+  assert.deepEqual(stereo.channels?.map(c => c.label), ['Left', 'Right']);
+});
+
+check('a silent side of a call leaves the verdict to the other channel', () => {
+  const result = analyzeChannels([new Float32Array(16000 * 3), cleanHarmonicVoice(16000, 3)], 16000);
+  assert.equal(result.channel, 'Right');
+  assert.equal(result.channels?.[0].result, null);
+  assert.notEqual(result.channels?.[1].result, null);
+});
@@ -0,0 +1,58 @@
+import assert from 'assert/strict';
+import { DEFAULT_PROFILE, PRESET_PROFILES, parseProfile, parseProfileJson, profileToJson } from '../../services/detectionProfiles';
+import { check } from './harness';
+
+// --- Detection Profiles ---
+
+const custom = () => JSON.parse(profileToJson({ ...DEFAULT_PROFILE, id: 'custom', name: 'Custom' }));
+
+check('every preset survives an export and import unchanged', () => {
+  for (const preset of PRESET_PROFILES) {
+    const json = profileToJson(preset);
+    assert.deepEqual(parseProfileJson(json), JSON.parse(json), preset.id);
+  }
+});
+
+check('profiles without an id, a name or numeric thresholds and weights are rejected', () => {
+  const invalid: [string, unknown][] = [
+    ['null', null],
+    ['a string', 'default'],
+    ['no id', { ...custom(), id: undefined }],
+    ['an empty name', { ...custom(), name: '' }],
+    ['thresholds missing', { ...custom(), thresholds: undefined }],
+    ['a string threshold', { ...custom(), thresholds: { ...custom().thresholds, decisionThreshold: '35' } }],
+    ['a non-finite weight', { ...custom(), weights: { ...custom().weights, rolloffRigid: Infinity } }]
+  ];
+  for (const [label, value] of invalid) {
+    assert.throws(() => parseProfile(value), /Invalid detection profile: expected id, name/, label);
+  }
+  assert.throws(() => parseProfileJson('{"id":'), SyntaxError);
+});
+
+check('a malformed calibration rejects the whole profile', () => {
+  const fittedAt = '2026-01-01T00:00:00.000Z';
+  const corpus = { human: 10, ai: 10 };
+  const invalid = [
+    { method: 'platt', fittedAt, corpus },
+    { method: 'platt', fittedAt, corpus, platt: { a: 'x', b: 0 } },
+    { method: 'isotonic', fittedAt, corpus, isotonic: { scores: [0, 10], probabilities: [0.2] } },
+    { method: 'isotonic', fittedAt, corpus, isotonic: { scores: [], probabilities: [] } },
+    { method: 'spline', fittedAt, corpus }
+  ];
+  for (const calibration of invalid) {
+    assert.throws(() => parseProfile({ ...custom(), calibration }), /malformed calibration/, JSON.stringify(calibration));
+  }
+  const platt = parseProfile({ ...custom(), calibration: { method: 'platt', fittedAt, corpus, platt: { a: -0.1, b: 2 }, extra: 1 } });
+  assert.deepEqual(platt.calibration, { method: 'platt', fittedAt, corpus, platt: { a: -0.1, b: 2 } });
+});
+
+check('missing keys fall back to the defaults and bad extractor switches are dropped', () => {
+  const { thresholds, weights } = custom();
+  delete thresholds.codecDiscountPct;
+  delete weights.bandwidthClean;
+  const profile = parseProfile({ ...custom(), thresholds, weights, extractors: { breathing: false, vocoder: 'off' } });
+  assert.equal(profile.thresholds.codecDiscountPct, DEFAULT_PROFILE.thresholds.codecDiscountPct);
+  assert.equal(profile.weights.bandwidthClean, DEFAULT_PROFILE.weights.bandwidthClean);
+  assert.deepEqual(profile.extractors, { breathing: false });
+  assert.equal(profile.description, DEFAULT_PROFILE.description);
+});
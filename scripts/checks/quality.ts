@@ -0,0 +1,60 @@
+import assert from 'assert/strict';
+import { FrameRecord, analyzeSamples } from '../../services/dspEngine';
+import { DEFAULT_PROFILE } from '../../services/detectionProfiles';
+import { assessQuality } from '../../services/qualityGate';
+import { check } from './harness';
+import { cleanHarmonicVoice } from './fixtures';
+
+// --- Input Quality Gate ---
+
+const SAMPLE_RATE = 16000;
+const HOP_SIZE = 1024;
+
+// Frame records at the given levels; speech-level frames carry a voiced pitch estimate
+const framesAt = (levels: number[], clipped = 0): FrameRecord[] => levels.map((rms, i) => ({
+  startSample: i * HOP_SIZE,
+  rms,
+  spectral: null,
+  pitch: rms > 0.1 ? { f0Hz: 150, hnrDb: 25 } : null,
+  clipped
+}));
+
+// Ten seconds alternating a word (0.2 RMS) and a quiet gap (0.0005 RMS)
+const speechLevels = () => Array.from({ length: 160 }, (_, i) => (i % 4 < 3 ? 0.2 : 0.0005));
+
+const failedChecks = (frames: FrameRecord[]) =>
+  assessQuality(frames, SAMPLE_RATE, HOP_SIZE, DEFAULT_PROFILE).checks.filter(c => !c.passed).map(c => c.id);
+
+check('clean speech passes every quality check', () => {
+  const quality = assessQuality(framesAt(speechLevels()), SAMPLE_RATE, HOP_SIZE, DEFAULT_PROFILE);
+  assert.equal(quality.passed, true);
+  assert.deepEqual(quality.checks.map(c => c.id), ['speechDuration', 'activeRatio', 'clipping', 'snr']);
+});
+
+check('silence fails duration and activity, with SNR left unmeasured', () => {
+  const quality = assessQuality(framesAt(new Array(100).fill(0)), SAMPLE_RATE, HOP_SIZE, DEFAULT_PROFILE);
+  assert.deepEqual(quality.checks.filter(c => !c.passed).map(c => c.id), ['speechDuration', 'activeRatio']);
+  assert.equal(quality.checks[0].reason, "No frame is loud enough to count as speech.");
+  assert.equal(quality.checks.find(c => c.id === 'snr')!.value, null);
+});
+
+check('half a second of speech fails the duration check only', () => {
+  assert.deepEqual(failedChecks(framesAt([...new Array(8).fill(0.2), ...new Array(40).fill(0.0005)])), ['speechDuration']);
+});
+
+check('clipping above the profile limit fails the clipping check', () => {
+  assert.deepEqual(failedChecks(framesAt(speechLevels(), HOP_SIZE * 0.05)), ['clipping']);
+});
+
+check('speech buried in noise fails the SNR check', () => {
+  const levels = Array.from({ length: 160 }, (_, i) => 0.05 + 0.04 * ((i * 7) % 5) / 4);
+  assert.deepEqual(failedChecks(framesAt(levels)), ['snr']);
+});
+
+check('a failed gate turns the verdict Inconclusive but keeps the factors', () => {
+  const result = analyzeSamples(cleanHarmonicVoice(SAMPLE_RATE, 3).subarray(0, SAMPLE_RATE / 2).slice(), SAMPLE_RATE);
+  assert.equal(result.classification, 'Inconclusive');
+  assert.equal(result.confidence, 0);
+  assert.equal(result.quality?.passed, false);
+  assert.ok(result.factors.length > 0);
+});
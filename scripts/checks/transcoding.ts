@@ -0,0 +1,31 @@
+import assert from 'assert/strict';
+import { SourceFormat } from '../../types';
+import { decodeAudioBytes } from '../../services/audioDecoders';
+import { encodeWav } from '../../services/wavCodec';
+import { analyzeSamples } from '../../services/dspEngine';
+import { check } from './harness';
+import { cleanHarmonicVoice } from './fixtures';
+
+// --- Transcoding ---
+
+const PCM_SOURCE: SourceFormat = {
+  container: 'WAV', codec: 'PCM', sampleRate: 44100, bitsPerSample: 16, channels: 1, durationSec: 6, bitrateKbps: 706
+};
+
+check('clean 16-bit PCM shows no codec history and discounts nothing', async () => {
+  const pcm = decodeAudioBytes(new Uint8Array(await encodeWav(cleanHarmonicVoice(44100, 6), 44100).arrayBuffer()));
+  const result = analyzeSamples(pcm.channels[0], pcm.sampleRate, undefined, undefined, undefined, PCM_SOURCE);
+  const transcoding = result.transcoding!;
+  assert.equal(transcoding.declaredLossy, false);
+  assert.ok(transcoding.codecLikelihood < 0.05, `codec likelihood ${transcoding.codecLikelihood}`);
+  assert.equal(transcoding.generations, 0);
+  assert.equal(transcoding.grid, null);
+  assert.deepEqual(result.factors.filter(f => f.originalPoints !== undefined).map(f => f.id), []);
+});
+
+check('a declared lossy codec counts as one certain generation', () => {
+  const result = analyzeSamples(cleanHarmonicVoice(44100, 3), 44100, undefined, undefined, undefined,
+    { ...PCM_SOURCE, container: 'MP3', codec: 'MP3', bitsPerSample: null, bitrateKbps: 128 });
+  assert.equal(result.transcoding!.declaredLossy, true);
+  assert.equal(result.transcoding!.codecLikelihood, 1);
+});
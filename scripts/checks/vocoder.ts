@@ -0,0 +1,46 @@
+import assert from 'assert/strict';
+import { FrameRecord } from '../../services/dspEngine';
+import { measureVocoderFeatures } from '../../services/vocoderDetectors';
+import { check } from './harness';
+
+// --- Vocoder Detectors ---
+
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 1024;
+const GATE = 0.01;
+
+// 200 Hz harmonic tone whose phases are re-drawn every hop, with a pitched frame record
+// on every other hop: voiced frames are never adjacent, so no pair should be compared
+const alternatingVoicedFrames = (sampleRate: number, count: number) => {
+  const data = new Float32Array((count + 1) * HOP_SIZE);
+  let seed = 1;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  for (let block = 0; block <= count; block++) {
+    const phases = Array.from({ length: 10 }, () => 2 * Math.PI * random());
+    for (let i = 0; i < HOP_SIZE; i++) {
+      const t = (block * HOP_SIZE + i) / sampleRate;
+      let v = 0;
+      phases.forEach((p, h) => { v += Math.sin(2 * Math.PI * 200 * (h + 1) * t + p) / (h + 1); });
+      data[block * HOP_SIZE + i] = 0.3 * v;
+    }
+  }
+  const frames: FrameRecord[] = Array.from({ length: count }, (_, i) => i % 2 === 0
+    ? { startSample: i * HOP_SIZE, rms: 0.2, spectral: null, pitch: { f0Hz: 200, hnrDb: 20 } }
+    : { startSample: i * HOP_SIZE, rms: 0.001, spectral: null, pitch: null });
+  return { data, frames };
+};
+
+check('phase incoherence never pairs voiced frames across a pause', () => {
+  const { data, frames } = alternatingVoicedFrames(16000, 60);
+  const metrics = measureVocoderFeatures(data, 16000, frames, FRAME_SIZE, HOP_SIZE, GATE, new Float64Array(FRAME_SIZE / 2 + 1), null);
+  assert.equal(metrics.phaseIncoherence, null);
+});
+
+check('a zero sample rate leaves the features unmeasured instead of hanging', () => {
+  const data = new Float32Array(48000).map((_, i) => 0.5 * Math.sin(i / 5));
+  const frames: FrameRecord[] = Array.from({ length: 40 }, (_, i) => ({ startSample: i * HOP_SIZE, rms: 0.3, spectral: null }));
+  const metrics = measureVocoderFeatures(data, 0, frames, FRAME_SIZE, HOP_SIZE, GATE, new Float64Array(FRAME_SIZE / 2 + 1), null);
+  assert.equal(metrics.mfccStd, null);
+  assert.equal(metrics.deltaMfccStd, null);
+  assert.equal(metrics.modulationFastRatio, null);
+});
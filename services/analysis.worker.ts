@@ -0,0 +1,33 @@
+/// <reference lib="webworker" />
+import { AnalysisResult, DetectionProfile, SourceFormat } from "../types";
+import { analyzeChannels } from "./dspEngine";
+
+// --- Analysis Worker ---
+// Runs framing, FFT and aggregation off the main thread. Decoding stays on the main
+// thread because decodeAudioData is not available in workers.
+
+export interface AnalysisRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  profile: DetectionProfile;
+  midSide: boolean;
+  source: SourceFormat;
+}
+
+export type AnalysisWorkerMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+ctx.onmessage = (e: MessageEvent<AnalysisRequest>) => {
+  const post = (message: AnalysisWorkerMessage) => ctx.postMessage(message);
+  try {
+    const { channels, sampleRate, profile, midSide, source } = e.data;
+    const result = analyzeChannels(channels, sampleRate, profile, { midSide, source }, fraction => post({ type: 'progress', fraction }));
+    post({ type: 'result', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,15 @@
+import { DecodedAudio } from "../types";
+import { decodeWav } from "./wavCodec";
+import { decodeFlac } from "./flacDecoder";
+
+// --- Native Decoders ---
+// Browser-independent decoding for the formats we can read losslessly without Web Audio.
+
+const startsWith = (bytes: Uint8Array, tag: string, offset = 0) =>
+  tag.split('').every((ch, i) => bytes[offset + i] === ch.charCodeAt(0));
+
+export const decodeAudioBytes = (bytes: Uint8Array): DecodedAudio => {
+  if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WAVE', 8)) return decodeWav(bytes);
+  if (startsWith(bytes, 'fLaC')) return decodeFlac(bytes);
+  throw new Error("Unsupported audio format (expected PCM WAV or FLAC).");
+};
@@ -0,0 +1,189 @@
+// --- Audio Playback ---
+// Web Audio transport with sample-accurate pause/resume, seeking, A-B looping and
+// variable speed. AudioBufferSourceNodes are single-use, so every play, seek, rate or
+// loop change replaces the source and re-derives the position from the context clock.
+
+export interface LoopRegion {
+  startSec: number;
+  endSec: number;
+}
+
+export interface AudioPlayerOptions {
+  onPlayStateChange: (isPlaying: boolean) => void;
+  onTimeUpdate: (currentTime: number) => void;
+}
+
+export interface AudioPlayer {
+  load: (url: string) => Promise<number>;
+  unload: () => void;
+  play: () => void;
+  pause: () => void;
+  toggle: () => void;
+  seek: (timeSec: number) => void;
+  setPlaybackRate: (rate: number) => void;
+  setLoop: (region: LoopRegion | null) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  getAnalyser: () => AnalyserNode | null;
+  isPlaying: () => boolean;
+}
+
+const TIME_UPDATE_MS = 250;
+
+export const createAudioPlayer = ({ onPlayStateChange, onTimeUpdate }: AudioPlayerOptions): AudioPlayer => {
+  let context: AudioContext | null = null;
+  let buffer: AudioBuffer | null = null;
+  let analyser: AnalyserNode | null = null;
+  let source: AudioBufferSourceNode | null = null;
+  let offset = 0;      // position in seconds when the current source started (or the paused position)
+  let startedAt = 0;   // context time the current source started
+  let rate = 1;
+  let loop: LoopRegion | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let loadId = 0;
+
+  const duration = () => buffer?.duration || 0;
+
+  const getCurrentTime = () => {
+    if (!source || !context) return offset;
+    const position = offset + (context.currentTime - startedAt) * rate;
+    if (loop && position > loop.endSec) {
+      const length = loop.endSec - loop.startSec;
+      return loop.startSec + ((position - loop.startSec) % length);
+    }
+    return Math.min(position, duration());
+  };
+
+  const stopSource = () => {
+    if (!source) return;
+    // Detach first so a deliberate stop is not reported as the end of the file
+    source.onended = null;
+    source.stop();
+    source.disconnect();
+    source = null;
+  };
+
+  const setTimer = (running: boolean) => {
+    if (timer) clearInterval(timer);
+    timer = running ? setInterval(() => onTimeUpdate(getCurrentTime()), TIME_UPDATE_MS) : null;
+  };
+
+  const startSource = () => {
+    if (!context || !buffer || !analyser) return;
+    stopSource();
+
+    const next = context.createBufferSource();
+    next.buffer = buffer;
+    next.playbackRate.value = rate;
+    if (loop) {
+      next.loop = true;
+      next.loopStart = loop.startSec;
+      next.loopEnd = loop.endSec;
+    }
+    next.connect(analyser);
+    next.onended = () => {
+      source = null;
+      offset = 0;
+      setTimer(false);
+      onTimeUpdate(0);
+      onPlayStateChange(false);
+    };
+
+    if (context.state === 'suspended') context.resume();
+    next.start(0, offset);
+    startedAt = context.currentTime;
+    source = next;
+  };
+
+  const pause = () => {
+    if (!source) return;
+    offset = getCurrentTime();
+    stopSource();
+    setTimer(false);
+    onTimeUpdate(offset);
+    onPlayStateChange(false);
+  };
+
+  const play = () => {
+    if (!buffer || source) return;
+    if (offset >= duration()) offset = 0;
+    if (loop && (offset < loop.startSec || offset >= loop.endSec)) offset = loop.startSec;
+    startSource();
+    setTimer(true);
+    onPlayStateChange(true);
+  };
+
+  // Applies a change that needs a fresh source. While a loop is set, positions
+  // outside it snap to its start so playback never escapes the region.
+  const restartAt = (timeSec: number) => {
+    offset = Math.max(0, Math.min(timeSec, duration()));
+    if (loop && (offset < loop.startSec || offset >= loop.endSec)) offset = loop.startSec;
+    if (source) startSource();
+    onTimeUpdate(offset);
+  };
+
+  const unload = () => {
+    const wasPlaying = source !== null;
+    loadId++;
+    stopSource();
+    setTimer(false);
+    context?.close();
+    context = null;
+    buffer = null;
+    analyser = null;
+    offset = 0;
+    loop = null;
+    if (wasPlaying) onPlayStateChange(false);
+  };
+
+  const load = async (url: string) => {
+    unload();
+    const id = loadId;
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    let decoded: AudioBuffer;
+    try {
+      const response = await fetch(url);
+      decoded = await ctx.decodeAudioData(await response.arrayBuffer());
+    } catch (err) {
+      // Browsers cap the number of live contexts; don't leak one per undecodable file
+      ctx.close();
+      throw err;
+    }
+    // A newer load or an unload won the race
+    if (id !== loadId) {
+      ctx.close();
+      return decoded.duration;
+    }
+
+    context = ctx;
+    buffer = decoded;
+    analyser = ctx.createAnalyser();
+    analyser.fftSize = 2048; // Resolution of frequency
+    analyser.connect(ctx.destination);
+    onTimeUpdate(0);
+    return decoded.duration;
+  };
+
+  return {
+    load,
+    unload,
+    play,
+    pause,
+    toggle: () => (source ? pause() : play()),
+    seek: restartAt,
+    setPlaybackRate: (next: number) => {
+      const position = getCurrentTime();
+      rate = next;
+      restartAt(position);
+    },
+    setLoop: (region: LoopRegion | null) => {
+      const position = getCurrentTime();
+      loop = region && region.endSec - region.startSec > 0.01 ? region : null;
+      restartAt(position);
+    },
+    getCurrentTime,
+    getDuration: duration,
+    getAnalyser: () => analyser,
+    isPlaying: () => source !== null
+  };
+};
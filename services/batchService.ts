@@ -0,0 +1,85 @@
+import { BatchItem, DetectionProfile } from "../types";
+import { analyzeAudioSignal, isAbortError } from "./analysisService";
+
+// --- Batch Analysis ---
+
+const AUDIO_EXTENSIONS = /\.(wav|wave|mp3|flac|ogg|oga|opus|m4a|aac|webm|amr|aif|aiff)$/i;
+
+export const isAudioFile = (file: File) => file.type.startsWith('audio/') || AUDIO_EXTENSIONS.test(file.name);
+
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in batches until it yields an empty array
+    let batch: FileSystemEntry[];
+    do {
+      batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      entries.push(...batch);
+    } while (batch.length > 0);
+    return (await Promise.all(entries.map(readEntry))).flat();
+  }
+  return [];
+};
+
+// Expands dropped folders recursively and keeps only audio files
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  const files = entries.length > 0
+    ? (await Promise.all(entries.map(readEntry))).flat()
+    : Array.from(dataTransfer.files);
+  return files.filter(isAudioFile);
+};
+
+export const createBatchItems = (files: File[]): BatchItem[] =>
+  files.map((file, i) => ({
+    id: `${Date.now()}-${i}-${file.webkitRelativePath || file.name}`,
+    file,
+    status: 'queued',
+    progress: 0
+  }));
+
+export interface BatchOptions {
+  concurrency: number;
+  signal?: AbortSignal;
+  profile?: DetectionProfile;
+  midSide?: boolean;
+  onUpdate: (id: string, patch: Partial<BatchItem>) => void;
+}
+
+// Pulls items off a shared cursor with `concurrency` workers in flight.
+// Items still queued when the signal aborts are left untouched for the caller.
+export const runBatch = async (items: BatchItem[], { concurrency, signal, profile, midSide, onUpdate }: BatchOptions): Promise<void> => {
+  let next = 0;
+
+  const runNext = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next++];
+      onUpdate(item.id, { status: 'running', progress: 0 });
+      try {
+        const result = await analyzeAudioSignal(item.file, {
+          signal,
+          profile,
+          midSide,
+          onProgress: progress => onUpdate(item.id, { progress })
+        });
+        onUpdate(item.id, { status: 'done', progress: 1, result });
+      } catch (err) {
+        if (isAbortError(err)) {
+          onUpdate(item.id, { status: 'cancelled' });
+        } else {
+          onUpdate(item.id, { status: 'error', error: err instanceof Error ? err.message : "Analysis failed." });
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runNext));
+};
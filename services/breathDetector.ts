@@ -0,0 +1,117 @@
+import { BreathEvent, BreathingAnalysis, PauseEvent, PauseStats } from "../types";
+import type { FrameRecord } from "./dspEngine";
+
+// --- Breath & Pause Detection ---
+// Inhalations show up between phrases as unvoiced, noise-like bursts well below speech
+// level but above the room tone, and are followed by phonation. Synthesis pipelines
+// rarely render them, and the pauses they leave behind tend to be oddly uniform.
+
+const BREATH_MIN_SEC = 0.1;
+const BREATH_MAX_SEC = 0.8;
+const BREATH_LONG_SEC = 0.25;          // long enough to stand on its own without a preceding pause
+const BREATH_ABOVE_FLOOR_DB = 6;
+const BREATH_BELOW_SPEECH_DB = 12;
+const BREATH_MIN_FLATNESS = 0.45;      // speech-band flatness; voiced frames sit far lower
+const ONSET_WINDOW_SEC = 1.0;          // a breath is followed by phonation within this
+const PAUSE_MIN_SEC = 0.15;            // shorter gaps are articulation, not pauses
+const MIN_PAUSES_FOR_STATS = 3;
+
+const toDb = (rms: number) => 20 * Math.log10(rms + 1e-9);
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+const summarizePauses = (pauses: PauseEvent[], spanSec: number): PauseStats | null => {
+  if (pauses.length < MIN_PAUSES_FOR_STATS) return null;
+  const durations = pauses.map(p => p.endSec - p.startSec).sort((a, b) => a - b);
+  const mean = durations.reduce((a, b) => a + b, 0) / durations.length;
+  const std = Math.sqrt(durations.reduce((a, b) => a + (b - mean) ** 2, 0) / durations.length);
+  return {
+    count: durations.length,
+    meanSec: round2(mean),
+    medianSec: round2(percentile(durations, 0.5)),
+    stdSec: round2(std),
+    cv: round2(std / mean),
+    minSec: round2(durations[0]),
+    maxSec: round2(durations[durations.length - 1]),
+    perMinute: round2(spanSec > 0 ? durations.length / (spanSec / 60) : 0)
+  };
+};
+
+// Frames must carry spectral features for every non-silent frame (not just gated-in
+// ones), since breaths usually sit below the active-speech gate.
+export const detectBreathing = (
+  frames: FrameRecord[],
+  sampleRate: number,
+  hopSize: number,
+  activeRmsGate: number
+): BreathingAnalysis => {
+  const hopSec = hopSize / sampleRate;
+  const startOf = (i: number) => frames[i].startSample / sampleRate;
+  const activeRms = frames.filter(f => f.rms > activeRmsGate).map(f => f.rms).sort((a, b) => a - b);
+  if (activeRms.length === 0) return { breaths: [], pauses: [], pauseStats: null };
+
+  const speechDb = toDb(percentile(activeRms, 0.5));
+  const audible = frames.map(f => f.rms).filter(r => r > 0.00001).sort((a, b) => a - b);
+  const floorDb = toDb(percentile(audible, 0.1));
+
+  const isVoiced = (f: FrameRecord) => f.rms > activeRmsGate && !!f.pitch;
+  const isCandidate = (f: FrameRecord) => {
+    if (f.pitch || !f.spectral) return false;
+    const db = toDb(f.rms);
+    return db >= floorDb + BREATH_ABOVE_FLOOR_DB &&
+      db <= speechDb - BREATH_BELOW_SPEECH_DB &&
+      f.spectral.speechBandFlatness >= BREATH_MIN_FLATNESS;
+  };
+
+  // --- Breaths ---
+  const breaths: BreathEvent[] = [];
+  const inBreath = new Uint8Array(frames.length);
+  const onsetFrames = Math.ceil(ONSET_WINDOW_SEC / hopSec);
+  for (let i = 0; i < frames.length;) {
+    if (!isCandidate(frames[i])) {
+      i++;
+      continue;
+    }
+    let j = i;
+    let peak = 0;
+    while (j < frames.length && isCandidate(frames[j])) peak = Math.max(peak, frames[j++].rms);
+    const durationSec = (j - i) * hopSec;
+    const afterPause = i === 0 || frames[i - 1].rms <= activeRmsGate;
+    const beforeVoice = frames.slice(j, j + onsetFrames).some(isVoiced);
+    if (durationSec >= BREATH_MIN_SEC && durationSec <= BREATH_MAX_SEC && (afterPause || durationSec >= BREATH_LONG_SEC) && beforeVoice) {
+      breaths.push({ startSec: startOf(i), endSec: startOf(j - 1) + hopSec, levelDb: Math.round(toDb(peak) - speechDb) });
+      inBreath.fill(1, i, j);
+    }
+    i = j;
+  }
+
+  // --- Pauses ---
+  // Gaps between speech frames; a breath inside a gap belongs to the pause, not the speech
+  const isSpeech = (i: number) => frames[i].rms > activeRmsGate && !inBreath[i];
+  let first = 0;
+  while (first < frames.length && !isSpeech(first)) first++;
+  let last = frames.length - 1;
+  while (last > first && !isSpeech(last)) last--;
+
+  const pauses: PauseEvent[] = [];
+  for (let i = first; i <= last;) {
+    if (isSpeech(i)) {
+      i++;
+      continue;
+    }
+    let j = i;
+    let breath = false;
+    while (j <= last && !isSpeech(j)) {
+      if (inBreath[j]) breath = true;
+      j++;
+    }
+    if ((j - i) * hopSec >= PAUSE_MIN_SEC) pauses.push({ startSec: startOf(i), endSec: startOf(j - 1) + hopSec, breath });
+    i = j;
+  }
+
+  const spanSec = first <= last ? startOf(last) + hopSec - startOf(first) : 0;
+  return { breaths, pauses, pauseStats: summarizePauses(pauses, spanSec) };
+};
@@ -0,0 +1,381 @@
+import type { ExtractorInput, FeatureExtractor, MetricValues, RuleOutcome } from "./featureRegistry";
+import { summarizePitch } from "./pitchTracker";
+import { detectBreathing } from "./breathDetector";
+import { LTASS_SLOPE_DB_PER_OCT, measureVocoderFeatures } from "./vocoderDetectors";
+
+// --- Built-in Feature Extractors ---
+// The analyzer's own detectors, in scoring order. Every threshold and weight comes from
+// the detection profile; the comments describe the default tuning.
+
+const activeFrames = (input: ExtractorInput) =>
+  input.frames.filter(f => f.rms > input.profile.thresholds.activeRmsGate);
+
+// Rule on one metric that awards `weight` when `flagged`, and nothing otherwise
+const thresholdRule = (
+  value: number | null,
+  flagged: (value: number) => boolean,
+  outcome: { unit: string; threshold: string; weight: number; rationale: [string, string]; observation?: string },
+  display: (value: number) => number = v => v
+): RuleOutcome | null => {
+  if (value === null) return null;
+  const hit = flagged(value);
+  return {
+    value: display(value),
+    unit: outcome.unit,
+    threshold: outcome.threshold,
+    points: hit ? outcome.weight : 0,
+    rationale: hit ? outcome.rationale[0] : outcome.rationale[1],
+    observation: hit ? outcome.observation : undefined
+  };
+};
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+// --- Spectral & Dynamics ---
+
+const signalExtractor: FeatureExtractor = {
+  id: 'signal',
+  label: 'Spectrum & Dynamics',
+  description: 'Rolloff, noise floor, zero-fill and energy variation over the gated frames.',
+  metrics: [
+    { key: 'avgRolloffHz', label: 'Mean 85% rolloff', unit: 'Hz', digits: 0 },
+    { key: 'rolloffStdHz', label: 'Rolloff std', unit: 'Hz', digits: 0 },
+    { key: 'avgCentroidHz', label: 'Mean centroid', unit: 'Hz', digits: 0 },
+    { key: 'avgFlatness', label: 'Mean flatness', digits: 3 },
+    { key: 'noiseFloorDb', label: 'Noise floor', unit: 'dB', digits: 1 },
+    { key: 'maxZeroRun', label: 'Longest zero run', unit: 'samples', digits: 0 },
+    { key: 'rmsCV', label: 'RMS CV' }
+  ],
+  // Without gated frames the spectral averages are 0, not a measurement
+  extract: ({ summary }) => ({
+    avgRolloffHz: summary.activeFrames > 0 ? summary.avgRolloff : null,
+    rolloffStdHz: summary.activeFrames > 0 ? summary.stdRolloff : null,
+    avgCentroidHz: summary.activeFrames > 0 ? summary.avgCentroid : null,
+    avgFlatness: summary.activeFrames > 0 ? summary.avgFlatness : null,
+    noiseFloorDb: summary.noiseFloorDb,
+    maxZeroRun: summary.maxZeroRun,
+    rmsCV: summary.rmsCV
+  }),
+  rules: [
+    {
+      // The "Cheap Mic" vs "AI" Matrix
+      // Natural cheap mics have low bandwidth (<16kHz) BUT high noise (>-60dB).
+      // AI has low bandwidth (<16kHz) AND low noise (<-70dB).
+      // Narrowband channels (telephony) band-limit every talker, so their profiles zero these weights.
+      id: 'bandwidth',
+      label: 'Bandwidth vs. noise floor',
+      score: (m, { thresholds: t, weights: w }) => {
+        if (m.avgRolloffHz === null) return null;
+        const avgRolloff = m.avgRolloffHz;
+        const noiseFloorDb = m.noiseFloorDb!;
+        const hasDigitalSilence = m.maxZeroRun! > t.digitalSilenceRun;
+        const base = { value: Math.round(avgRolloff), unit: 'Hz' };
+        if (avgRolloff < t.bandwidthLimitHz) {
+          if (noiseFloorDb < t.cleanNoiseFloorDb || hasDigitalSilence) {
+            // Low Bandwidth + Clean = AI
+            return { ...base, threshold: `< ${t.bandwidthLimitHz} Hz and (noise floor < ${t.cleanNoiseFloorDb} dB or zero-fill)`, points: w.bandwidthClean,
+              rationale: "Signal is bandwidth-limited yet unnaturally clean.", observation: "Bandwidth limited with synthetic silence." };
+          }
+          // Low Bandwidth + Noisy = Cheap Mic (Human)
+          return { ...base, threshold: `< ${t.bandwidthLimitHz} Hz with noise floor >= ${t.cleanNoiseFloorDb} dB`, points: w.bandwidthNoisy,
+            rationale: "Bandwidth limitation likely due to hardware, matched with natural noise floor." };
+        }
+        // High bandwidth usually implies modern recording or high-end generation
+        return { ...base, threshold: `>= ${t.bandwidthLimitHz} Hz`, points: w.fullBandwidth,
+          rationale: "Full spectral bandwidth detected." };
+      }
+    },
+    {
+      // Rolloff Rigidity
+      // If the 85% energy point barely moves (stdDev < 150Hz), it's likely a fixed filter.
+      // Human speech rolloff moves wildly (300Hz+) depending on the vowel/consonant.
+      id: 'rolloffRigidity',
+      label: 'Rolloff rigidity',
+      score: (m, { thresholds: t, weights: w }) => {
+        if (m.rolloffStdHz === null) return null;
+        const stdRolloff = m.rolloffStdHz;
+        const base = { value: Math.round(stdRolloff), unit: 'Hz std' };
+        return stdRolloff < t.rolloffStdHz
+          ? { ...base, threshold: `< ${t.rolloffStdHz} Hz`, points: w.rolloffRigid,
+              rationale: "Spectral rolloff point is mathematically rigid.", observation: "Fixed-frequency low-pass filtering detected." }
+          : { ...base, threshold: `>= ${t.rolloffStdHz} Hz`, points: w.rolloffNatural,
+              rationale: "Natural spectral variation observed over time." };
+      }
+    },
+    {
+      // Digital Artifacts
+      id: 'digitalSilence',
+      label: 'Digital silence',
+      score: (m, { thresholds: t, weights: w }) => {
+        const hasDigitalSilence = m.maxZeroRun! > t.digitalSilenceRun;
+        return {
+          value: m.maxZeroRun!,
+          unit: 'samples',
+          threshold: `> ${t.digitalSilenceRun} consecutive zeros`,
+          points: hasDigitalSilence ? w.digitalSilence : 0,
+          rationale: hasDigitalSilence
+            ? "Contains segments of absolute digital silence (Zero-fill)."
+            : "No runs of absolute digital silence."
+        };
+      }
+    },
+    {
+      // Dynamic Flatness (reusing older logic but stricter)
+      id: 'dynamicRange',
+      label: 'Dynamic range',
+      score: (m, { thresholds: t, weights: w }) => thresholdRule(m.rmsCV, x => x < t.rmsCV, {
+        unit: 'RMS CV',
+        threshold: `< ${t.rmsCV}`,
+        weight: w.lowDynamicRange, // Compressed
+        rationale: ["Low dynamic range consistent with normalized synthesis.", "Energy varies naturally between frames."]
+      }, round2)
+    }
+  ]
+};
+
+// --- Channel Correlation ---
+
+const channelsExtractor: FeatureExtractor = {
+  id: 'channels',
+  label: 'Channel Correlation',
+  description: 'L/R similarity of two-channel files; bit-identical channels mean a duplicated mono source.',
+  metrics: [
+    { key: 'correlation', label: 'L/R correlation', unit: 'r', digits: 3 },
+    { key: 'identical', label: 'Bit-identical', digits: 0 },
+    { key: 'sideLevelDb', label: 'Side level', unit: 'dB', digits: 1 }
+  ],
+  extract: ({ stereo }) => stereo ? {
+    correlation: stereo.correlation,
+    identical: stereo.identical ? 1 : 0,
+    sideLevelDb: stereo.sideLevelDb
+  } : null,
+  rules: [
+    {
+      id: 'channelCorrelation',
+      label: 'L/R correlation',
+      score: (m, { weights: w }) => {
+        const identical = m.identical === 1;
+        return {
+          value: Math.round(m.correlation! * 1000) / 1000,
+          unit: 'r',
+          threshold: 'bit-identical channels',
+          points: identical ? w.identicalChannels : 0,
+          rationale: identical
+            ? "Left and right channels are bit-identical (duplicated mono source)."
+            : "Channels differ as separate microphones or a real stereo mix would."
+        };
+      }
+    }
+  ]
+};
+
+// --- Pitch & Voice Quality ---
+// Natural voices wobble from one frame to the next; vocoders draw near-perfect contours.
+
+const prosodyExtractor: FeatureExtractor = {
+  id: 'prosody',
+  label: 'Pitch & Voice Quality',
+  description: 'YIN pitch track over the active frames: F0 statistics, jitter, shimmer and HNR.',
+  metrics: [
+    { key: 'f0MeanHz', label: 'Mean F0', unit: 'Hz', digits: 1 },
+    { key: 'f0StdSemitones', label: 'F0 std', unit: 'st' },
+    { key: 'f0RangeSemitones', label: 'F0 range (5-95%)', unit: 'st' },
+    { key: 'voicedRatio', label: 'Voiced ratio' },
+    { key: 'jitterPct', label: 'Jitter', unit: '%' },
+    { key: 'shimmerPct', label: 'Shimmer', unit: '%' },
+    { key: 'hnrDb', label: 'HNR', unit: 'dB', digits: 1 }
+  ],
+  // Not measured when too few voiced frames were tracked
+  extract: input => {
+    const prosody = summarizePitch(activeFrames(input).map(f => ({ pitch: f.pitch ?? null, rms: f.rms })));
+    return prosody ? { ...prosody } : null;
+  },
+  rules: [
+    {
+      id: 'pitchJitter',
+      label: 'Pitch jitter',
+      score: (m, { thresholds: t, weights: w }) => {
+        const smooth = m.jitterPct! < t.smoothJitterPct;
+        return {
+          value: round2(m.jitterPct!),
+          unit: '%',
+          threshold: `< ${t.smoothJitterPct}%`,
+          points: smooth ? w.smoothProsody : w.naturalProsody,
+          rationale: smooth
+            ? "Pitch contour is unnaturally smooth from frame to frame."
+            : "Pitch shows the micro-variation of a natural voice.",
+          observation: smooth ? "Over-smooth pitch contour." : undefined
+        };
+      }
+    },
+    {
+      id: 'pitchRange',
+      label: 'Pitch range',
+      score: (m, { thresholds: t, weights: w }) => thresholdRule(m.f0StdSemitones, x => x < t.monotonePitchSt, {
+        unit: 'st std',
+        threshold: `< ${t.monotonePitchSt} st`,
+        weight: w.monotonePitch,
+        rationale: ["Intonation is flat across the recording.", "Intonation varies across the recording."]
+      }, round2)
+    }
+  ]
+};
+
+// --- Breaths & Pauses ---
+// Reported only; absence of breaths is common in clean studio reads too.
+
+const breathingExtractor: FeatureExtractor = {
+  id: 'breathing',
+  label: 'Breaths & Pauses',
+  description: 'Inhalation events between phrases and the length distribution of pauses.',
+  metrics: [
+    { key: 'breaths', label: 'Breaths', digits: 0 },
+    { key: 'pauses', label: 'Pauses', digits: 0 },
+    { key: 'pausesPerMinute', label: 'Pauses per minute', unit: '/min', digits: 1 },
+    { key: 'pauseMedianSec', label: 'Median pause', unit: 's' },
+    { key: 'pauseCv', label: 'Pause CV' }
+  ],
+  extract: ({ frames, sampleRate, hopSize, profile, file }) => {
+    const { breaths, pauses, pauseStats } = file?.breathing ?? detectBreathing(frames, sampleRate, hopSize, profile.thresholds.activeRmsGate);
+    return {
+      breaths: breaths.length,
+      pauses: pauses.length,
+      pausesPerMinute: pauseStats?.perMinute ?? null,
+      pauseMedianSec: pauseStats?.medianSec ?? null,
+      pauseCv: pauseStats?.cv ?? null
+    };
+  },
+  rules: []
+};
+
+// --- Neural Vocoder Artifacts ---
+// Each detector is its own rule; ones the file could not be measured for are skipped.
+
+const vocoderExtractor: FeatureExtractor = {
+  id: 'vocoder',
+  label: 'Vocoder Artifacts',
+  description: 'Phase coherence, high-band periodicity, MFCC dynamics, envelope modulation and LTAS slope.',
+  requiresFile: true,
+  metrics: [
+    { key: 'phaseIncoherence', label: 'Phase drift', digits: 3 },
+    { key: 'highBandPeriodicity', label: 'High-band periodicity', digits: 3 },
+    { key: 'mfccStd', label: 'MFCC std', digits: 3 },
+    { key: 'deltaMfccStd', label: 'Delta-MFCC std', digits: 3 },
+    { key: 'modulationFastRatio', label: 'Fast modulation', digits: 3 },
+    { key: 'ltasSlopeDbPerOct', label: 'LTAS slope', unit: 'dB/oct', digits: 1 }
+  ],
+  extract: ({ file, sampleRate, frames, frameSize, hopSize, profile }): MetricValues | null => file ? {
+    ...measureVocoderFeatures(file.samples, sampleRate, frames, frameSize, hopSize, profile.thresholds.activeRmsGate, file.powerSum, file.bandwidthEdgeHz)
+  } : null,
+  rules: [
+    {
+      id: 'phaseCoherence',
+      label: 'Harmonic phase coherence',
+      score: (m, { thresholds: t, weights: w }) => thresholdRule(m.phaseIncoherence, x => x > t.phaseIncoherence, {
+        unit: 'drift', threshold: `> ${t.phaseIncoherence}`, weight: w.incoherentPhase,
+        rationale: ["Harmonic phases drift randomly between frames, as in vocoded speech.", "Harmonic phases stay locked to the glottal pulse."],
+        observation: "Incoherent harmonic phase."
+      })
+    },
+    {
+      id: 'highBandPeriodicity',
+      label: 'High-band periodic peaks',
+      score: (m, { thresholds: t, weights: w }) => thresholdRule(m.highBandPeriodicity, x => x > t.highBandPeriodicity, {
+        unit: 'r', threshold: `> ${t.highBandPeriodicity}`, weight: w.highBandPeaks,
+        rationale: ["Evenly spaced spectral peaks above 8 kHz suggest upsampling-layer artifacts.", "No periodic peak pattern above 8 kHz."],
+        observation: "Periodic upsampling artifacts above 8 kHz."
+      })
+    },
+    {
+      id: 'mfccDynamics',
+      label: 'MFCC dynamics',
+      score: (m, { thresholds: t, weights: w }) => thresholdRule(m.deltaMfccStd, x => x < t.smoothMfccDelta, {
+        unit: 'delta std', threshold: `< ${t.smoothMfccDelta}`, weight: w.smoothMfcc,
+        rationale: ["Spectral envelope moves too little between 10 ms frames.", "Spectral envelope moves naturally between frames."],
+        observation: "Over-smoothed spectral trajectory."
+      })
+    },
+    {
+      id: 'modulationSpectrum',
+      label: 'Fast envelope modulation',
+      score: (m, { thresholds: t, weights: w }) => thresholdRule(m.modulationFastRatio, x => x < t.fastModulationRatio, {
+        unit: 'ratio', threshold: `< ${t.fastModulationRatio}`, weight: w.smoothModulation,
+        rationale: ["Envelope lacks the fast (16-50 Hz) modulation of onsets and bursts.", "Envelope carries fast onset and burst modulation."],
+        observation: "Over-smoothed amplitude envelope."
+      })
+    },
+    {
+      id: 'ltasShape',
+      label: 'Long-term spectrum slope',
+      score: (m, { thresholds: t, weights: w }) => thresholdRule(m.ltasSlopeDbPerOct, x => Math.abs(x - LTASS_SLOPE_DB_PER_OCT) > t.ltasSlopeDeviationDb, {
+        unit: 'dB/oct', threshold: `outside ${LTASS_SLOPE_DB_PER_OCT} ± ${t.ltasSlopeDeviationDb} dB/oct`, weight: w.unnaturalLtas,
+        rationale: ["Long-term spectrum slope is far from that of natural speech.", "Long-term spectrum slope is typical of speech."],
+        observation: "Unnatural long-term spectrum."
+      })
+    }
+  ]
+};
+
+// --- Transcoding History ---
+// Not scored itself. Lossy coding squelches noise floors, zero-fills quiet passages, pins the
+// band edge and scrambles high-band phase, so the AI points of those rules are scaled down
+// by the codec likelihood. Prosody and envelope rules are left alone: a codec does not
+// flatten intonation.
+
+const MIN_DISCOUNT_EVIDENCE_KINDS = 2;
+const CODEC_EXPLAINABLE_RULES = ['bandwidth', 'rolloffRigidity', 'digitalSilence', 'phaseCoherence', 'highBandPeriodicity', 'ltasShape'];
+
+const codecExtractor: FeatureExtractor = {
+  id: 'codec',
+  label: 'Transcoding History',
+  description: 'Codec lowpass, quantization holes and frame-grid requantization; discounts factors a lossy codec explains.',
+  requiresFile: true,
+  metrics: [
+    { key: 'lowpassHz', label: 'Codec lowpass', unit: 'Hz', digits: 0 },
+    { key: 'lowpassDropDb', label: 'Lowpass cliff', unit: 'dB', digits: 1 },
+    { key: 'holePct', label: 'Spectral holes', unit: '%', digits: 3 },
+    { key: 'flickerPct', label: 'Flickering holes', unit: '%', digits: 3 },
+    { key: 'gridPeriodMs', label: 'Frame grid', unit: 'ms' },
+    { key: 'gridProminence', label: 'Grid prominence', digits: 1 },
+    { key: 'codecLikelihood', label: 'Codec likelihood' },
+    { key: 'declaredLossy', label: 'Declared lossy', digits: 0 },
+    { key: 'evidenceKinds', label: 'Evidence kinds', digits: 0 },
+    { key: 'generations', label: 'Lossy generations', digits: 0 }
+  ],
+  extract: ({ file }) => {
+    if (!file) return null;
+    const { cliff, holePct, flickerPct, grid, codecLikelihood, declaredLossy, evidenceKinds, generations } = file.transcoding;
+    const codecCliff = cliff?.kind === 'codec' ? cliff : null;
+    return {
+      lowpassHz: codecCliff?.frequencyHz ?? null,
+      lowpassDropDb: codecCliff?.dropDb ?? null,
+      holePct,
+      flickerPct,
+      gridPeriodMs: grid?.periodMs ?? null,
+      gridProminence: grid?.prominence ?? null,
+      codecLikelihood,
+      declaredLossy: declaredLossy ? 1 : 0,
+      evidenceKinds,
+      generations
+    };
+  },
+  rules: [],
+  discounts: (m, { thresholds: t }) => {
+    // A single kind of signal evidence can be the synthesis itself; clean TTS must keep its points
+    if (!m.declaredLossy && (m.evidenceKinds ?? 0) < MIN_DISCOUNT_EVIDENCE_KINDS) return [];
+    const likelihood = m.codecLikelihood ?? 0;
+    const keep = 1 - (t.codecDiscountPct / 100) * likelihood;
+    if (likelihood <= 0 || keep >= 1) return [];
+    const reason = `Lossy-codec traces (likelihood ${Math.round(likelihood * 100)}%) can produce this artifact.`;
+    return CODEC_EXPLAINABLE_RULES.map(ruleId => ({ ruleId, keep, reason }));
+  }
+};
+
+export const BUILT_IN_EXTRACTORS: FeatureExtractor[] = [
+  signalExtractor,
+  channelsExtractor,
+  prosodyExtractor,
+  breathingExtractor,
+  vocoderExtractor,
+  codecExtractor
+];
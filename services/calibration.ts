@@ -0,0 +1,250 @@
+import { Calibration, CalibrationEvaluation, CalibrationMethod, ConfusionMatrix, RocPoint } from "../types";
+
+// --- Score Calibration ---
+// The raw score is a sum of rule points, and the heuristic confidence derived from it
+// (60 + |score|, capped at 99) is not a probability. A calibration maps the score to
+// P(AI) as measured on a labeled corpus, so "92%" means 92 of 100 such files were AI.
+
+export interface LabeledScore {
+  score: number;
+  isAI: boolean;        // ground-truth label
+  confidence: number;   // heuristic confidence of the verdict, 0-100
+  flaggedAI: boolean;   // verdict at the profile's decision threshold
+}
+
+const clampProbability = (p: number) => Math.min(1 - 1e-6, Math.max(1e-6, p));
+
+const roundTo = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// --- FITTING ---
+
+// Platt scaling with the regularized targets and Newton iteration of Lin, Lin & Weng (2007)
+const fitPlatt = (samples: LabeledScore[]): { a: number; b: number } => {
+  const positives = samples.filter(s => s.isAI).length;
+  const negatives = samples.length - positives;
+  const hiTarget = (positives + 1) / (positives + 2);
+  const loTarget = 1 / (negatives + 2);
+  const targets = samples.map(s => s.isAI ? hiTarget : loTarget);
+
+  const objective = (a: number, b: number) => samples.reduce((sum, s, i) => {
+    const fApB = s.score * a + b;
+    return sum + (fApB >= 0
+      ? targets[i] * fApB + Math.log(1 + Math.exp(-fApB))
+      : (targets[i] - 1) * fApB + Math.log(1 + Math.exp(fApB)));
+  }, 0);
+
+  let a = 0;
+  let b = Math.log((negatives + 1) / (positives + 1));
+  let fval = objective(a, b);
+
+  for (let iter = 0; iter < 100; iter++) {
+    let h11 = 1e-12, h22 = 1e-12, h21 = 0, g1 = 0, g2 = 0;
+    samples.forEach((s, i) => {
+      const fApB = s.score * a + b;
+      const p = fApB >= 0 ? Math.exp(-fApB) / (1 + Math.exp(-fApB)) : 1 / (1 + Math.exp(fApB));
+      const d2 = p * (1 - p);
+      h11 += s.score * s.score * d2;
+      h22 += d2;
+      h21 += s.score * d2;
+      const d1 = targets[i] - p;
+      g1 += s.score * d1;
+      g2 += d1;
+    });
+    if (Math.abs(g1) < 1e-5 && Math.abs(g2) < 1e-5) break;
+
+    const det = h11 * h22 - h21 * h21;
+    const dA = -(h22 * g1 - h21 * g2) / det;
+    const dB = -(-h21 * g1 + h11 * g2) / det;
+    const gd = g1 * dA + g2 * dB;
+
+    let step = 1;
+    while (step >= 1e-10) {
+      const next = objective(a + step * dA, b + step * dB);
+      if (next < fval + 1e-4 * step * gd) {
+        a += step * dA;
+        b += step * dB;
+        fval = next;
+        break;
+      }
+      step /= 2;
+    }
+    if (step < 1e-10) break;
+  }
+  return { a: roundTo(a, 6), b: roundTo(b, 6) };
+};
+
+// Pool-adjacent-violators on the distinct scores. Each pooled block's rate is
+// Laplace-smoothed so a small all-AI block reads as, say, 90% rather than 100%.
+const fitIsotonic = (samples: LabeledScore[]): { scores: number[]; probabilities: number[] } => {
+  const byScore = new Map<number, { ai: number; n: number }>();
+  for (const s of samples) {
+    const bucket = byScore.get(s.score) ?? { ai: 0, n: 0 };
+    bucket.ai += s.isAI ? 1 : 0;
+    bucket.n++;
+    byScore.set(s.score, bucket);
+  }
+
+  const blocks: { lo: number; hi: number; ai: number; n: number }[] = [];
+  for (const [score, { ai, n }] of Array.from(byScore.entries()).sort((x, y) => x[0] - y[0])) {
+    blocks.push({ lo: score, hi: score, ai, n });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.ai / prev.n < last.ai / last.n) break;
+      blocks.splice(-2, 2, { lo: prev.lo, hi: last.hi, ai: prev.ai + last.ai, n: prev.n + last.n });
+    }
+  }
+
+  const scores: number[] = [];
+  const probabilities: number[] = [];
+  let floor = 0;
+  for (const block of blocks) {
+    // Smoothing can reorder blocks of very different sizes; keep the steps non-decreasing
+    floor = Math.max(floor, (block.ai + 1) / (block.n + 2));
+    for (const score of block.lo === block.hi ? [block.lo] : [block.lo, block.hi]) {
+      scores.push(score);
+      probabilities.push(roundTo(floor, 4));
+    }
+  }
+  return { scores, probabilities };
+};
+
+export const fitCalibration = (samples: LabeledScore[], method: CalibrationMethod): Calibration => {
+  const ai = samples.filter(s => s.isAI).length;
+  const human = samples.length - ai;
+  if (ai === 0 || human === 0) {
+    throw new Error(`Calibration needs both human and AI examples (got ${human} human, ${ai} AI).`);
+  }
+  return {
+    method,
+    fittedAt: new Date().toISOString(),
+    corpus: { human, ai },
+    ...(method === 'platt' ? { platt: fitPlatt(samples) } : { isotonic: fitIsotonic(samples) })
+  };
+};
+
+// --- APPLYING ---
+
+export const calibratedProbability = (calibration: Calibration, score: number): number => {
+  if (calibration.platt) {
+    const { a, b } = calibration.platt;
+    const fApB = a * score + b;
+    return fApB >= 0 ? Math.exp(-fApB) / (1 + Math.exp(-fApB)) : 1 / (1 + Math.exp(fApB));
+  }
+  const { scores, probabilities } = calibration.isotonic!;
+  if (score <= scores[0]) return probabilities[0];
+  if (score >= scores[scores.length - 1]) return probabilities[probabilities.length - 1];
+  let i = 1;
+  while (scores[i] < score) i++;
+  const span = scores[i] - scores[i - 1];
+  const t = span > 0 ? (score - scores[i - 1]) / span : 1;
+  return probabilities[i - 1] + t * (probabilities[i] - probabilities[i - 1]);
+};
+
+// --- EVALUATION ---
+
+// Verdict is AI when score > threshold
+export const confusionAt = (samples: LabeledScore[], threshold: number): ConfusionMatrix => {
+  let tp = 0, fp = 0, tn = 0, fn = 0;
+  for (const s of samples) {
+    const flagged = s.score > threshold;
+    if (flagged && s.isAI) tp++;
+    else if (flagged) fp++;
+    else if (s.isAI) fn++;
+    else tn++;
+  }
+  const precision = tp + fp > 0 ? tp / (tp + fp) : null;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  const f1 = precision !== null && precision + recall > 0 ? 2 * precision * recall / (precision + recall) : null;
+  return {
+    threshold,
+    truePositive: tp,
+    falsePositive: fp,
+    trueNegative: tn,
+    falseNegative: fn,
+    precision: precision === null ? null : roundTo(precision, 4),
+    recall: roundTo(recall, 4),
+    f1: f1 === null ? null : roundTo(f1, 4),
+    accuracy: roundTo((tp + tn) / samples.length, 4)
+  };
+};
+
+// One point per distinct score, from "flag everything" to "flag nothing"
+export const rocCurve = (samples: LabeledScore[]): RocPoint[] => {
+  const ai = samples.filter(s => s.isAI).length;
+  const human = samples.length - ai;
+  const distinct = Array.from(new Set(samples.map(s => s.score))).sort((x, y) => x - y);
+  const thresholds = [distinct[0] - 1, ...distinct];
+  return thresholds.map(threshold => {
+    const flagged = samples.filter(s => s.score > threshold);
+    return {
+      threshold,
+      tpr: roundTo(flagged.filter(s => s.isAI).length / ai, 4),
+      fpr: roundTo(flagged.filter(s => !s.isAI).length / human, 4)
+    };
+  });
+};
+
+// Mann-Whitney: the chance a random AI file outscores a random human one (ties count half)
+const areaUnderCurve = (samples: LabeledScore[]) => {
+  const ai = samples.filter(s => s.isAI);
+  const human = samples.filter(s => !s.isAI);
+  let wins = 0;
+  for (const x of ai) {
+    for (const y of human) wins += x.score > y.score ? 1 : x.score === y.score ? 0.5 : 0;
+  }
+  return wins / (ai.length * human.length);
+};
+
+// Where the false-positive and false-negative rates cross, interpolated between ROC points
+const equalErrorRate = (roc: RocPoint[]): { eer: number; threshold: number } => {
+  // roc runs from (fpr 1, fnr 0) to (fpr 0, fnr 1), so fpr - fnr goes from >= 0 to <= 0
+  for (let i = 1; i < roc.length; i++) {
+    const d0 = roc[i - 1].fpr - (1 - roc[i - 1].tpr);
+    const d1 = roc[i].fpr - (1 - roc[i].tpr);
+    if (d0 >= 0 && d1 <= 0) {
+      const t = d0 === d1 ? 0 : d0 / (d0 - d1);
+      const eer = roc[i - 1].fpr + t * (roc[i].fpr - roc[i - 1].fpr);
+      return { eer, threshold: t < 0.5 ? roc[i - 1].threshold : roc[i].threshold };
+    }
+  }
+  return { eer: 0.5, threshold: roc[0].threshold };
+};
+
+const brierScore = (samples: LabeledScore[], probabilities: number[]) =>
+  samples.reduce((sum, s, i) => sum + (probabilities[i] - (s.isAI ? 1 : 0)) ** 2, 0) / samples.length;
+
+const logLoss = (samples: LabeledScore[], probabilities: number[]) =>
+  -samples.reduce((sum, s, i) => sum + Math.log(clampProbability(s.isAI ? probabilities[i] : 1 - probabilities[i])), 0) / samples.length;
+
+// Heuristic confidence read as a probability of AI
+const heuristicProbability = (s: LabeledScore) => s.flaggedAI ? s.confidence / 100 : 1 - s.confidence / 100;
+
+// Fits a calibration on the corpus and reports how well the score separates it.
+// Metrics are in-sample: with a small corpus, expect the calibrated numbers to look optimistic.
+export const evaluateCorpus = (
+  samples: LabeledScore[],
+  profileId: string,
+  decisionThreshold: number,
+  method: CalibrationMethod
+): CalibrationEvaluation => {
+  const calibration = fitCalibration(samples, method);
+  const roc = rocCurve(samples);
+  const { eer, threshold: eerThreshold } = equalErrorRate(roc);
+  const heuristic = samples.map(heuristicProbability);
+  const calibrated = samples.map(s => calibratedProbability(calibration, s.score));
+
+  return {
+    profileId,
+    corpus: calibration.corpus,
+    auc: roundTo(areaUnderCurve(samples), 4),
+    eer: roundTo(eer, 4),
+    eerThreshold,
+    roc,
+    atDecisionThreshold: confusionAt(samples, decisionThreshold),
+    atEerThreshold: confusionAt(samples, eerThreshold),
+    brier: { heuristic: roundTo(brierScore(samples, heuristic), 4), calibrated: roundTo(brierScore(samples, calibrated), 4) },
+    logLoss: { heuristic: roundTo(logLoss(samples, heuristic), 4), calibrated: roundTo(logLoss(samples, calibrated), 4) },
+    calibration
+  };
+};
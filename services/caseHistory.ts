@@ -0,0 +1,161 @@
+import { AnalysisResult, CaseRecord } from "../types";
+import { hashFile } from "./reportService";
+import { renderSpectrogramSnapshot } from "./spectrogramService";
+
+// --- Case History ---
+// Every analysis is kept in the browser's IndexedDB, keyed by the SHA-256 of the file, so a
+// result outlives loading another file and re-opening the same audio shows it at once.
+// Nothing leaves the machine; the audio itself is stored only when the user opts in.
+
+const DB_NAME = 'sigspec-case-history';
+const DB_VERSION = 1;
+const CASES_STORE = 'cases';
+const AUDIO_STORE = 'audio'; // separate, so listing cases never reads the recordings
+const KEEP_AUDIO_KEY = 'sigspec.caseHistory.keepAudio';
+
+const THUMBNAIL_WIDTH = 240;
+const THUMBNAIL_HEIGHT = 80;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CASES_STORE)) db.createObjectStore(CASES_STORE, { keyPath: 'sha256' });
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Could not open the case history database."));
+    });
+    // Let a later call retry, e.g. after the user re-enables storage
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` in one transaction and resolves once it has committed
+const transact = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Case history transaction aborted."));
+  });
+  const value = await work(tx);
+  await done;
+  return value;
+};
+
+export const loadKeepAudio = (): boolean => localStorage.getItem(KEEP_AUDIO_KEY) === 'true';
+
+export const saveKeepAudio = (keep: boolean) => localStorage.setItem(KEEP_AUDIO_KEY, String(keep));
+
+export const getCase = (sha256: string): Promise<CaseRecord | null> =>
+  transact([CASES_STORE], 'readonly', async tx =>
+    (await promisify<CaseRecord | undefined>(tx.objectStore(CASES_STORE).get(sha256))) ?? null);
+
+// Newest first
+export const listCases = (): Promise<CaseRecord[]> =>
+  transact([CASES_STORE], 'readonly', async tx => {
+    const records = await promisify<CaseRecord[]>(tx.objectStore(CASES_STORE).getAll());
+    return records.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  });
+
+export const getCaseAudio = (sha256: string): Promise<File | null> =>
+  transact([AUDIO_STORE], 'readonly', async tx =>
+    (await promisify<File | undefined>(tx.objectStore(AUDIO_STORE).get(sha256))) ?? null);
+
+export interface SaveCaseOptions {
+  thumbnail?: string | null;
+  keepAudio?: boolean;
+}
+
+// Stores a fresh analysis. Tags, notes and the review of an earlier analysis of the same
+// file are kept; so is stored audio, even when this save does not ask for it.
+export const saveCase = (
+  file: File,
+  sha256: string,
+  result: AnalysisResult,
+  { thumbnail = null, keepAudio = false }: SaveCaseOptions = {}
+): Promise<CaseRecord> =>
+  transact([CASES_STORE, AUDIO_STORE], 'readwrite', async tx => {
+    const cases = tx.objectStore(CASES_STORE);
+    const previous = await promisify<CaseRecord | undefined>(cases.get(sha256));
+    const now = new Date().toISOString();
+    if (keepAudio) tx.objectStore(AUDIO_STORE).put(file, sha256);
+    const record: CaseRecord = {
+      sha256,
+      fileName: file.name,
+      sizeBytes: file.size,
+      mimeType: file.type,
+      analyzedAt: now,
+      updatedAt: now,
+      result,
+      thumbnail: thumbnail ?? previous?.thumbnail ?? null,
+      hasAudio: keepAudio || !!previous?.hasAudio,
+      tags: previous?.tags ?? [],
+      notes: previous?.notes ?? '',
+      review: previous?.review ?? null
+    };
+    cases.put(record);
+    return record;
+  });
+
+export type CaseEdit = Partial<Pick<CaseRecord, 'tags' | 'notes' | 'review'>>;
+
+export const updateCase = (sha256: string, edit: CaseEdit): Promise<CaseRecord> =>
+  transact([CASES_STORE], 'readwrite', async tx => {
+    const cases = tx.objectStore(CASES_STORE);
+    const previous = await promisify<CaseRecord | undefined>(cases.get(sha256));
+    if (!previous) throw new Error("This case is no longer in the history.");
+    const record: CaseRecord = { ...previous, ...edit, updatedAt: new Date().toISOString() };
+    cases.put(record);
+    return record;
+  });
+
+export const deleteCase = (sha256: string): Promise<void> =>
+  transact([CASES_STORE, AUDIO_STORE], 'readwrite', async tx => {
+    tx.objectStore(CASES_STORE).delete(sha256);
+    tx.objectStore(AUDIO_STORE).delete(sha256);
+  });
+
+// Hashes, renders the thumbnail and saves. `withThumbnail` is off for batch runs, where
+// decoding every file a second time for a picture would double the work.
+export const archiveAnalysis = async (
+  file: File,
+  result: AnalysisResult,
+  { withThumbnail = true, keepAudio = loadKeepAudio() }: { withThumbnail?: boolean; keepAudio?: boolean } = {}
+): Promise<CaseRecord> => {
+  const sha256 = await hashFile(file);
+  const thumbnail = withThumbnail
+    ? await renderSpectrogramSnapshot(file, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT).catch(() => null)
+    : null;
+  return saveCase(file, sha256, result, { thumbnail, keepAudio });
+};
+
+// Case-insensitive match on file name, hash prefix, verdict, reviewer label, tags and notes
+export const caseMatches = (record: CaseRecord, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [
+    record.fileName,
+    record.result.classification,
+    record.review?.label ?? '',
+    record.notes,
+    ...record.tags
+  ].some(text => text.toLowerCase().includes(q)) || record.sha256.startsWith(q);
+};
@@ -0,0 +1,195 @@
+import { AnalysisResult, ComparisonResult, LongTermSpectrum, MetricComparison, PitchDistribution } from "../types";
+
+// --- A/B Comparison ---
+// Measures a suspect clip against a verified recording of the same person. Both files go
+// through the normal whole-file analysis; the comparison only reads the two results, so
+// the verdict is relative: which measures put the suspect outside what the same speaker,
+// microphone and room produce.
+
+type Tolerance =
+  | { absolute: number }   // |suspect - reference| above this deviates
+  | { ratio: number }      // larger over smaller above this deviates
+  | { atLeast: number };   // the value itself below this deviates
+
+interface Measure {
+  key: string;
+  label: string;
+  unit: string;
+  read: (result: AnalysisResult) => number | null;
+  tolerance: Tolerance;
+  toleranceLabel: string;
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const featureValue = (result: AnalysisResult, extractorId: string, key: string): number | null =>
+  result.features?.find(e => e.id === extractorId)?.metrics.find(m => m.key === key)?.value ?? null;
+
+const breathsPerMinute = (result: AnalysisResult): number | null =>
+  result.breathing && result.durationSec ? round((60 * result.breathing.breaths.length) / result.durationSec, 1) : null;
+
+// --- PITCH DISTRIBUTION ---
+
+const PITCH_BASE_HZ = 55;
+const PITCH_FIRST_BIN = 1;   // 58 Hz, just under the tracker's 60 Hz floor
+const PITCH_LAST_BIN = 39;   // 523 Hz, just over its 500 Hz ceiling
+
+export const pitchDistribution = (result: AnalysisResult): PitchDistribution => {
+  const binHz = Array.from({ length: PITCH_LAST_BIN - PITCH_FIRST_BIN + 1 },
+    (_, i) => round(PITCH_BASE_HZ * 2 ** ((PITCH_FIRST_BIN + i) / 12), 1));
+  const counts = new Array(binHz.length).fill(0);
+  let voiced = 0;
+  for (const f0 of result.evidence?.f0Hz || []) {
+    if (f0 === null) continue;
+    const bin = Math.round(12 * Math.log2(f0 / PITCH_BASE_HZ)) - PITCH_FIRST_BIN;
+    if (bin < 0 || bin >= counts.length) continue;
+    counts[bin]++;
+    voiced++;
+  }
+  return { binHz, share: counts.map(c => (voiced > 0 ? round(c / voiced, 4) : 0)) };
+};
+
+const medianF0 = (distribution: PitchDistribution): number | null => {
+  let cumulative = 0;
+  for (let i = 0; i < distribution.share.length; i++) {
+    cumulative += distribution.share[i];
+    if (cumulative >= 0.5) return distribution.binHz[i];
+  }
+  return null;
+};
+
+// Histogram intersection: 1 for identical distributions, 0 for disjoint ones
+const pitchOverlap = (a: PitchDistribution, b: PitchDistribution): number | null => {
+  if (a.share.every(s => s === 0) || b.share.every(s => s === 0)) return null;
+  return a.share.reduce((sum, share, i) => sum + Math.min(share, b.share[i]), 0);
+};
+
+// --- LONG-TERM SPECTRUM ---
+
+const LTAS_FLOOR_DB = -80; // bands below this are empty; their exact level means nothing
+
+// Mean absolute difference over the shared bands once the overall level offset is removed,
+// so a louder or quieter recording of the same voice does not count as a deviation
+const ltasDistance = (a: LongTermSpectrum, b: LongTermSpectrum): number | null => {
+  const pairs: [number, number][] = [];
+  a.bandHz.forEach((hz, i) => {
+    const j = b.bandHz.indexOf(hz);
+    if (j >= 0) pairs.push([Math.max(LTAS_FLOOR_DB, a.levelDb[i]), Math.max(LTAS_FLOOR_DB, b.levelDb[j])]);
+  });
+  if (pairs.length === 0) return null;
+  const offset = pairs.reduce((sum, [x, y]) => sum + (y - x), 0) / pairs.length;
+  return pairs.reduce((sum, [x, y]) => sum + Math.abs(y - x - offset), 0) / pairs.length;
+};
+
+const alignLtas = (reference?: LongTermSpectrum, suspect?: LongTermSpectrum): ComparisonResult['ltas'] => {
+  const bandHz = Array.from(new Set([...(reference?.bandHz || []), ...(suspect?.bandHz || [])])).sort((x, y) => x - y);
+  const levelAt = (ltas: LongTermSpectrum | undefined, hz: number) => {
+    const i = ltas ? ltas.bandHz.indexOf(hz) : -1;
+    return i >= 0 ? ltas!.levelDb[i] : null;
+  };
+  return {
+    bandHz,
+    reference: bandHz.map(hz => levelAt(reference, hz)),
+    suspect: bandHz.map(hz => levelAt(suspect, hz))
+  };
+};
+
+// --- MEASURES ---
+
+const MEASURES: Measure[] = [
+  { key: 'noiseFloorDb', label: 'Noise floor', unit: 'dB', read: r => r.metrics.noiseFloorDb,
+    tolerance: { absolute: 10 }, toleranceLabel: '± 10 dB' },
+  { key: 'frequencyCutoffHz', label: 'Frequency cutoff', unit: 'Hz', read: r => r.metrics.frequencyCutoffHz,
+    tolerance: { ratio: 1.25 }, toleranceLabel: '± 25%' },
+  { key: 'bandwidthEdgeHz', label: 'True bandwidth', unit: 'Hz', read: r => r.metrics.bandwidthEdgeHz ?? null,
+    tolerance: { ratio: 1.25 }, toleranceLabel: '± 25%' },
+  { key: 'harmonicRegularityScore', label: 'Harmonic regularity', unit: '/100', read: r => r.metrics.harmonicRegularityScore,
+    tolerance: { absolute: 20 }, toleranceLabel: '± 20' },
+  { key: 'energyVariationScore', label: 'Energy variation', unit: '/100', read: r => r.metrics.energyVariationScore,
+    tolerance: { absolute: 20 }, toleranceLabel: '± 20' },
+  { key: 'breathsPerMinute', label: 'Breath rate', unit: '/min', read: breathsPerMinute,
+    tolerance: { absolute: 6 }, toleranceLabel: '± 6 /min' },
+  { key: 'f0MedianHz', label: 'Median F0', unit: 'Hz', read: r => medianF0(pitchDistribution(r)),
+    tolerance: { ratio: 2 ** (3 / 12) }, toleranceLabel: '± 3 st' },
+  { key: 'f0StdSemitones', label: 'F0 spread', unit: 'st', read: r => featureValue(r, 'prosody', 'f0StdSemitones'),
+    tolerance: { absolute: 1.5 }, toleranceLabel: '± 1.5 st' },
+  { key: 'jitterPct', label: 'Jitter', unit: '%', read: r => featureValue(r, 'prosody', 'jitterPct'),
+    tolerance: { ratio: 2 }, toleranceLabel: '× 2' },
+  { key: 'hnrDb', label: 'HNR', unit: 'dB', read: r => featureValue(r, 'prosody', 'hnrDb'),
+    tolerance: { absolute: 6 }, toleranceLabel: '± 6 dB' }
+];
+
+const LTAS_MAX_DISTANCE_DB = 6;
+const PITCH_MIN_OVERLAP_PCT = 30;
+
+const deviates = (reference: number | null, suspect: number | null, tolerance: Tolerance): boolean => {
+  if ('atLeast' in tolerance) return suspect !== null && suspect < tolerance.atLeast;
+  if (reference === null || suspect === null) return false;
+  if ('absolute' in tolerance) return Math.abs(suspect - reference) > tolerance.absolute;
+  const lo = Math.min(reference, suspect);
+  const hi = Math.max(reference, suspect);
+  return lo > 0 ? hi / lo > tolerance.ratio : hi > 0;
+};
+
+// "Noise floor" reads "noise floor" mid-sentence; "HNR" and "F0 spread" keep their case
+const inSentence = (label: string) => /^[A-Z][a-z]/.test(label) ? label.charAt(0).toLowerCase() + label.slice(1) : label;
+
+const joinLabels = (labels: string[]) =>
+  labels.length <= 1 ? labels.join('') : `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+
+export const compareResults = (reference: AnalysisResult, suspect: AnalysisResult): ComparisonResult => {
+  const metrics: MetricComparison[] = MEASURES.map(m => {
+    const a = m.read(reference);
+    const b = m.read(suspect);
+    return {
+      key: m.key,
+      label: m.label,
+      unit: m.unit,
+      reference: a,
+      suspect: b,
+      difference: a === null || b === null ? null : round(b - a, 2),
+      tolerance: m.toleranceLabel,
+      deviates: deviates(a, b, m.tolerance)
+    };
+  });
+
+  // Shape measures compare whole curves; `difference` holds the distance between them
+  const distance = reference.ltas && suspect.ltas ? ltasDistance(reference.ltas, suspect.ltas) : null;
+  metrics.push({
+    key: 'ltasDistanceDb',
+    label: 'LTAS shape',
+    unit: 'dB',
+    reference: null,
+    suspect: null,
+    difference: distance === null ? null : round(distance, 1),
+    tolerance: `mean |Δ| <= ${LTAS_MAX_DISTANCE_DB} dB`,
+    deviates: distance !== null && distance > LTAS_MAX_DISTANCE_DB
+  });
+
+  const referencePitch = pitchDistribution(reference);
+  const suspectPitch = pitchDistribution(suspect);
+  const overlap = pitchOverlap(referencePitch, suspectPitch);
+  const overlapPct = overlap === null ? null : round(100 * overlap, 1);
+  metrics.push({
+    key: 'pitchOverlapPct',
+    label: 'Pitch distribution overlap',
+    unit: '%',
+    reference: null,
+    suspect: null,
+    difference: overlapPct,
+    tolerance: `>= ${PITCH_MIN_OVERLAP_PCT}%`,
+    deviates: deviates(null, overlapPct, { atLeast: PITCH_MIN_OVERLAP_PCT })
+  });
+
+  const deviations = metrics.filter(m => m.deviates).map(m => m.label);
+  const compared = metrics.filter(m => m.difference !== null).length;
+  return {
+    metrics,
+    ltas: alignLtas(reference.ltas, suspect.ltas),
+    pitch: { binHz: referencePitch.binHz, reference: referencePitch.share, suspect: suspectPitch.share },
+    deviations,
+    verdict: deviations.length > 0
+      ? `Suspect deviates from the reference in ${joinLabels(deviations.map(inSentence))}.`
+      : `Suspect is consistent with the reference on all ${compared} compared measures.`
+  };
+};
@@ -0,0 +1,599 @@
+import { BitrateMode, ContainerFinding, ContainerForensics, MetadataTag } from "../types";
+import {
+  ascii, u16le, u32le, u16be, u32be,
+  id3v2Length, parseMpegHeader, findFirstMpegFrame, xingOffset, findMp4Box, probeAudioFormat
+} from "./formatProbe";
+
+// --- Container Forensics ---
+// Reads what decoders throw away: RIFF chunks, ID3/LAME tags, FLAC metadata blocks, Ogg
+// stream headers and MP4 atoms. Nothing here feeds the score; the encoder trail and any
+// structural inconsistencies go into the report for the examiner.
+
+const utf8 = new TextDecoder('utf-8');
+const latin1 = new TextDecoder('latin1');
+
+// Decoded string up to the first NUL
+const text = (b: Uint8Array, offset: number, length: number, decoder = utf8) =>
+  decoder.decode(b.subarray(offset, Math.min(b.length, offset + length))).replace(/\0[\s\S]*$/, '').trim();
+
+const synchsafe = (b: Uint8Array, o: number) => (b[o] << 21) | (b[o + 1] << 14) | (b[o + 2] << 7) | b[o + 3];
+
+// Generator names that have shown up in TTS exports' metadata
+const SYNTHESIS_PATTERN = /elevenlabs|eleven labs|resemble|descript|murf|play\.?ht|speechify|wellsaid|coqui|tortoise|\bbark\b|vall-?e|polly|azure (neural|tts)|wavenet|text[- ]?to[- ]?speech|\btts\b|voice ?clon|synthes/i;
+
+const EXTENSIONS: Record<string, string[]> = {
+  'WAV': ['wav', 'wave', 'bwf', 'rf64'],
+  'FLAC': ['flac', 'fla'],
+  'MP3': ['mp3'],
+  'MPEG audio': ['mp1', 'mp2', 'mpa', 'mp3'],
+  'Ogg': ['ogg', 'oga', 'opus', 'spx'],
+  'MP4': ['m4a', 'mp4', 'm4b', 'm4p', '3gp'],
+  'AIFF': ['aif', 'aiff'],
+  'AIFF-C': ['aif', 'aiff', 'aifc'],
+  'WebM': ['webm', 'weba', 'mka', 'mkv'],
+  'AMR': ['amr', '3ga']
+};
+
+// Where encoder, software and date come from, most specific first
+const ENCODER_TAGS = ['LAME tag:encoder', 'VBRI:encoder', 'Vorbis comment:vendor', 'ID3v2:TSSE', 'iTunes:©too', 'bext:CodingHistory'];
+const SOFTWARE_TAGS = ['LIST/INFO:ISFT', 'bext:Originator', 'ID3v2:TENC', 'Vorbis comment:ENCODER', 'Vorbis comment:ENCODED_BY', 'Vorbis comment:SOFTWARE', 'Matroska:WritingApp', 'Matroska:MuxingApp'];
+const DATE_TAGS = ['bext:OriginationDate', 'LIST/INFO:ICRD', 'ID3v2:TDRC', 'ID3v2:TYER', 'Vorbis comment:DATE', 'iTunes:©day', 'ID3v1:year'];
+
+type Inspection = Omit<ContainerForensics, 'encoder' | 'software' | 'createdAt'>;
+
+const addTag = (out: Inspection, block: string, key: string, value: string) => {
+  if (value) out.tags.push({ block, key, value });
+};
+const warn = (out: Inspection, message: string) => out.findings.push({ severity: 'warning', message });
+const note = (out: Inspection, message: string) => out.findings.push({ severity: 'info', message });
+
+// --- ID3 ---
+
+const id3Text = (data: Uint8Array, encoding: number) => {
+  if (encoding === 1 || encoding === 2) {
+    const bigEndian = encoding === 2 || (data[0] === 0xfe && data[1] === 0xff);
+    const body = data[0] === 0xfe || data[0] === 0xff ? data.subarray(2) : data;
+    return new TextDecoder(bigEndian ? 'utf-16be' : 'utf-16le').decode(body).replace(/\0[\s\S]*$/, '').trim();
+  }
+  return text(data, 0, data.length, encoding === 3 ? utf8 : latin1);
+};
+
+// End of the first string (the terminator is two bytes wide for UTF-16)
+const id3Terminator = (data: Uint8Array, encoding: number) => {
+  if (encoding === 1 || encoding === 2) {
+    for (let i = 0; i + 1 < data.length; i += 2) if (data[i] === 0 && data[i + 1] === 0) return { end: i, next: i + 2 };
+    return { end: data.length, next: data.length };
+  }
+  const i = data.indexOf(0);
+  return i < 0 ? { end: data.length, next: data.length } : { end: i, next: i + 1 };
+};
+
+const id3FrameValue = (id: string, data: Uint8Array): string | null => {
+  const encoding = data[0];
+  if (id === 'TXXX' || id === 'TXX') {
+    const { end, next } = id3Terminator(data.subarray(1), encoding);
+    return `${id3Text(data.subarray(1, 1 + end), encoding)}: ${id3Text(data.subarray(1 + next), encoding)}`;
+  }
+  if (id === 'COMM' || id === 'COM') {
+    const { next } = id3Terminator(data.subarray(4), encoding);
+    return id3Text(data.subarray(4 + next), encoding);
+  }
+  if (id[0] === 'T') return id3Text(data.subarray(1), encoding);
+  if (id === 'PRIV') return `owner ${text(data, 0, data.length, latin1)}`;
+  return null;
+};
+
+const inspectId3v2 = (b: Uint8Array, start: number, out: Inspection) => {
+  const major = b[start + 3];
+  const flags = b[start + 5];
+  const end = Math.min(b.length, start + 10 + synchsafe(b, start + 6));
+  out.structure.push(`ID3v2.${major}`);
+  let o = start + 10;
+  if (flags & 0x40 && major >= 3) o += major === 4 ? synchsafe(b, o) : u32be(b, o) + 4;
+
+  const idLength = major === 2 ? 3 : 4;
+  const headerLength = major === 2 ? 6 : 10;
+  while (o + headerLength <= end) {
+    const id = ascii(b, o, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // reached padding
+    const size = major === 2 ? (b[o + 3] << 16) | (b[o + 4] << 8) | b[o + 5]
+      : major === 4 ? synchsafe(b, o + 4) : u32be(b, o + 4);
+    const body = o + headerLength;
+    if (size <= 0 || body + size > end) break;
+    const value = id3FrameValue(id, b.subarray(body, body + size));
+    if (value !== null) addTag(out, 'ID3v2', id, value);
+    o = body + size;
+  }
+};
+
+const inspectId3v1 = (b: Uint8Array, out: Inspection) => {
+  const o = b.length - 128;
+  out.structure.push('ID3v1');
+  addTag(out, 'ID3v1', 'title', text(b, o + 3, 30, latin1));
+  addTag(out, 'ID3v1', 'artist', text(b, o + 33, 30, latin1));
+  addTag(out, 'ID3v1', 'year', text(b, o + 93, 4, latin1));
+  addTag(out, 'ID3v1', 'comment', text(b, o + 97, 28, latin1));
+};
+
+const hasId3v1 = (b: Uint8Array) => b.length >= 128 && ascii(b, b.length - 128, 3) === 'TAG';
+
+// --- Vorbis comments (FLAC, Ogg Vorbis, Opus) ---
+
+const inspectVorbisComment = (b: Uint8Array, start: number, end: number, out: Inspection) => {
+  let o = start;
+  const vendorLength = u32le(b, o);
+  addTag(out, 'Vorbis comment', 'vendor', text(b, o + 4, vendorLength));
+  o += 4 + vendorLength;
+  const count = u32le(b, o);
+  o += 4;
+  for (let i = 0; i < count && o + 4 <= end; i++) {
+    const length = u32le(b, o);
+    const entry = text(b, o + 4, Math.min(length, 1024));
+    o += 4 + length;
+    const eq = entry.indexOf('=');
+    const key = entry.slice(0, eq).toUpperCase();
+    // Embedded cover art is base64 noise, not evidence
+    if (eq > 0 && key !== 'METADATA_BLOCK_PICTURE') addTag(out, 'Vorbis comment', key, entry.slice(eq + 1));
+  }
+};
+
+// --- RIFF/WAVE ---
+
+const PCM_TAGS = new Set([0x0001, 0x0003]);
+
+const inspectWav = (b: Uint8Array, out: Inspection) => {
+  const isRf64 = ascii(b, 0, 4) === 'RF64';
+  const riffEnd = u32le(b, 4) + 8;
+  if (!isRf64 && riffEnd > b.length) warn(out, `RIFF header declares ${riffEnd} bytes but the file has ${b.length} (truncated).`);
+  else if (!isRf64 && riffEnd < b.length) note(out, `${b.length - riffEnd} bytes trail the RIFF chunk.`);
+
+  let fmt: { tag: number; channels: number; rate: number; byteRate: number; blockAlign: number; bits: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= b.length) {
+    const id = ascii(b, offset, 4);
+    const declared = u32le(b, offset + 4);
+    const body = offset + 8;
+    // RF64 and streaming writers leave 0xFFFFFFFF in place of the real length
+    const size = declared === 0xffffffff ? b.length - body : declared;
+    if (!/^[\x20-\x7e]{4}$/.test(id)) {
+      warn(out, `Unreadable chunk header at byte ${offset}; the remaining ${b.length - offset} bytes were skipped.`);
+      break;
+    }
+
+    if (id === 'LIST') {
+      const listType = ascii(b, body, 4);
+      out.structure.push(`LIST/${listType}`);
+      if (listType === 'INFO') {
+        let o = body + 4;
+        while (o + 8 <= Math.min(b.length, body + size)) {
+          const itemSize = u32le(b, o + 4);
+          addTag(out, 'LIST/INFO', ascii(b, o, 4), text(b, o + 8, itemSize, latin1));
+          o += 8 + itemSize + (itemSize % 2);
+        }
+      }
+    } else {
+      out.structure.push(id.trim());
+    }
+
+    if (id === 'fmt ') {
+      let tag = u16le(b, body);
+      if (tag === 0xfffe && size >= 26) {
+        const validBits = u16le(b, body + 18);
+        const containerBits = u16le(b, body + 14);
+        if (validBits && validBits < containerBits) note(out, `${validBits} valid bits per sample in ${containerBits}-bit containers.`);
+        tag = u16le(b, body + 24);
+      }
+      fmt = {
+        tag,
+        channels: u16le(b, body + 2),
+        rate: u32le(b, body + 4),
+        byteRate: u32le(b, body + 8),
+        blockAlign: u16le(b, body + 12),
+        bits: u16le(b, body + 14)
+      };
+      out.bitrateMode = PCM_TAGS.has(tag) ? 'uncompressed' : 'CBR';
+      if (PCM_TAGS.has(tag)) {
+        const expectedAlign = fmt.channels * Math.ceil(fmt.bits / 8);
+        if (fmt.blockAlign !== expectedAlign) warn(out, `fmt block align is ${fmt.blockAlign} bytes; ${fmt.channels} channel(s) of ${fmt.bits}-bit samples need ${expectedAlign}.`);
+        if (fmt.byteRate !== fmt.rate * fmt.blockAlign) warn(out, `fmt byte rate ${fmt.byteRate} disagrees with sample rate x block align (${fmt.rate * fmt.blockAlign}).`);
+      }
+    } else if (id === 'data') {
+      if (!fmt) warn(out, "data chunk precedes the fmt chunk.");
+      if (body + size > b.length) warn(out, `data chunk declares ${size} bytes but only ${b.length - body} are present (truncated).`);
+      else if (fmt && fmt.blockAlign > 0 && size % fmt.blockAlign !== 0) warn(out, `data length ${size} is not a whole number of ${fmt.blockAlign}-byte sample frames.`);
+    } else if (id === 'bext') {
+      addTag(out, 'bext', 'Description', text(b, body, 256, latin1));
+      addTag(out, 'bext', 'Originator', text(b, body + 256, 32, latin1));
+      addTag(out, 'bext', 'OriginatorReference', text(b, body + 288, 32, latin1));
+      addTag(out, 'bext', 'OriginationDate', `${text(b, body + 320, 10, latin1)} ${text(b, body + 330, 8, latin1)}`.trim());
+      if (size > 602) addTag(out, 'bext', 'CodingHistory', text(b, body + 602, size - 602, latin1).replace(/\s+/g, ' '));
+    } else if (id === 'id3 ' || id === 'ID3 ') {
+      if (ascii(b, body, 3) === 'ID3') inspectId3v2(b, body, out);
+    }
+
+    offset = body + size + (size % 2);
+  }
+  if (!fmt) warn(out, "No fmt chunk; the stream parameters are undeclared.");
+};
+
+// --- MPEG audio ---
+
+// LAME tag VBR method nibble
+const LAME_MODES: Record<number, BitrateMode> = { 1: 'CBR', 8: 'CBR', 2: 'ABR', 9: 'ABR', 3: 'VBR', 4: 'VBR', 5: 'VBR', 6: 'VBR' };
+
+const inspectMpeg = (b: Uint8Array, out: Inspection) => {
+  const id3 = id3v2Length(b);
+  if (id3 > 0) inspectId3v2(b, 0, out);
+  const first = findFirstMpegFrame(b);
+  if (!first) {
+    warn(out, "No valid MPEG audio frame found.");
+    return;
+  }
+  if (first.offset > id3) note(out, `${first.offset - id3} bytes of unrecognised data precede the first frame.`);
+
+  // Xing/Info (LAME, FFmpeg) or VBRI (Fraunhofer) header in the first frame
+  let declaredMode: BitrateMode | null = null;
+  let declaredFrames: number | null = null;
+  const xing = xingOffset(first);
+  const xingTag = ascii(b, xing, 4);
+  if (xingTag === 'Xing' || xingTag === 'Info') {
+    out.structure.push(xingTag);
+    declaredMode = xingTag === 'Xing' ? 'VBR' : 'CBR';
+    const flags = b[xing + 7];
+    let o = xing + 8;
+    if (flags & 0x01) { declaredFrames = u32be(b, o); o += 4; }
+    if (flags & 0x02) o += 4;
+    if (flags & 0x04) o += 100;
+    if (flags & 0x08) o += 4;
+    const encoder = text(b, o, 9, latin1);
+    if (/^[A-Za-z]{3,4}\d/.test(encoder)) {
+      out.structure.push('LAME');
+      addTag(out, 'LAME tag', 'encoder', encoder);
+      declaredMode = LAME_MODES[b[o + 9] & 0x0f] || declaredMode;
+      if (b[o + 10]) addTag(out, 'LAME tag', 'lowpass', `${b[o + 10] * 100} Hz`);
+      const delay = (b[o + 21] << 4) | (b[o + 22] >> 4);
+      const padding = ((b[o + 22] & 0x0f) << 8) | b[o + 23];
+      addTag(out, 'LAME tag', 'delay/padding', `${delay}/${padding} samples`);
+    }
+  } else if (ascii(b, first.offset + 36, 4) === 'VBRI') {
+    out.structure.push('VBRI');
+    declaredMode = 'VBR';
+    declaredFrames = u32be(b, first.offset + 36 + 14);
+    addTag(out, 'VBRI', 'encoder', 'Fraunhofer (VBRI header)');
+  } else {
+    note(out, "No Xing/Info or LAME header; the encoder left no identification in the stream.");
+  }
+
+  if (first.frameLength === 0) {
+    out.bitrateMode = declaredMode || 'unknown';
+    note(out, `Layer ${'I'.repeat(first.layer)} frames are not walked; bitrate consistency was not checked.`);
+    return;
+  }
+
+  // Walk every frame; the info frame itself carries no audio
+  const bitrates = new Map<number, number>();
+  const rates = new Set<number>();
+  let frames = 0;
+  let junk = 0;
+  let gaps = 0;
+  const end = b.length - (hasId3v1(b) ? 128 : 0);
+  let o = declaredMode ? first.offset + first.frameLength : first.offset;
+  while (o + 4 <= end) {
+    const header = parseMpegHeader(b, o);
+    if (!header || header.frameLength === 0) {
+      let next = o + 1;
+      while (next + 4 <= end && !parseMpegHeader(b, next)) next++;
+      if (next + 4 > end) {
+        note(out, `${end - o} bytes of non-audio data follow the last frame.`);
+        break;
+      }
+      junk += next - o;
+      gaps++;
+      o = next;
+      continue;
+    }
+    frames++;
+    bitrates.set(header.bitrateKbps, (bitrates.get(header.bitrateKbps) || 0) + 1);
+    rates.add(header.sampleRate);
+    o += header.frameLength;
+  }
+  if (hasId3v1(b)) inspectId3v1(b, out);
+
+  const measuredMode: BitrateMode = bitrates.size > 1 ? 'VBR' : 'CBR';
+  out.bitrateMode = declaredMode || measuredMode;
+  out.structure.push(`${frames} frames`);
+  if (declaredMode === 'CBR' && bitrates.size > 1) {
+    warn(out, `Header declares CBR but frames use ${bitrates.size} different bitrates.`);
+  } else if ((declaredMode === 'VBR' || declaredMode === 'ABR') && bitrates.size === 1 && frames >= 20) {
+    warn(out, `Header declares ${declaredMode} but all ${frames} frames use ${[...bitrates.keys()][0]} kbps (unusually uniform).`);
+  }
+  if (declaredFrames !== null && Math.abs(declaredFrames - frames) > 1) {
+    warn(out, `Info header counts ${declaredFrames} frames but the stream has ${frames} (edited or truncated after encoding).`);
+  }
+  if (rates.size > 1) warn(out, `Sample rate changes mid-stream (${[...rates].join(', ')} Hz).`);
+  if (gaps > 0) warn(out, `${gaps} loss(es) of frame sync with ${junk} bytes of non-audio data between frames (spliced or damaged stream).`);
+};
+
+// --- FLAC ---
+
+const FLAC_BLOCKS = ['STREAMINFO', 'PADDING', 'APPLICATION', 'SEEKTABLE', 'VORBIS_COMMENT', 'CUESHEET', 'PICTURE'];
+
+const inspectFlac = (b: Uint8Array, start: number, out: Inspection) => {
+  if (start > 0) inspectId3v2(b, 0, out);
+  out.bitrateMode = 'lossless';
+  let o = start + 4;
+  let last = false;
+  while (!last && o + 4 <= b.length) {
+    last = (b[o] & 0x80) !== 0;
+    const type = b[o] & 0x7f;
+    const size = (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3];
+    const body = o + 4;
+    out.structure.push(FLAC_BLOCKS[type] || `block ${type}`);
+    if (body + size > b.length) {
+      warn(out, `${FLAC_BLOCKS[type] || 'Metadata'} block runs past the end of the file (truncated).`);
+      return;
+    }
+    if (type === 0) {
+      if (b.subarray(body + 18, body + 34).every(x => x === 0)) note(out, "STREAMINFO MD5 is unset; the encoder did not checksum the audio.");
+      if (((b[body + 13] & 0x0f) | b[body + 14] | b[body + 15] | b[body + 16] | b[body + 17]) === 0) note(out, "STREAMINFO does not declare the total sample count.");
+    } else if (type === 2) {
+      addTag(out, 'FLAC', 'application', ascii(b, body, 4));
+    } else if (type === 4) {
+      inspectVorbisComment(b, body, body + size, out);
+    }
+    o = body + size;
+  }
+  if (o + 2 <= b.length && !(b[o] === 0xff && (b[o + 1] & 0xfe) === 0xf8)) warn(out, "Audio frames do not start right after the metadata blocks.");
+};
+
+// --- Ogg ---
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let k = 0; k < 8; k++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+// Page checksum, computed with the stored CRC field zeroed
+const oggPageCrc = (b: Uint8Array, start: number, length: number) => {
+  let crc = 0;
+  for (let i = 0; i < length; i++) {
+    const byte = i >= 22 && i < 26 ? 0 : b[start + i];
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+const HEADER_PACKETS = 3;
+
+const inspectOgg = (b: Uint8Array, out: Inspection) => {
+  // Reassemble the first stream's header packets; later packets only contribute their size
+  const headers: Uint8Array[] = [];
+  const audioSizes: number[] = [];
+  let pending: Uint8Array[] = [];
+  let pendingSize = 0;
+  const lastSequence = new Map<number, number>();
+  let firstSerial: number | null = null;
+  let pages = 0;
+  let badCrc = 0;
+  let gaps = 0;
+  let sawEos = false;
+
+  let o = 0;
+  while (o + 27 <= b.length) {
+    if (ascii(b, o, 4) !== 'OggS') {
+      const next = b.indexOf(0x4f, o + 1);
+      if (next < 0) break;
+      o = next;
+      continue;
+    }
+    const segments = b[o + 26];
+    let bodyLength = 0;
+    for (let i = 0; i < segments; i++) bodyLength += b[o + 27 + i];
+    const pageLength = 27 + segments + bodyLength;
+    if (o + pageLength > b.length) {
+      warn(out, "Last Ogg page is cut short (truncated file).");
+      break;
+    }
+    pages++;
+    if (u32le(b, o + 22) !== oggPageCrc(b, o, pageLength)) badCrc++;
+    if (b[o + 5] & 0x04) sawEos = true;
+
+    const serial = u32le(b, o + 14);
+    const sequence = u32le(b, o + 18);
+    const previous = lastSequence.get(serial);
+    if (previous !== undefined && sequence !== previous + 1) gaps++;
+    lastSequence.set(serial, sequence);
+    if (firstSerial === null) firstSerial = serial;
+
+    if (serial === firstSerial) {
+      let p = o + 27 + segments;
+      for (let i = 0; i < segments; i++) {
+        const lace = b[o + 27 + i];
+        if (headers.length < HEADER_PACKETS) pending.push(b.subarray(p, p + lace));
+        pendingSize += lace;
+        p += lace;
+        if (lace < 255) {
+          if (headers.length < HEADER_PACKETS) {
+            const packet = new Uint8Array(pendingSize);
+            let at = 0;
+            for (const part of pending) { packet.set(part, at); at += part.length; }
+            headers.push(packet);
+          } else {
+            audioSizes.push(pendingSize);
+          }
+          pending = [];
+          pendingSize = 0;
+        }
+      }
+    }
+    o += pageLength;
+  }
+
+  out.structure.push(`${pages} pages`);
+  if (lastSequence.size > 1) note(out, `${lastSequence.size} logical streams (chained or multiplexed file).`);
+  if (badCrc > 0) warn(out, `${badCrc} of ${pages} pages fail their CRC check (modified after muxing).`);
+  if (gaps > 0) warn(out, `${gaps} gap(s) in the page sequence (pages removed or reordered).`);
+  if (pages > 0 && !sawEos) note(out, "No end-of-stream page; the stream was cut off or still being written.");
+
+  const [ident, comments] = headers;
+  if (!ident) return;
+  if (ascii(ident, 0, 7) === '\x01vorbis') {
+    out.structure.push('Vorbis identification');
+    const toKbps = (o: number) => { const v = u32le(ident, o); return v > 0 && v < 0x80000000 ? Math.round(v / 1000) : 0; };
+    const [max, nominal, min] = [toKbps(16), toKbps(20), toKbps(24)];
+    if (nominal) addTag(out, 'Vorbis', 'bitrate (max/nominal/min)', `${max || '-'}/${nominal}/${min || '-'} kbps`);
+    out.bitrateMode = max && max === min ? 'CBR' : max || min ? 'ABR' : 'VBR';
+    if (comments && ascii(comments, 0, 7) === '\x03vorbis') {
+      out.structure.push('Vorbis comment');
+      inspectVorbisComment(comments, 7, comments.length, out);
+    }
+  } else if (ascii(ident, 0, 8) === 'OpusHead') {
+    out.structure.push('OpusHead');
+    const inputRate = u32le(ident, 12);
+    if (inputRate) {
+      addTag(out, 'OpusHead', 'input sample rate', `${inputRate} Hz`);
+      if (inputRate !== 48000) note(out, `Encoder input was ${inputRate} Hz (Opus always decodes at 48 kHz).`);
+    }
+    if (comments && ascii(comments, 0, 8) === 'OpusTags') {
+      out.structure.push('OpusTags');
+      inspectVorbisComment(comments, 8, comments.length, out);
+    }
+    // Hard-CBR Opus emits packets of one fixed size; the final packet may be short
+    const sizes = new Set(audioSizes.slice(0, -1));
+    out.bitrateMode = audioSizes.length > 1 ? (sizes.size === 1 ? 'CBR' : 'VBR') : 'unknown';
+  } else if (ascii(ident, 0, 5) === '\x7fFLAC') {
+    out.structure.push('FLAC mapping');
+    out.bitrateMode = 'lossless';
+    if (comments && (comments[0] & 0x7f) === 4) inspectVorbisComment(comments, 4, comments.length, out);
+  }
+};
+
+// --- MP4 ---
+
+const inspectMp4 = (b: Uint8Array, out: Inspection) => {
+  let o = 0;
+  while (o + 8 <= b.length) {
+    const size = u32be(b, o) === 1 ? u32be(b, o + 8) * 2 ** 32 + u32be(b, o + 12) : u32be(b, o) || b.length - o;
+    out.structure.push(ascii(b, o + 4, 4));
+    if (size < 8) break;
+    o += size;
+  }
+  const ftyp = findMp4Box(b, ['ftyp']);
+  if (ftyp) {
+    addTag(out, 'ftyp', 'major brand', ascii(b, ftyp.offset, 4));
+    const brands: string[] = [];
+    for (let p = ftyp.offset + 8; p + 4 <= Math.min(b.length, ftyp.offset + ftyp.size); p += 4) brands.push(ascii(b, p, 4));
+    addTag(out, 'ftyp', 'compatible brands', brands.join(', '));
+  }
+  // 'meta' is a full box: four bytes of version/flags precede its children
+  const meta = findMp4Box(b, ['moov', 'udta', 'meta']);
+  const ilst = meta && findMp4Box(b, ['ilst'], meta.offset + 4, meta.offset + meta.size);
+  if (ilst) {
+    let p = ilst.offset;
+    while (p + 8 <= ilst.offset + ilst.size) {
+      const itemSize = u32be(b, p);
+      if (itemSize < 8) break;
+      const key = ascii(b, p + 4, 4);
+      const data = findMp4Box(b, ['data'], p + 8, p + itemSize);
+      // Well-known type 1 is UTF-8 text
+      if (data && u32be(b, data.offset) === 1) addTag(out, 'iTunes', key, text(b, data.offset + 8, data.size - 8));
+      p += itemSize;
+    }
+  }
+  const stsd = findMp4Box(b, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stsd']);
+  out.bitrateMode = stsd && ascii(b, stsd.offset + 12, 4) === 'alac' ? 'lossless' : 'unknown';
+};
+
+// --- Other containers ---
+
+const inspectAiff = (b: Uint8Array, out: Inspection) => {
+  out.bitrateMode = ascii(b, 8, 4) === 'AIFF' ? 'uncompressed' : 'unknown';
+  let o = 12;
+  while (o + 8 <= b.length) {
+    const id = ascii(b, o, 4);
+    const size = u32be(b, o + 4);
+    out.structure.push(id.trim());
+    if (id === 'NAME' || id === 'AUTH' || id === 'ANNO' || id === '(c) ') addTag(out, 'AIFF', id.trim(), text(b, o + 8, size, latin1));
+    if (id === 'ID3 ' && ascii(b, o + 8, 3) === 'ID3') inspectId3v2(b, o + 8, out);
+    o += 8 + size + (size % 2);
+  }
+};
+
+// EBML variable-length integer: the count of leading zero bits gives its width
+const readVint = (b: Uint8Array, o: number) => {
+  let width = 1;
+  while (width <= 8 && !(b[o] & (0x80 >> (width - 1)))) width++;
+  let value = b[o] & (0xff >> width);
+  for (let i = 1; i < width; i++) value = value * 256 + b[o + i];
+  return { value, width };
+};
+
+const inspectMatroska = (b: Uint8Array, out: Inspection) => {
+  out.structure.push('EBML');
+  // MuxingApp (0x4D80) and WritingApp (0x5741) sit in the segment info near the start
+  const limit = Math.min(b.length - 3, 65536);
+  for (let o = 0; o < limit; o++) {
+    const key = b[o] === 0x4d && b[o + 1] === 0x80 ? 'MuxingApp' : b[o] === 0x57 && b[o + 1] === 0x41 ? 'WritingApp' : null;
+    if (!key || out.tags.some(t => t.key === key)) continue;
+    const { value, width } = readVint(b, o + 2);
+    if (value > 0 && value < 256) addTag(out, 'Matroska', key, text(b, o + 2 + width, value));
+  }
+  out.bitrateMode = 'unknown';
+};
+
+// --- Cross-checks ---
+
+const firstTagValue = (tags: MetadataTag[], keys: string[]) => {
+  for (const key of keys) {
+    const tag = tags.find(t => `${t.block}:${t.key}` === key);
+    if (tag) return tag.value;
+  }
+  return null;
+};
+
+export const inspectContainer = (bytes: Uint8Array, fileName?: string): ContainerForensics => {
+  const format = probeAudioFormat(bytes);
+  const out: Inspection = {
+    container: format.container,
+    codec: format.codec,
+    bitrateMode: 'unknown',
+    structure: [],
+    tags: [],
+    findings: []
+  };
+
+  const magic = ascii(bytes, 0, 4);
+  const id3 = id3v2Length(bytes);
+  if (format.container === 'WAV') inspectWav(bytes, out);
+  else if (magic === 'fLaC') inspectFlac(bytes, 0, out);
+  else if (format.container === 'FLAC' && id3 > 0) inspectFlac(bytes, id3, out);
+  else if (format.container === 'Ogg') inspectOgg(bytes, out);
+  else if (format.container === 'MP4') inspectMp4(bytes, out);
+  else if (format.container.startsWith('AIFF')) inspectAiff(bytes, out);
+  else if (format.container === 'WebM') inspectMatroska(bytes, out);
+  else if (format.container === 'MP3' || format.container === 'MPEG audio') inspectMpeg(bytes, out);
+
+  const extension = fileName?.includes('.') ? fileName.split('.').pop()!.toLowerCase() : null;
+  const expected = EXTENSIONS[out.container];
+  if (extension && expected && !expected.includes(extension)) {
+    warn(out, `File extension .${extension} does not match its ${out.container} content (renamed or re-wrapped).`);
+  }
+
+  for (const tag of out.tags) {
+    if (SYNTHESIS_PATTERN.test(tag.value)) warn(out, `${tag.block} ${tag.key} names a speech-synthesis tool: "${tag.value}".`);
+  }
+
+  const encoder = firstTagValue(out.tags, ENCODER_TAGS);
+  const software = firstTagValue(out.tags, SOFTWARE_TAGS);
+  if ([encoder, software].some(v => v && /^Lav[fc]\d|ffmpeg/i.test(v))) {
+    note(out, "Written by FFmpeg (libavformat/libavcodec), as most automated conversion pipelines are.");
+  }
+  if (out.tags.length === 0) note(out, "No metadata tags; the file carries no authoring trail.");
+
+  return { ...out, encoder, software, createdAt: firstTagValue(out.tags, DATE_TAGS) };
+};
@@ -0,0 +1,181 @@
+import { Calibration, DetectionProfile } from "../types";
+
+// --- Detection Profiles ---
+
+export const DEFAULT_PROFILE: DetectionProfile = {
+  id: 'default',
+  name: 'Default',
+  description: 'Wideband recordings from laptops, phones and headsets.',
+  builtIn: true,
+  thresholds: {
+    activeRmsGate: 0.01,        // -40 dB after peak normalization
+    minSpeechSec: 1,
+    minActiveRatio: 0.05,
+    maxClippingPct: 1,
+    minSnrDb: 10,
+    bandwidthLimitHz: 17000,
+    cleanNoiseFloorDb: -75,
+    rolloffStdHz: 200,
+    digitalSilenceRun: 1000,    // ~20ms at 44.1kHz
+    rmsCV: 0.4,
+    smoothJitterPct: 0.15,       // frame-level; 1% cycle jitter measures ~0.2%
+    monotonePitchSt: 1.5,
+    phaseIncoherence: 0.35,      // Griffin-Lim phase measures ~0.5, a locked glottal source ~0.02
+    highBandPeriodicity: 0.5,
+    smoothMfccDelta: 0.25,
+    fastModulationRatio: 0.02,
+    ltasSlopeDeviationDb: 7,
+    codecDiscountPct: 75,        // a certain codec keeps a quarter of the points it can explain
+    decisionThreshold: 35
+  },
+  weights: {
+    bandwidthClean: 40,
+    bandwidthNoisy: -30,
+    fullBandwidth: -10,
+    rolloffRigid: 35,
+    rolloffNatural: -20,
+    digitalSilence: 25,
+    lowDynamicRange: 15,
+    identicalChannels: 10,
+    smoothProsody: 20,
+    naturalProsody: -15,
+    monotonePitch: 10,
+    incoherentPhase: 20,
+    highBandPeaks: 20,
+    smoothMfcc: 10,
+    smoothModulation: 10,
+    unnaturalLtas: 10
+  }
+};
+
+export const PRESET_PROFILES: DetectionProfile[] = [
+  DEFAULT_PROFILE,
+  {
+    id: 'telephony-8k',
+    name: 'Telephony 8 kHz',
+    description: 'Narrowband call audio. The channel itself band-limits every voice, and VoIP DTX inserts zero-fill.',
+    builtIn: true,
+    thresholds: {
+      ...DEFAULT_PROFILE.thresholds,
+      bandwidthLimitHz: 3000,
+      rolloffStdHz: 100,
+      digitalSilenceRun: 4000
+    },
+    weights: {
+      ...DEFAULT_PROFILE.weights,
+      // Bandwidth says nothing about the source on a phone line
+      bandwidthClean: 0,
+      bandwidthNoisy: 0,
+      fullBandwidth: 0,
+      digitalSilence: 10,
+      // Call recorders often write the same mono mix to both channels
+      identicalChannels: 0,
+      // Line equalization and codecs reshape the long-term spectrum
+      unnaturalLtas: 0
+    }
+  },
+  {
+    id: 'podcast-studio',
+    name: 'Podcast / Studio',
+    description: 'Treated rooms and broadcast processing: very low noise floors and heavy compression are normal.',
+    builtIn: true,
+    thresholds: {
+      ...DEFAULT_PROFILE.thresholds,
+      cleanNoiseFloorDb: -90,
+      rmsCV: 0.25,
+      // Compression fills the dips between words the SNR estimate looks for
+      minSnrDb: 6
+    },
+    weights: {
+      ...DEFAULT_PROFILE.weights,
+      lowDynamicRange: 5
+    }
+  }
+];
+
+const CUSTOM_PROFILES_KEY = 'sigspec.customProfiles';
+const ACTIVE_PROFILE_KEY = 'sigspec.activeProfileId';
+
+const isNumberRecord = (value: unknown, keys: string[]): boolean =>
+  typeof value === 'object' && value !== null &&
+  keys.every(k => typeof (value as Record<string, unknown>)[k] === 'number' && isFinite((value as Record<string, number>)[k]));
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'number' && isFinite(v));
+
+// A calibration must carry the parameters of its method; anything else is rejected
+// rather than silently turning calibrated confidence back into the heuristic
+const parseCalibration = (value: unknown): Calibration => {
+  const c = value as Calibration;
+  const valid = typeof c === 'object' && c !== null && typeof c.fittedAt === 'string' &&
+    isNumberRecord(c.corpus, ['human', 'ai']) && (
+      (c.method === 'platt' && isNumberRecord(c.platt, ['a', 'b'])) ||
+      (c.method === 'isotonic' && isNumberArray(c.isotonic?.scores) && isNumberArray(c.isotonic?.probabilities) &&
+        c.isotonic!.scores.length > 0 && c.isotonic!.scores.length === c.isotonic!.probabilities.length)
+    );
+  if (!valid) throw new Error("Invalid detection profile: malformed calibration.");
+  return c.method === 'platt'
+    ? { method: c.method, fittedAt: c.fittedAt, corpus: { human: c.corpus.human, ai: c.corpus.ai }, platt: { a: c.platt!.a, b: c.platt!.b } }
+    : { method: c.method, fittedAt: c.fittedAt, corpus: { human: c.corpus.human, ai: c.corpus.ai }, isotonic: { scores: c.isotonic!.scores, probabilities: c.isotonic!.probabilities } };
+};
+
+// Validates untrusted JSON (imports and localStorage) against the profile shape.
+// Keys added in later versions fall back to the default profile's values.
+export const parseProfile = (value: unknown): DetectionProfile => {
+  const p = value as DetectionProfile;
+  const isObject = (v: unknown) => typeof v === 'object' && v !== null;
+  const thresholds = { ...DEFAULT_PROFILE.thresholds, ...(isObject(p?.thresholds) ? p.thresholds : {}) };
+  const weights = { ...DEFAULT_PROFILE.weights, ...(isObject(p?.weights) ? p.weights : {}) };
+  if (
+    !isObject(p) ||
+    typeof p.id !== 'string' || !p.id ||
+    typeof p.name !== 'string' || !p.name ||
+    !isObject(p.thresholds) || !isObject(p.weights) ||
+    !isNumberRecord(thresholds, Object.keys(DEFAULT_PROFILE.thresholds)) ||
+    !isNumberRecord(weights, Object.keys(DEFAULT_PROFILE.weights))
+  ) {
+    throw new Error("Invalid detection profile: expected id, name, and numeric thresholds and weights.");
+  }
+  // Extractor switches are optional; anything that is not a boolean is dropped
+  const extractors = Object.fromEntries(
+    Object.entries(isObject(p.extractors) ? p.extractors! : {}).filter(([, v]) => typeof v === 'boolean')
+  );
+  return {
+    id: p.id,
+    name: p.name,
+    description: typeof p.description === 'string' ? p.description : '',
+    thresholds,
+    ...(Object.keys(extractors).length > 0 ? { extractors } : {}),
+    ...(p.calibration !== undefined ? { calibration: parseCalibration(p.calibration) } : {}),
+    weights
+  };
+};
+
+export const parseProfileJson = (text: string): DetectionProfile => parseProfile(JSON.parse(text));
+
+export const profileToJson = (profile: DetectionProfile) => {
+  const { builtIn, ...rest } = profile;
+  return JSON.stringify(rest, null, 2);
+};
+
+export const loadCustomProfiles = (): DetectionProfile[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_PROFILES_KEY);
+    if (!raw) return [];
+    return (JSON.parse(raw) as unknown[]).map(parseProfile);
+  } catch (err) {
+    console.warn("Ignoring unreadable custom profiles:", err);
+    return [];
+  }
+};
+
+export const saveCustomProfiles = (profiles: DetectionProfile[]) => {
+  localStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify(profiles.map(p => JSON.parse(profileToJson(p)))));
+};
+
+export const loadActiveProfileId = (): string => localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE.id;
+
+export const saveActiveProfileId = (id: string) => localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+
+export const findProfile = (id: string, custom: DetectionProfile[]): DetectionProfile =>
+  [...PRESET_PROFILES, ...custom].find(p => p.id === id) || DEFAULT_PROFILE;
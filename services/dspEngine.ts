@@ -0,0 +1,585 @@
+import { AnalysisResult, ChannelResult, DetectionProfile, EvidenceTracks, LongTermSpectrum, SegmentVerdict, SourceFormat, StereoCheck } from "../types";
+import { getRealFFT } from "./fft";
+import { DEFAULT_PROFILE } from "./detectionProfiles";
+import { PitchEstimate, estimatePitch } from "./pitchTracker";
+import { detectBreathing } from "./breathDetector";
+import { FileContext, isExtractorEnabled, runExtractors } from "./featureRegistry";
+import { calibratedProbability } from "./calibration";
+import { assessQuality, countClippedSamples } from "./qualityGate";
+import { detectTranscoding } from "./transcodingDetector";
+
+// --- Local DSP Engine ---
+// Pure feature extraction and scoring over raw samples. Nothing in this module touches
+// the DOM or Web Audio, so it runs unchanged inside the analysis worker.
+
+// --- DSP Utilities ---
+
+// Peak-normalizes to 0.95 in place
+const normalizeSamples = (data: Float32Array): Float32Array => {
+  let maxPeak = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (Math.abs(data[i]) > maxPeak) maxPeak = Math.abs(data[i]);
+  }
+  const scalar = maxPeak > 0 ? 0.95 / maxPeak : 1;
+  for (let i = 0; i < data.length; i++) data[i] *= scalar;
+  return data;
+};
+
+// Magnitude buffers reused across frames, one per FFT size
+const spectrumScratch = new Map<number, Float32Array>();
+
+const getMagnitudeSpectrum = (frame: Float32Array): Float32Array => {
+  const n = frame.length;
+  let out = spectrumScratch.get(n);
+  if (!out) {
+    out = new Float32Array(n / 2);
+    spectrumScratch.set(n, out);
+  }
+  // Hann-windowed; the engine leaves the frame untouched
+  return getRealFFT(n).magnitudeSpectrum(frame, out, 'hann');
+};
+
+// --- Shared Feature Extraction ---
+
+export const FFT_SIZE = 2048;
+export const HOP_SIZE = 1024; // 50% overlap
+
+export interface SpectralFrameFeatures {
+  rolloffHz: number;
+  centroidHz: number;
+  flatness: number;
+  speechBandFlatness: number; // 100 Hz - 4 kHz only, where breath noise competes with harmonics
+}
+
+// Frame statistics shared by every feature extractor
+export interface SignalFeatures {
+  avgRolloff: number;
+  stdRolloff: number;
+  avgCentroid: number;
+  avgFlatness: number;
+  rmsCV: number;
+  noiseFloorDb: number;
+  maxZeroRun: number;
+  activeFrames: number; // frames behind the spectral averages; 0 leaves them meaningless
+}
+
+export const frameRms = (frame: Float32Array): number => {
+  let sumSq = 0;
+  for (let s of frame) sumSq += s*s;
+  return Math.sqrt(sumSq / frame.length);
+};
+
+// When `powerSum` is given, the frame's power spectrum is added into it (for the long-term spectrum)
+export const computeSpectralFeatures = (frame: Float32Array, sampleRate: number, powerSum?: Float64Array): SpectralFrameFeatures => {
+  const spectrum = getMagnitudeSpectrum(frame);
+  const binWidth = sampleRate / frame.length;
+  if (powerSum) {
+    for (let j = 0; j < powerSum.length; j++) powerSum[j] += spectrum[j] * spectrum[j];
+  }
+
+  // Spectral Rolloff (Frequency below which 85% of energy distribution lies)
+  let totalEnergy = 0;
+  for(let mag of spectrum) totalEnergy += mag;
+
+  let accumEnergy = 0;
+  let rolloffBin = 0;
+  const thresholdEnergy = 0.85 * totalEnergy;
+
+  for(let j=0; j<spectrum.length; j++) {
+    accumEnergy += spectrum[j];
+    if (accumEnergy >= thresholdEnergy) {
+      rolloffBin = j;
+      break;
+    }
+  }
+
+  // Spectral Centroid
+  let weightedSum = 0;
+  for(let j=0; j<spectrum.length; j++) weightedSum += j * spectrum[j];
+  const centroid = (weightedSum / (totalEnergy + 0.0001)) * binWidth;
+
+  // Spectral Flatness (Geometric Mean / Arithmetic Mean)
+  // AI tends to be peakier (lower flatness) in voiced segments
+  let sumMag = 0;
+  let logSum = 0; // using log sum to avoid overflow
+  for(let j=0; j<spectrum.length; j++) {
+     const val = spectrum[j] + 1e-10;
+     sumMag += val;
+     logSum += Math.log(val);
+  }
+  const geoMean = Math.exp(logSum / spectrum.length);
+  const ariMean = sumMag / spectrum.length;
+
+  const bandLo = Math.max(1, Math.floor(100 / binWidth));
+  const bandHi = Math.min(spectrum.length, Math.ceil(4000 / binWidth));
+  let bandSum = 0;
+  let bandLogSum = 0;
+  for (let j = bandLo; j < bandHi; j++) {
+    const val = spectrum[j] + 1e-10;
+    bandSum += val;
+    bandLogSum += Math.log(val);
+  }
+  const bandCount = Math.max(1, bandHi - bandLo);
+
+  return {
+    rolloffHz: rolloffBin * binWidth,
+    centroidHz: centroid,
+    flatness: geoMean / (ariMean + 1e-10),
+    speechBandFlatness: Math.exp(bandLogSum / bandCount) / (bandSum / bandCount + 1e-10)
+  };
+};
+
+export interface FrameRecord {
+  startSample: number;
+  rms: number;
+  spectral: SpectralFrameFeatures | null;
+  pitch?: PitchEstimate | null; // only computed for gated-in frames
+  clipped?: number;             // clipped samples in the frame's first hop (see qualityGate.ts)
+}
+
+export interface ZeroRun {
+  startSample: number;
+  length: number;
+}
+
+const mean = (values: number[]) => values.reduce((a,b)=>a+b,0) / (values.length||1);
+const std = (values: number[], avg: number) =>
+  Math.sqrt(values.reduce((a,b)=>a + Math.pow(b-avg,2), 0) / (values.length||1));
+
+// Reduces per-frame records to the statistics the classifier consumes.
+// Spectral features only count for frames above the profile's active-speech gate.
+export const aggregateFeatures = (frames: FrameRecord[], maxZeroRun: number, activeRmsGate: number): SignalFeatures => {
+  const frameRMS: number[] = [];
+  const frameRolloffs: number[] = [];
+  const frameCentroids: number[] = [];
+  const frameFlatness: number[] = [];
+  let minRMS = 1.0;
+
+  for (const frame of frames) {
+    frameRMS.push(frame.rms);
+    if (frame.rms > 0.00001 && frame.rms < minRMS) minRMS = frame.rms;
+    if (frame.rms > activeRmsGate && frame.spectral) {
+      frameRolloffs.push(frame.spectral.rolloffHz);
+      frameCentroids.push(frame.spectral.centroidHz);
+      frameFlatness.push(frame.spectral.flatness);
+    }
+  }
+
+  // Bandwidth Consistency (Rolloff Variance)
+  // Low variance in rolloff suggests a fixed brick-wall filter (AI).
+  // High variance suggests natural phoneme variation (Human).
+  const avgRolloff = mean(frameRolloffs);
+  const rmsMean = mean(frameRMS);
+
+  return {
+    avgRolloff,
+    stdRolloff: std(frameRolloffs, avgRolloff),
+    avgCentroid: mean(frameCentroids),
+    avgFlatness: mean(frameFlatness),
+    rmsCV: rmsMean > 0 ? std(frameRMS, rmsMean) / rmsMean : 0,
+    noiseFloorDb: 20 * Math.log10(minRMS + 1e-9),
+    maxZeroRun,
+    activeFrames: frameRolloffs.length
+  };
+};
+
+// --- TIMELINE SEGMENTATION ---
+
+const MIN_SEGMENT_SEC = 2;
+const MAX_SEGMENT_SEC = 5;
+
+// Splits the frame sequence into 2-5s windows, preferring to cut on the first silent
+// frame after the minimum length so a spliced sentence tends to land in its own window.
+const segmentFrames = (frames: FrameRecord[], sampleRate: number, activeRmsGate: number): FrameRecord[][] => {
+  const minFrames = Math.ceil((MIN_SEGMENT_SEC * sampleRate) / HOP_SIZE);
+  const maxFrames = Math.floor((MAX_SEGMENT_SEC * sampleRate) / HOP_SIZE);
+  const segments: FrameRecord[][] = [];
+  let current: FrameRecord[] = [];
+
+  for (const frame of frames) {
+    current.push(frame);
+    const isSilent = frame.rms <= activeRmsGate;
+    if ((current.length >= minFrames && isSilent) || current.length >= maxFrames) {
+      segments.push(current);
+      current = [];
+    }
+  }
+
+  // A short trailing remainder is folded into the previous window
+  if (current.length > 0) {
+    if (current.length < minFrames / 2 && segments.length > 0) {
+      segments[segments.length - 1].push(...current);
+    } else {
+      segments.push(current);
+    }
+  }
+  return segments;
+};
+
+export const analyzeSegments = (
+  frames: FrameRecord[],
+  zeroRuns: ZeroRun[],
+  sampleRate: number,
+  profile: DetectionProfile
+): SegmentVerdict[] => {
+  const verdicts: SegmentVerdict[] = [];
+  const gate = profile.thresholds.activeRmsGate;
+
+  for (const segment of segmentFrames(frames, sampleRate, gate)) {
+    // Silent windows carry no speech to judge
+    if (!segment.some(f => f.rms > gate)) continue;
+
+    const startSample = segment[0].startSample;
+    const endSample = segment[segment.length - 1].startSample + HOP_SIZE;
+    const maxZeroRun = zeroRuns
+      .filter(r => r.startSample < endSample && r.startSample + r.length > startSample)
+      .reduce((m, r) => Math.max(m, Math.min(r.startSample + r.length, endSample) - Math.max(r.startSample, startSample)), 0);
+
+    const result = classifyFrames({ frames: segment, sampleRate, maxZeroRun, profile });
+    verdicts.push({
+      startSec: startSample / sampleRate,
+      endSec: endSample / sampleRate,
+      classification: result.classification,
+      confidence: result.confidence,
+      keyObservation: result.keyObservation
+    });
+  }
+  return verdicts;
+};
+
+// --- EVIDENCE TRACKS ---
+
+// Mirrors the gating in aggregateFeatures, so the overlay shows exactly what was scored
+export const buildEvidence = (
+  frames: FrameRecord[],
+  zeroRuns: ZeroRun[],
+  sampleRate: number,
+  profile: DetectionProfile
+): EvidenceTracks => {
+  const gate = profile.thresholds.activeRmsGate;
+  let minRmsFrame: number | null = null;
+  frames.forEach((frame, i) => {
+    if (frame.rms > 0.00001 && (minRmsFrame === null || frame.rms < frames[minRmsFrame].rms)) minRmsFrame = i;
+  });
+
+  return {
+    frameHopSec: HOP_SIZE / sampleRate,
+    frameDurationSec: FFT_SIZE / sampleRate,
+    rolloffHz: frames.map(f => (f.rms > gate && f.spectral ? Math.round(f.spectral.rolloffHz) : null)),
+    centroidHz: frames.map(f => (f.rms > gate && f.spectral ? Math.round(f.spectral.centroidHz) : null)),
+    f0Hz: frames.map(f => (f.rms > gate && f.pitch ? Math.round(f.pitch.f0Hz * 10) / 10 : null)),
+    active: frames.map(f => f.rms > gate),
+    minRmsFrame,
+    digitalSilence: zeroRuns
+      .filter(r => r.length > profile.thresholds.digitalSilenceRun)
+      .map(r => ({ startSec: r.startSample / sampleRate, endSec: (r.startSample + r.length) / sampleRate }))
+  };
+};
+
+// --- CLASSIFICATION SCORING ---
+
+export interface ClassifyInput {
+  frames: FrameRecord[];
+  sampleRate: number;
+  maxZeroRun: number;
+  profile?: DetectionProfile;
+  stereo?: StereoCheck;   // only for channels of a two-channel file
+  file?: FileContext;     // whole-file analysis only
+}
+
+// Scores frames with every extractor the profile enables (see featureRegistry.ts)
+export const classifyFrames = ({ frames, sampleRate, maxZeroRun, profile = DEFAULT_PROFILE, stereo, file }: ClassifyInput): AnalysisResult => {
+  const t = profile.thresholds;
+  const summary = aggregateFeatures(frames, maxZeroRun, t.activeRmsGate);
+  const { avgRolloff, stdRolloff, rmsCV, noiseFloorDb } = summary;
+  const quality = assessQuality(frames, sampleRate, HOP_SIZE, profile);
+  const run = runExtractors({ frames, summary, sampleRate, frameSize: FFT_SIZE, hopSize: HOP_SIZE, profile, stereo, file });
+
+  // Every evaluated rule is recorded, including ones that award nothing,
+  // so a reviewer can see which rule tipped the verdict.
+  const score = run.factors.reduce((sum, f) => sum + f.points, 0); // > 0 leans AI, < 0 leans Human
+  const explanations = run.factors.filter(f => f.points !== 0).map(f => f.rationale);
+
+  // --- DECISION ---
+  // Baseline bias: assume human (score starts 0). 
+  // Need > decisionThreshold (35 by default) to flag as AI.
+  // Input that fails the quality gate keeps its score and factors for review,
+  // but gets no verdict.
+  const isAI = score > t.decisionThreshold;
+  const failedChecks = quality.checks.filter(c => !c.passed);
+  
+  // Confidence calculation. A calibration is fitted on whole-file scores, so segment
+  // and live windows (which run fewer extractors) keep the heuristic.
+  const probabilityAI = file && profile.calibration && quality.passed ? calibratedProbability(profile.calibration, score) : undefined;
+  let confidence = !quality.passed ? 0
+    : probabilityAI !== undefined ? 100 * (isAI ? probabilityAI : 1 - probabilityAI)
+    : 60 + Math.min(39, Math.abs(score)); // 60% to 99%
+
+  // Metrics for UI
+  const regularity = Math.max(0, Math.min(100, (300 - stdRolloff) / 3)); // Map 300Hz dev to 0, 0Hz dev to 100
+  const variation = Math.min(100, rmsCV * 100);
+
+  return {
+    classification: !quality.passed ? 'Inconclusive' : isAI ? 'AI-Generated Voice' : 'Human Voice',
+    confidence: Math.round(confidence),
+    score,
+    ...(probabilityAI !== undefined ? { probabilityAI: Math.round(probabilityAI * 1000) / 1000 } : {}),
+    decisionThreshold: t.decisionThreshold,
+    factors: run.factors,
+    explanation: quality.passed ? explanations.slice(0, 2).join(" ") : failedChecks.map(c => c.reason).join(" "),
+    metrics: {
+      noiseFloorDb: Math.round(noiseFloorDb),
+      frequencyCutoffHz: Math.round(avgRolloff), // Displaying the 85% energy point
+      harmonicRegularityScore: Math.round(regularity),
+      energyVariationScore: Math.round(variation),
+      breathingArtifactsDetected: run.values.breathing ? (run.values.breathing.breaths ?? 0) > 0 : undefined
+    },
+    quality,
+    features: run.results,
+    keyObservation: !quality.passed ? `Input unsuitable: ${failedChecks.map(c => c.label.toLowerCase()).join(', ')}.`
+      : run.observation || (isAI ? "Statistical signal rigidity." : "Natural spectral variance."),
+    profile
+  };
+};
+
+// --- TRUE BANDWIDTH ---
+
+export const BANDWIDTH_EDGE_DB = -60;
+
+// Highest frequency whose long-term average level is within 60 dB of the spectral peak.
+// Unlike the 85% rolloff this ignores where the energy sits and finds where content stops,
+// which is what exposes a codec lowpass or a synthesis band limit.
+export const bandwidthEdge = (powerSum: Float64Array, sampleRate: number): number | null => {
+  let peak = 0;
+  for (const p of powerSum) if (p > peak) peak = p;
+  if (peak === 0) return null;
+  const floor = peak * Math.pow(10, BANDWIDTH_EDGE_DB / 10);
+  const binWidth = sampleRate / (powerSum.length * 2);
+  for (let j = powerSum.length - 1; j >= 0; j--) {
+    if (powerSum[j] > floor) return (j + 1) * binWidth;
+  }
+  return null;
+};
+
+// --- LONG-TERM SPECTRUM ---
+
+const LTAS_FIRST_BAND = -12; // 1000 * 2^(-12/3) = 62.5 Hz
+
+// One-third-octave bands of the long-term spectrum up to 95% of Nyquist, in dB relative to
+// the loudest band. Bands narrower than one FFT bin are left out.
+export const longTermSpectrum = (powerSum: Float64Array, sampleRate: number): LongTermSpectrum => {
+  const binWidth = sampleRate / (powerSum.length * 2);
+  const bandHz: number[] = [];
+  const power: number[] = [];
+  for (let n = LTAS_FIRST_BAND; ; n++) {
+    const centre = 1000 * 2 ** (n / 3);
+    const hi = Math.floor((centre * 2 ** (1 / 6)) / binWidth);
+    if (hi * binWidth > 0.95 * (sampleRate / 2)) break;
+    const lo = Math.ceil((centre * 2 ** (-1 / 6)) / binWidth);
+    if (hi < lo) continue;
+    let sum = 0;
+    for (let j = lo; j <= hi; j++) sum += powerSum[j];
+    bandHz.push(Math.round(centre * 10) / 10);
+    power.push(sum / (hi - lo + 1));
+  }
+  const peak = Math.max(0, ...power);
+  return {
+    bandHz,
+    levelDb: power.map(p => peak > 0 && p > 0 ? Math.round(10 * Math.log10(p / peak) * 10) / 10 : -120)
+  };
+};
+
+// Fraction of the work done, 0-1
+export type ProgressCallback = (fraction: number) => void;
+
+const PROGRESS_EVERY_FRAMES = 256;
+
+// Analyzes mono samples. The buffer is normalized in place. `source`, the file as stored,
+// lets the transcoding detector take a declared lossy codec into account.
+export const analyzeSamples = (
+  samples: Float32Array,
+  sampleRate: number,
+  profile: DetectionProfile = DEFAULT_PROFILE,
+  onProgress?: ProgressCallback,
+  stereo?: StereoCheck,
+  source?: SourceFormat
+): AnalysisResult => {
+  const gate = profile.thresholds.activeRmsGate;
+  const data = normalizeSamples(samples);
+  const totalFrames = Math.max(1, Math.floor((data.length - FFT_SIZE) / HOP_SIZE));
+
+  const frames: FrameRecord[] = [];
+  const powerSum = new Float64Array(FFT_SIZE / 2);
+
+  // --- FRAME-BY-FRAME ANALYSIS ---
+  for (let i = 0; i < data.length - FFT_SIZE; i += HOP_SIZE) {
+    const chunk = data.subarray(i, i + FFT_SIZE);
+    const rms = frameRms(chunk);
+
+    // Spectral features for every non-silent frame, since breath detection looks below the
+    // gate; only active speech feeds the long-term spectrum and pitch tracking
+    frames.push({
+      startSample: i,
+      rms,
+      spectral: rms > 0.00001 ? computeSpectralFeatures(chunk, sampleRate, rms > gate ? powerSum : undefined) : null,
+      pitch: rms > gate ? estimatePitch(chunk, sampleRate) : null,
+      clipped: countClippedSamples(chunk, 0.95, HOP_SIZE) // normalization put the peak at 0.95
+    });
+
+    if (onProgress && frames.length % PROGRESS_EVERY_FRAMES === 0) {
+      onProgress(Math.min(0.95, (frames.length / totalFrames) * 0.95));
+    }
+  }
+
+  // Digital Silence Detection
+  // Check if we have exact zero sequences in the raw data (not just low RMS)
+  const zeroRuns: ZeroRun[] = [];
+  let zeroRunCount = 0;
+  let maxZeroRun = 0;
+  for(let i=0; i<data.length; i++) {
+    if (data[i] === 0) {
+      zeroRunCount++;
+    } else {
+      if(zeroRunCount > maxZeroRun) maxZeroRun = zeroRunCount;
+      if(zeroRunCount > 0) zeroRuns.push({ startSample: i - zeroRunCount, length: zeroRunCount });
+      zeroRunCount = 0;
+    }
+  }
+
+  const edgeHz = bandwidthEdge(powerSum, sampleRate);
+  const transcoding = detectTranscoding(data, sampleRate, frames, HOP_SIZE, gate, powerSum, source);
+  // Breaths are neither reported nor shown when the profile turns their extractor off
+  const breathing = isExtractorEnabled(profile, 'breathing') ? detectBreathing(frames, sampleRate, HOP_SIZE, gate) : undefined;
+  const classified = classifyFrames({
+    frames,
+    sampleRate,
+    maxZeroRun,
+    profile,
+    stereo,
+    file: { samples: data, powerSum, bandwidthEdgeHz: edgeHz, transcoding, breathing }
+  });
+  const result: AnalysisResult = {
+    ...classified,
+    metrics: { ...classified.metrics, bandwidthEdgeHz: edgeHz === null ? undefined : Math.round(edgeHz) },
+    durationSec: data.length / sampleRate,
+    sampleRate,
+    segments: analyzeSegments(frames, zeroRuns, sampleRate, profile),
+    evidence: buildEvidence(frames, zeroRuns, sampleRate, profile),
+    breathing,
+    transcoding,
+    ltas: longTermSpectrum(powerSum, sampleRate)
+  };
+  onProgress?.(1);
+  return result;
+};
+
+
+// --- MULTICHANNEL ---
+
+export const MID_LABEL = 'Mid';
+export const SIDE_LABEL = 'Side';
+
+// Display names for a file's physical channels
+export const channelLabels = (count: number): string[] =>
+  count === 1 ? ['Mono'] :
+  count === 2 ? ['Left', 'Right'] :
+  Array.from({ length: count }, (_, i) => `Channel ${i + 1}`);
+
+// Samples for a physical channel label, or Mid (L+R)/2 / Side (L-R)/2 of a stereo pair.
+// Always returns a new buffer, since analysis normalizes in place.
+export const extractChannel = (channels: Float32Array[], label: string): Float32Array => {
+  if ((label === MID_LABEL || label === SIDE_LABEL) && channels.length === 2) {
+    const [left, right] = channels;
+    const sign = label === MID_LABEL ? 1 : -1;
+    const out = new Float32Array(left.length);
+    for (let i = 0; i < out.length; i++) out[i] = (left[i] + sign * right[i]) / 2;
+    return out;
+  }
+  const index = channelLabels(channels.length).indexOf(label);
+  return channels[Math.max(0, index)].slice();
+};
+
+export const measureStereo = (left: Float32Array, right: Float32Array): StereoCheck => {
+  const n = Math.min(left.length, right.length);
+  let sumL = 0, sumR = 0;
+  for (let i = 0; i < n; i++) { sumL += left[i]; sumR += right[i]; }
+  const meanL = sumL / (n || 1);
+  const meanR = sumR / (n || 1);
+
+  let cov = 0, varL = 0, varR = 0, midEnergy = 0, sideEnergy = 0;
+  let identical = true;
+  for (let i = 0; i < n; i++) {
+    const l = left[i] - meanL;
+    const r = right[i] - meanR;
+    cov += l * r;
+    varL += l * l;
+    varR += r * r;
+    const mid = (left[i] + right[i]) / 2;
+    const side = (left[i] - right[i]) / 2;
+    midEnergy += mid * mid;
+    sideEnergy += side * side;
+    if (left[i] !== right[i]) identical = false;
+  }
+
+  return {
+    correlation: varL > 0 && varR > 0 ? cov / Math.sqrt(varL * varR) : (identical ? 1 : 0),
+    identical,
+    sideLevelDb: Math.round(10 * Math.log10((sideEnergy + 1e-12) / (midEnergy + 1e-12)))
+  };
+};
+
+const isDigitallySilent = (samples: Float32Array) => {
+  for (let i = 0; i < samples.length; i++) if (samples[i] !== 0) return false;
+  return true;
+};
+
+export interface ChannelOptions {
+  midSide?: boolean;     // also analyze Mid and Side of a stereo pair
+  source?: SourceFormat; // the file as stored, for transcoding detection
+}
+
+// Analyzes every channel separately. The top-level verdict is the most AI-leaning
+// physical channel, so a synthetic voice on either side of a call flags the file.
+export const analyzeChannels = (
+  channels: Float32Array[],
+  sampleRate: number,
+  profile: DetectionProfile = DEFAULT_PROFILE,
+  options: ChannelOptions = {},
+  onProgress?: ProgressCallback
+): AnalysisResult => {
+  if (channels.length === 1) return analyzeSamples(channels[0], sampleRate, profile, onProgress, undefined, options.source);
+
+  const isStereo = channels.length === 2;
+  const stereo = isStereo ? measureStereo(channels[0], channels[1]) : undefined;
+  const labels = channelLabels(channels.length);
+  const jobs = labels.map(label => ({ label, derived: false }));
+  if (isStereo && options.midSide) jobs.push({ label: MID_LABEL, derived: true }, { label: SIDE_LABEL, derived: true });
+
+  const results: ChannelResult[] = jobs.map((job, i) => {
+    const samples = extractChannel(channels, job.label);
+    const progress = onProgress && ((fraction: number) => onProgress((i + fraction) / jobs.length));
+    const result = isDigitallySilent(samples)
+      ? null
+      : analyzeSamples(samples, sampleRate, profile, progress, job.derived ? undefined : stereo, options.source);
+    return { label: job.label, derived: job.derived || undefined, result };
+  });
+
+  // A channel without a verdict (e.g. the silent side of a call) only leads when none has one
+  const candidates = results.filter(c => !c.derived && c.result);
+  const conclusive = candidates.filter(c => c.result!.classification !== 'Inconclusive');
+  let primary = (conclusive.length > 0 ? conclusive : candidates)
+    .reduce<ChannelResult | null>((best, c) => (!best || c.result!.score > best.result!.score ? c : best), null);
+  if (!primary) {
+    // All silent: the quality gate turns the first channel into an Inconclusive verdict,
+    // as it does for a silent mono file
+    primary = results[0];
+    primary.result = analyzeSamples(channels[0], sampleRate, profile, undefined, stereo, options.source);
+  }
+
+  onProgress?.(1);
+  return { ...primary.result!, channel: primary.label, channels: results, stereo };
+};
+
+// Per-channel view of a result; falls back to the top-level verdict
+export const resultForChannel = (result: AnalysisResult, label: string | null): AnalysisResult =>
+  (label && result.channels?.find(c => c.label === label)?.result) || result;
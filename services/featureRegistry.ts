@@ -0,0 +1,148 @@
+import { BreathingAnalysis, DetectionProfile, ExtractorResult, ScoreFactor, StereoCheck, TranscodingAnalysis } from "../types";
+import type { FrameRecord, SignalFeatures } from "./dspEngine";
+import { BUILT_IN_EXTRACTORS } from "./builtInExtractors";
+
+// --- Feature Extractor Registry ---
+// Every measurement the classifier scores comes from an extractor: a pure function of
+// the analysis frames (plus the whole buffer, for whole-file analysis) that returns named
+// metrics, paired with the rules that turn those metrics into points. An extractor may also
+// discount other rules' points when its measurements explain them. New detectors are
+// added with registerExtractor() and are enabled in every profile unless it opts out.
+
+// Raw values keyed by MetricSpec.key; null when not measurable on this audio
+export type MetricValues = Record<string, number | null>;
+
+export interface MetricSpec {
+  key: string;
+  label: string;
+  unit?: string;
+  digits?: number; // decimals kept in results and reports (default 2)
+}
+
+// Only available to whole-file analysis; segment and live windows carry frames alone
+export interface FileContext {
+  samples: Float32Array;         // peak-normalized mono buffer the frames were cut from
+  powerSum: Float64Array;        // long-term power spectrum of the active frames
+  bandwidthEdgeHz: number | null;
+  transcoding: TranscodingAnalysis;
+  breathing?: BreathingAnalysis; // also reported as the result's breath timeline; unset when the breathing extractor is off
+}
+
+export interface ExtractorInput {
+  frames: FrameRecord[];
+  summary: SignalFeatures;       // frame statistics shared by every extractor
+  sampleRate: number;
+  frameSize: number;
+  hopSize: number;
+  profile: DetectionProfile;
+  stereo?: StereoCheck;          // only for channels of a two-channel file
+  file?: FileContext;
+}
+
+export interface RuleOutcome {
+  value: number;       // measured value, rounded for display
+  unit: string;
+  threshold: string;   // condition the rule tests, e.g. "< 200 Hz"
+  points: number;
+  rationale: string;
+  observation?: string; // verdict headline, used when this is the first rule to lean AI
+}
+
+export interface ScoringRule {
+  id: string;
+  label: string;
+  // Null when the metrics the rule needs were not measured
+  score: (metrics: MetricValues, profile: DetectionProfile) => RuleOutcome | null;
+}
+
+// Scales the AI-leaning points of another extractor's rule, e.g. when a codec explains the artifact
+export interface ScoreDiscount {
+  ruleId: string;
+  keep: number;   // share of the points kept, 0-1
+  reason: string;
+}
+
+export interface FeatureExtractor {
+  id: string;
+  label: string;
+  description: string;
+  requiresFile?: boolean; // needs FileContext; skipped for segment and live windows
+  metrics: MetricSpec[];
+  // Null when nothing could be measured (e.g. no stereo pair, too few voiced frames)
+  extract: (input: ExtractorInput) => MetricValues | null;
+  rules: ScoringRule[];
+  // Applied once every extractor has scored; only points > 0 are discounted
+  discounts?: (metrics: MetricValues, profile: DetectionProfile) => ScoreDiscount[];
+}
+
+const registry: FeatureExtractor[] = [...BUILT_IN_EXTRACTORS];
+
+export const registerExtractor = (extractor: FeatureExtractor) => {
+  if (registry.some(e => e.id === extractor.id)) {
+    throw new Error(`Feature extractor "${extractor.id}" is already registered.`);
+  }
+  registry.push(extractor);
+};
+
+export const listExtractors = (): readonly FeatureExtractor[] => registry;
+
+export const isExtractorEnabled = (profile: DetectionProfile, id: string) => profile.extractors?.[id] ?? true;
+
+const roundTo = (value: number | null, digits = 2) =>
+  value === null || !isFinite(value) ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+export interface ExtractorRun {
+  results: ExtractorResult[];
+  values: Record<string, MetricValues>; // raw metrics by extractor id
+  factors: ScoreFactor[];
+  observation: string | null;           // first AI-leaning rule's headline
+}
+
+// Runs every enabled extractor in registry order and scores its rules
+export const runExtractors = (input: ExtractorInput): ExtractorRun => {
+  const run: ExtractorRun = { results: [], values: {}, factors: [], observation: null };
+  const discounts: ScoreDiscount[] = [];
+  const observations: (string | undefined)[] = []; // parallel to run.factors
+
+  for (const extractor of registry) {
+    if (!isExtractorEnabled(input.profile, extractor.id)) continue;
+    if (extractor.requiresFile && !input.file) continue;
+    const metrics = extractor.extract(input);
+    if (!metrics) continue;
+
+    run.values[extractor.id] = metrics;
+    run.results.push({
+      id: extractor.id,
+      label: extractor.label,
+      metrics: extractor.metrics.map(spec => ({
+        key: spec.key,
+        label: spec.label,
+        unit: spec.unit ?? '',
+        value: roundTo(metrics[spec.key] ?? null, spec.digits)
+      }))
+    });
+
+    for (const rule of extractor.rules) {
+      const outcome = rule.score(metrics, input.profile);
+      if (!outcome) continue;
+      const { observation, ...factor } = outcome;
+      run.factors.push({ id: rule.id, label: rule.label, ...factor });
+      observations.push(observation);
+    }
+    if (extractor.discounts) discounts.push(...extractor.discounts(metrics, input.profile));
+  }
+
+  for (const discount of discounts) {
+    const factor = run.factors.find(f => f.id === discount.ruleId);
+    if (!factor || factor.points <= 0 || discount.keep >= 1) continue;
+    const points = Math.round(factor.points * Math.max(0, discount.keep));
+    factor.originalPoints = factor.originalPoints ?? factor.points;
+    factor.discountReason = discount.reason;
+    factor.points = points;
+  }
+
+  // Headline from the first rule still leaning AI once discounts are applied
+  const leading = run.factors.findIndex((f, i) => f.points > 0 && observations[i]);
+  run.observation = leading >= 0 ? observations[leading]! : null;
+  return run;
+};
@@ -0,0 +1,169 @@
+// --- FFT Engine ---
+// Iterative in-place radix-2 FFT with precomputed bit-reversal and twiddle tables.
+// Engines and analysis windows are cached per size, so per-frame work allocates nothing.
+// Shared by the analyzer and the offline spectrogram renderer.
+
+export const MIN_FFT_SIZE = 512;
+export const MAX_FFT_SIZE = 16384;
+
+export type WindowType = 'hann' | 'hamming' | 'blackman';
+
+export interface ComplexFFT {
+  size: number;
+  // In-place forward transform
+  transform: (real: Float32Array, imag: Float32Array) => void;
+}
+
+export interface RealFFT {
+  size: number;
+  // Forward transform of `size` real samples into bins 0..size/2 (inclusive)
+  transform: (input: Float32Array, outReal: Float32Array, outImag: Float32Array) => void;
+  // Windowed magnitude of bins 0..size/2-1; `input` is not modified
+  magnitudeSpectrum: (input: Float32Array, out?: Float32Array, window?: WindowType) => Float32Array;
+}
+
+const isPowerOfTwo = (n: number) => n > 0 && (n & (n - 1)) === 0;
+
+const complexCache = new Map<number, ComplexFFT>();
+const realCache = new Map<number, RealFFT>();
+const windowCache = new Map<string, Float32Array>();
+
+const createComplexFFT = (n: number): ComplexFFT => {
+  const bits = Math.log2(n);
+  const reverse = new Uint32Array(n);
+  for (let i = 0; i < n; i++) {
+    let r = 0;
+    for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+    reverse[i] = r;
+  }
+
+  const cosTable = new Float32Array(n / 2);
+  const sinTable = new Float32Array(n / 2);
+  for (let k = 0; k < n / 2; k++) {
+    cosTable[k] = Math.cos((2 * Math.PI * k) / n);
+    sinTable[k] = Math.sin((2 * Math.PI * k) / n);
+  }
+
+  const transform = (real: Float32Array, imag: Float32Array) => {
+    for (let i = 0; i < n; i++) {
+      const j = reverse[i];
+      if (j > i) {
+        let t = real[i]; real[i] = real[j]; real[j] = t;
+        t = imag[i]; imag[i] = imag[j]; imag[j] = t;
+      }
+    }
+
+    for (let len = 2; len <= n; len <<= 1) {
+      const half = len >> 1;
+      const step = n / len;
+      for (let i = 0; i < n; i += len) {
+        for (let k = 0; k < half; k++) {
+          const wr = cosTable[k * step];
+          const wi = -sinTable[k * step];
+          const a = i + k;
+          const b = a + half;
+          const tr = wr * real[b] - wi * imag[b];
+          const ti = wr * imag[b] + wi * real[b];
+          real[b] = real[a] - tr;
+          imag[b] = imag[a] - ti;
+          real[a] += tr;
+          imag[a] += ti;
+        }
+      }
+    }
+  };
+
+  return { size: n, transform };
+};
+
+export const getComplexFFT = (size: number): ComplexFFT => {
+  if (!isPowerOfTwo(size)) throw new Error(`FFT size must be a power of two (got ${size}).`);
+  let engine = complexCache.get(size);
+  if (!engine) {
+    engine = createComplexFFT(size);
+    complexCache.set(size, engine);
+  }
+  return engine;
+};
+
+export const getWindow = (size: number, type: WindowType = 'hann'): Float32Array => {
+  const key = `${type}:${size}`;
+  let window = windowCache.get(key);
+  if (!window) {
+    window = new Float32Array(size);
+    // Symmetric windows (denominator n-1), matching the original analyzer
+    for (let i = 0; i < size; i++) {
+      const phase = (2 * Math.PI * i) / (size - 1);
+      if (type === 'hamming') window[i] = 0.54 - 0.46 * Math.cos(phase);
+      else if (type === 'blackman') window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+      else window[i] = 0.5 * (1 - Math.cos(phase));
+    }
+    windowCache.set(key, window);
+  }
+  return window;
+};
+
+// Real-input fast path: packs even/odd samples into one N/2 complex FFT, then splits
+// the result with a final twiddle pass. Roughly halves the work of a full complex FFT.
+const createRealFFT = (n: number): RealFFT => {
+  const m = n / 2;
+  const inner = getComplexFFT(m);
+  const zr = new Float32Array(m);
+  const zi = new Float32Array(m);
+  const windowed = new Float32Array(n);
+  const specReal = new Float32Array(m + 1);
+  const specImag = new Float32Array(m + 1);
+
+  const cosTable = new Float32Array(m + 1);
+  const sinTable = new Float32Array(m + 1);
+  for (let k = 0; k <= m; k++) {
+    cosTable[k] = Math.cos((2 * Math.PI * k) / n);
+    sinTable[k] = Math.sin((2 * Math.PI * k) / n);
+  }
+
+  const transform = (input: Float32Array, outReal: Float32Array, outImag: Float32Array) => {
+    for (let i = 0; i < m; i++) {
+      zr[i] = input[2 * i];
+      zi[i] = input[2 * i + 1];
+    }
+    inner.transform(zr, zi);
+
+    for (let k = 0; k <= m; k++) {
+      const a = k % m;
+      const b = (m - k) % m;
+      // Even / odd half-spectra recovered from the packed transform
+      const er = (zr[a] + zr[b]) / 2;
+      const ei = (zi[a] - zi[b]) / 2;
+      const or = (zi[a] + zi[b]) / 2;
+      const oi = -(zr[a] - zr[b]) / 2;
+      const c = cosTable[k];
+      const s = sinTable[k];
+      outReal[k] = er + c * or + s * oi;
+      outImag[k] = ei + c * oi - s * or;
+    }
+  };
+
+  const magnitudeSpectrum = (input: Float32Array, out?: Float32Array, windowType: WindowType = 'hann') => {
+    const window = getWindow(n, windowType);
+    for (let i = 0; i < n; i++) windowed[i] = input[i] * window[i];
+    transform(windowed, specReal, specImag);
+
+    const mag = out || new Float32Array(m);
+    for (let k = 0; k < m; k++) mag[k] = Math.sqrt(specReal[k] * specReal[k] + specImag[k] * specImag[k]);
+    return mag;
+  };
+
+  return { size: n, transform, magnitudeSpectrum };
+};
+
+export const getRealFFT = (size: number): RealFFT => {
+  if (!isPowerOfTwo(size) || size < MIN_FFT_SIZE || size > MAX_FFT_SIZE) {
+    throw new Error(`FFT size must be a power of two between ${MIN_FFT_SIZE} and ${MAX_FFT_SIZE} (got ${size}).`);
+  }
+  let engine = realCache.get(size);
+  if (!engine) {
+    engine = createRealFFT(size);
+    realCache.set(size, engine);
+  }
+  return engine;
+};
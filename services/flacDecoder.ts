@@ -0,0 +1,286 @@
+import { DecodedAudio } from "../types";
+import { MIN_SAMPLE_RATE } from "../constants";
+
+// --- FLAC Decoder ---
+// Pure-TypeScript decoder for native FLAC streams: CONSTANT, VERBATIM, FIXED and LPC
+// subframes, Rice-coded residuals and all stereo decorrelation modes.
+// Frame CRCs are not verified; the analyzer only needs the samples.
+
+class BitReader {
+  bytePos: number;
+  private bitPos = 0;
+
+  constructor(private bytes: Uint8Array, offset: number) {
+    this.bytePos = offset;
+  }
+
+  get eof() {
+    return this.bytePos >= this.bytes.length;
+  }
+
+  readBits(n: number): number {
+    let result = 0;
+    while (n > 0) {
+      if (this.bytePos >= this.bytes.length) throw new Error("Unexpected end of FLAC stream.");
+      const avail = 8 - this.bitPos;
+      const take = Math.min(avail, n);
+      const bits = (this.bytes[this.bytePos] >> (avail - take)) & ((1 << take) - 1);
+      // Multiply instead of shifting so values above 31 bits stay exact
+      result = result * (1 << take) + bits;
+      n -= take;
+      this.bitPos += take;
+      if (this.bitPos === 8) {
+        this.bitPos = 0;
+        this.bytePos++;
+      }
+    }
+    return result;
+  }
+
+  readSigned(n: number): number {
+    if (n === 0) return 0;
+    const value = this.readBits(n);
+    return value >= 2 ** (n - 1) ? value - 2 ** n : value;
+  }
+
+  // Counts zero bits up to and including the terminating 1
+  readUnary(): number {
+    let count = 0;
+    for (;;) {
+      if (this.bytePos >= this.bytes.length) throw new Error("Unexpected end of FLAC stream.");
+      const byte = (this.bytes[this.bytePos] << this.bitPos) & 0xff;
+      if (byte === 0) {
+        count += 8 - this.bitPos;
+        this.bitPos = 0;
+        this.bytePos++;
+        continue;
+      }
+      const leadingZeros = Math.clz32(byte) - 24;
+      count += leadingZeros;
+      this.bitPos += leadingZeros + 1;
+      if (this.bitPos === 8) {
+        this.bitPos = 0;
+        this.bytePos++;
+      }
+      return count;
+    }
+  }
+
+  alignToByte() {
+    if (this.bitPos !== 0) {
+      this.bitPos = 0;
+      this.bytePos++;
+    }
+  }
+}
+
+interface StreamInfo {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  totalSamples: number;
+}
+
+const SAMPLE_RATES = [0, 88200, 176400, 192000, 8000, 16000, 22050, 24000, 32000, 44100, 48000, 96000];
+const SAMPLE_SIZES = [0, 8, 12, 0, 16, 20, 24, 32];
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+const readStreamInfo = (bytes: Uint8Array): { info: StreamInfo; audioOffset: number } => {
+  if (String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]) !== 'fLaC') {
+    throw new Error("Not a FLAC file.");
+  }
+
+  let offset = 4;
+  let info: StreamInfo | null = null;
+  let isLast = false;
+  while (!isLast) {
+    if (offset + 4 > bytes.length) throw new Error("Truncated FLAC metadata.");
+    isLast = (bytes[offset] & 0x80) !== 0;
+    const type = bytes[offset] & 0x7f;
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (type === 0) {
+      const r = new BitReader(bytes, offset + 4);
+      r.readBits(16); // min block size
+      r.readBits(16); // max block size
+      r.readBits(24); // min frame size
+      r.readBits(24); // max frame size
+      const sampleRate = r.readBits(20);
+      const channels = r.readBits(3) + 1;
+      const bitsPerSample = r.readBits(5) + 1;
+      const totalSamples = r.readBits(36);
+      info = { sampleRate, channels, bitsPerSample, totalSamples };
+    }
+    offset += 4 + length;
+  }
+
+  if (!info) throw new Error("FLAC file has no STREAMINFO block.");
+  if (info.sampleRate < MIN_SAMPLE_RATE) throw new Error(`Invalid FLAC sample rate (${info.sampleRate} Hz).`);
+  return { info, audioOffset: offset };
+};
+
+const decodeResidual = (r: BitReader, blockSize: number, order: number, out: Int32Array | Float64Array) => {
+  const method = r.readBits(2);
+  if (method > 1) throw new Error(`Unsupported FLAC residual coding method ${method}.`);
+  const paramBits = method === 0 ? 4 : 5;
+  const escapeCode = method === 0 ? 15 : 31;
+  const partitionOrder = r.readBits(4);
+  const partitions = 1 << partitionOrder;
+  const partitionSize = blockSize >> partitionOrder;
+
+  let index = order;
+  for (let p = 0; p < partitions; p++) {
+    const count = p === 0 ? partitionSize - order : partitionSize;
+    const param = r.readBits(paramBits);
+    if (param === escapeCode) {
+      const rawBits = r.readBits(5);
+      for (let i = 0; i < count; i++) out[index++] = r.readSigned(rawBits);
+    } else {
+      for (let i = 0; i < count; i++) {
+        const value = r.readUnary() * 2 ** param + r.readBits(param);
+        // Zig-zag decode
+        out[index++] = value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+      }
+    }
+  }
+};
+
+const decodeSubframe = (r: BitReader, blockSize: number, bitsPerSample: number): Float64Array => {
+  const out = new Float64Array(blockSize);
+  if (r.readBits(1) !== 0) throw new Error("Corrupt FLAC subframe header.");
+  const type = r.readBits(6);
+
+  let wasted = 0;
+  if (r.readBits(1) === 1) wasted = r.readUnary() + 1;
+  const bps = bitsPerSample - wasted;
+
+  if (type === 0) {
+    out.fill(r.readSigned(bps));
+  } else if (type === 1) {
+    for (let i = 0; i < blockSize; i++) out[i] = r.readSigned(bps);
+  } else if (type >= 8 && type <= 12) {
+    const order = type & 0x07;
+    for (let i = 0; i < order; i++) out[i] = r.readSigned(bps);
+    decodeResidual(r, blockSize, order, out);
+    const coefs = FIXED_COEFFICIENTS[order];
+    for (let i = order; i < blockSize; i++) {
+      let prediction = 0;
+      for (let j = 0; j < order; j++) prediction += coefs[j] * out[i - 1 - j];
+      out[i] += prediction;
+    }
+  } else if (type >= 32) {
+    const order = (type & 0x1f) + 1;
+    for (let i = 0; i < order; i++) out[i] = r.readSigned(bps);
+    const precision = r.readBits(4) + 1;
+    const shift = r.readSigned(5);
+    const coefs = new Float64Array(order);
+    for (let i = 0; i < order; i++) coefs[i] = r.readSigned(precision);
+    decodeResidual(r, blockSize, order, out);
+    const scale = 2 ** shift;
+    for (let i = order; i < blockSize; i++) {
+      let sum = 0;
+      for (let j = 0; j < order; j++) sum += coefs[j] * out[i - 1 - j];
+      out[i] += Math.floor(sum / scale);
+    }
+  } else {
+    throw new Error(`Reserved FLAC subframe type ${type}.`);
+  }
+
+  if (wasted > 0) {
+    const factor = 2 ** wasted;
+    for (let i = 0; i < blockSize; i++) out[i] *= factor;
+  }
+  return out;
+};
+
+export const decodeFlac = (bytes: Uint8Array): DecodedAudio => {
+  const { info, audioOffset } = readStreamInfo(bytes);
+  const chunks: Float64Array[][] = Array.from({ length: info.channels }, () => []);
+  let totalDecoded = 0;
+
+  const r = new BitReader(bytes, audioOffset);
+  while (!r.eof && (info.totalSamples === 0 || totalDecoded < info.totalSamples)) {
+    // Frame header
+    if (r.readBits(14) !== 0x3ffe) throw new Error("Lost FLAC frame sync.");
+    r.readBits(1); // reserved
+    r.readBits(1); // blocking strategy
+    const blockSizeCode = r.readBits(4);
+    const sampleRateCode = r.readBits(4);
+    const channelAssignment = r.readBits(4);
+    const sampleSizeCode = r.readBits(3);
+    r.readBits(1); // reserved
+
+    // UTF-8 style coded frame/sample number: leading ones give the continuation byte count
+    const first = r.readBits(8);
+    let continuation = 0;
+    for (let mask = 0x80; first & mask && mask > 1; mask >>= 1) continuation++;
+    for (let i = 1; i < continuation; i++) r.readBits(8);
+
+    let blockSize: number;
+    if (blockSizeCode === 1) blockSize = 192;
+    else if (blockSizeCode >= 2 && blockSizeCode <= 5) blockSize = 576 * 2 ** (blockSizeCode - 2);
+    else if (blockSizeCode === 6) blockSize = r.readBits(8) + 1;
+    else if (blockSizeCode === 7) blockSize = r.readBits(16) + 1;
+    else if (blockSizeCode >= 8) blockSize = 256 * 2 ** (blockSizeCode - 8);
+    else throw new Error("Reserved FLAC block size.");
+
+    if (sampleRateCode === 12) r.readBits(8);
+    else if (sampleRateCode === 13 || sampleRateCode === 14) r.readBits(16);
+    r.readBits(8); // CRC-8
+
+    const bitsPerSample = sampleSizeCode === 0 ? info.bitsPerSample : SAMPLE_SIZES[sampleSizeCode];
+    const channelCount = channelAssignment < 8 ? channelAssignment + 1 : 2;
+
+    const subframes: Float64Array[] = [];
+    for (let c = 0; c < channelCount; c++) {
+      // The side channel carries one extra bit
+      const isSide =
+        (channelAssignment === 8 && c === 1) ||
+        (channelAssignment === 9 && c === 0) ||
+        (channelAssignment === 10 && c === 1);
+      subframes.push(decodeSubframe(r, blockSize, bitsPerSample + (isSide ? 1 : 0)));
+    }
+
+    // Undo stereo decorrelation
+    if (channelAssignment === 8) {
+      const [left, side] = subframes;
+      for (let i = 0; i < blockSize; i++) side[i] = left[i] - side[i];
+    } else if (channelAssignment === 9) {
+      const [side, right] = subframes;
+      for (let i = 0; i < blockSize; i++) side[i] = side[i] + right[i];
+    } else if (channelAssignment === 10) {
+      const [mid, side] = subframes;
+      for (let i = 0; i < blockSize; i++) {
+        const m = mid[i] * 2 + (side[i] % 2 !== 0 ? 1 : 0);
+        mid[i] = (m + side[i]) / 2;
+        side[i] = (m - side[i]) / 2;
+      }
+    }
+
+    r.alignToByte();
+    r.readBits(16); // CRC-16
+
+    const scale = 2 ** (bitsPerSample - 1);
+    for (let c = 0; c < info.channels; c++) {
+      const source = subframes[Math.min(c, subframes.length - 1)];
+      const samples = new Float64Array(blockSize);
+      for (let i = 0; i < blockSize; i++) samples[i] = source[i] / scale;
+      chunks[c].push(samples);
+    }
+    totalDecoded += blockSize;
+  }
+
+  const length = info.totalSamples > 0 ? Math.min(info.totalSamples, totalDecoded) : totalDecoded;
+  const channels = chunks.map(list => {
+    const output = new Float32Array(length);
+    let offset = 0;
+    for (const chunk of list) {
+      const take = Math.min(chunk.length, length - offset);
+      for (let i = 0; i < take; i++) output[offset + i] = chunk[i];
+      offset += take;
+    }
+    return output;
+  });
+
+  return { sampleRate: info.sampleRate, bitsPerSample: info.bitsPerSample, channels };
+};
@@ -0,0 +1,293 @@
+import { SourceFormat } from "../types";
+
+// --- Format Probe ---
+// Reads just enough of the container header to recover the stream's native parameters
+// (rate, depth, channels, codec, duration) before any decoder has a chance to resample.
+
+export const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+export const u16le = (b: Uint8Array, o: number) => b[o] | (b[o + 1] << 8);
+export const u32le = (b: Uint8Array, o: number) => (b[o] | (b[o + 1] << 8) | (b[o + 2] << 16)) + b[o + 3] * 0x1000000;
+export const u16be = (b: Uint8Array, o: number) => (b[o] << 8) | b[o + 1];
+export const u32be = (b: Uint8Array, o: number) => b[o] * 0x1000000 + ((b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]);
+
+const unknownFormat = (container: string, codec = 'unknown'): SourceFormat => ({
+  container, codec, sampleRate: null, bitsPerSample: null, channels: null, durationSec: null, bitrateKbps: null
+});
+
+// --- RIFF/WAVE ---
+
+export const WAVE_FORMAT_NAMES: Record<number, string> = {
+  0x0001: 'PCM',
+  0x0003: 'IEEE float',
+  0x0006: 'A-law',
+  0x0007: 'mu-law',
+  0x0011: 'IMA ADPCM',
+  0x0055: 'MPEG Layer III',
+  0xfffe: 'PCM (extensible)'
+};
+
+const probeWav = (b: Uint8Array): SourceFormat => {
+  const format = unknownFormat('WAV');
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= b.length) {
+    const id = ascii(b, offset, 4);
+    const size = u32le(b, offset + 4);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      let tag = u16le(b, body);
+      // EXTENSIBLE carries the real format in the first two bytes of the sub-format GUID
+      if (tag === 0xfffe && size >= 26) tag = u16le(b, body + 24);
+      format.codec = WAVE_FORMAT_NAMES[tag] || `format 0x${tag.toString(16)}`;
+      format.channels = u16le(b, body + 2);
+      format.sampleRate = u32le(b, body + 4);
+      byteRate = u32le(b, body + 8);
+      format.bitsPerSample = u16le(b, body + 14) || null;
+      format.bitrateKbps = Math.round((byteRate * 8) / 1000);
+    } else if (id === 'data') {
+      if (byteRate > 0) format.durationSec = Math.min(size, b.length - body) / byteRate;
+      break;
+    }
+    offset = body + size + (size % 2);
+  }
+  return format;
+};
+
+// --- FLAC ---
+
+const probeFlac = (b: Uint8Array, start: number): SourceFormat => {
+  const format = unknownFormat('FLAC', 'FLAC');
+  const info = start + 8; // 'fLaC' + metadata block header
+  if (info + 18 > b.length) return format;
+  format.sampleRate = (b[info + 10] << 12) | (b[info + 11] << 4) | (b[info + 12] >> 4);
+  format.channels = ((b[info + 12] >> 1) & 0x07) + 1;
+  format.bitsPerSample = (((b[info + 12] & 0x01) << 4) | (b[info + 13] >> 4)) + 1;
+  const totalSamples = (b[info + 13] & 0x0f) * 2 ** 32 + u32be(b, info + 14);
+  if (totalSamples > 0 && format.sampleRate > 0) {
+    format.durationSec = totalSamples / format.sampleRate;
+    format.bitrateKbps = Math.round((b.length * 8) / format.durationSec / 1000);
+  }
+  return format;
+};
+
+// --- MPEG audio ---
+
+const MPEG_RATES: Record<number, number[]> = { 3: [44100, 48000, 32000], 2: [22050, 24000, 16000], 0: [11025, 12000, 8000] };
+const MPEG1_L3_KBPS = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_L3_KBPS = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+// Length of a leading ID3v2 tag (synchsafe size), 0 when absent
+export const id3v2Length = (b: Uint8Array): number =>
+  ascii(b, 0, 3) === 'ID3' ? 10 + ((b[6] << 21) | (b[7] << 14) | (b[8] << 7) | b[9]) + (b[5] & 0x10 ? 10 : 0) : 0;
+
+export interface MpegFrameHeader {
+  offset: number;
+  version: number;        // 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5
+  layer: number;          // 1..3
+  bitrateKbps: number;
+  sampleRate: number;
+  channels: number;
+  samplesPerFrame: number;
+  frameLength: number;
+}
+
+export const parseMpegHeader = (b: Uint8Array, o: number): MpegFrameHeader | null => {
+  if (o + 4 > b.length || b[o] !== 0xff || (b[o + 1] & 0xe0) !== 0xe0) return null;
+  const version = (b[o + 1] >> 3) & 0x03;
+  const layer = 4 - ((b[o + 1] >> 1) & 0x03);
+  const bitrateIndex = b[o + 2] >> 4;
+  const rateIndex = (b[o + 2] >> 2) & 0x03;
+  if (version === 1 || layer === 4 || rateIndex === 3 || bitrateIndex === 0 || bitrateIndex === 15) return null;
+  // Only Layer III is common enough in evidence to tabulate; other layers report no bitrate
+  const bitrateKbps = layer === 3 ? (version === 3 ? MPEG1_L3_KBPS : MPEG2_L3_KBPS)[bitrateIndex] : 0;
+  const sampleRate = MPEG_RATES[version][rateIndex];
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version !== 3 ? 576 : 1152;
+  const padding = (b[o + 2] >> 1) & 0x01;
+  const frameLength = bitrateKbps > 0 ? Math.floor((samplesPerFrame / 8) * bitrateKbps * 1000 / sampleRate) + padding : 0;
+  return {
+    offset: o, version, layer, bitrateKbps, sampleRate,
+    channels: (b[o + 3] >> 6) === 3 ? 1 : 2,
+    samplesPerFrame, frameLength
+  };
+};
+
+// First frame header after any ID3 tag, confirmed by the frame that follows it
+export const findFirstMpegFrame = (b: Uint8Array): MpegFrameHeader | null => {
+  const limit = Math.min(b.length - 4, id3v2Length(b) + 65536);
+  for (let o = id3v2Length(b); o < limit; o++) {
+    const header = parseMpegHeader(b, o);
+    if (!header) continue;
+    if (header.frameLength === 0 || parseMpegHeader(b, o + header.frameLength)) return header;
+  }
+  return null;
+};
+
+// Offset of the Xing/Info tag inside the first frame
+export const xingOffset = (h: MpegFrameHeader) =>
+  h.offset + 4 + (h.version === 3 ? (h.channels === 1 ? 17 : 32) : (h.channels === 1 ? 9 : 17));
+
+const probeMp3 = (b: Uint8Array): SourceFormat => {
+  const format = unknownFormat('MPEG audio');
+  const first = findFirstMpegFrame(b);
+  if (!first) return format;
+  const versionName = first.version === 3 ? 'MPEG-1' : first.version === 2 ? 'MPEG-2' : 'MPEG-2.5';
+  format.codec = `${versionName} Layer ${'I'.repeat(first.layer)}`;
+  format.container = first.layer === 3 ? 'MP3' : 'MPEG audio';
+  format.sampleRate = first.sampleRate;
+  format.channels = first.channels;
+  format.bitrateKbps = first.bitrateKbps || null;
+
+  const xing = xingOffset(first);
+  const tag = ascii(b, xing, 4);
+  if ((tag === 'Xing' || tag === 'Info') && b[xing + 7] & 0x01) {
+    format.durationSec = (u32be(b, xing + 8) * first.samplesPerFrame) / first.sampleRate;
+    // The tag's byte count gives the true average for VBR files
+    if (b[xing + 7] & 0x02) format.bitrateKbps = Math.round((u32be(b, xing + 12) * 8) / format.durationSec / 1000);
+  } else if (first.bitrateKbps > 0) {
+    format.durationSec = ((b.length - first.offset) * 8) / (first.bitrateKbps * 1000);
+  }
+  return format;
+};
+
+// --- Ogg ---
+
+const probeOgg = (b: Uint8Array): SourceFormat => {
+  const format = unknownFormat('Ogg');
+  const packet = 27 + b[26];
+  let granuleRate = 0;
+  let preSkip = 0;
+  if (ascii(b, packet, 7) === '\x01vorbis') {
+    format.codec = 'Vorbis';
+    format.channels = b[packet + 11];
+    format.sampleRate = u32le(b, packet + 12);
+    const nominal = u32le(b, packet + 20);
+    format.bitrateKbps = nominal > 0 && nominal < 0x80000000 ? Math.round(nominal / 1000) : null;
+    granuleRate = format.sampleRate;
+  } else if (ascii(b, packet, 8) === 'OpusHead') {
+    // Opus always decodes at 48 kHz; the header's input rate is informational only
+    format.codec = 'Opus';
+    format.channels = b[packet + 9];
+    format.sampleRate = 48000;
+    preSkip = u16le(b, packet + 10);
+    granuleRate = 48000;
+  } else if (ascii(b, packet, 5) === '\x7fFLAC') {
+    return { ...probeFlac(b, packet + 9), container: 'Ogg' };
+  }
+
+  // Duration from the granule position of the last page
+  if (granuleRate > 0) {
+    for (let o = b.length - 27; o >= 0; o--) {
+      if (b[o] === 0x4f && ascii(b, o, 4) === 'OggS') {
+        const granule = u32le(b, o + 6) + u32le(b, o + 10) * 2 ** 32;
+        format.durationSec = Math.max(0, granule - preSkip) / granuleRate;
+        if (!format.bitrateKbps && format.durationSec > 0) format.bitrateKbps = Math.round((b.length * 8) / format.durationSec / 1000);
+        break;
+      }
+    }
+  }
+  return format;
+};
+
+// --- ISO BMFF (MP4 / M4A) ---
+
+// Content offset and size of the first box at `path` (e.g. ['moov', 'trak', 'mdia', 'mdhd']).
+// Sizes come from the file, so a box never reaches past its parent or the end of the data.
+export const findMp4Box = (b: Uint8Array, path: string[], start = 0, end = b.length): { offset: number; size: number } | null => {
+  end = Math.min(end, b.length);
+  let o = start;
+  while (o + 8 <= end) {
+    let size = u32be(b, o);
+    let header = 8;
+    if (size === 1) {
+      size = u32be(b, o + 8) * 2 ** 32 + u32be(b, o + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - o;
+    }
+    if (size < header) return null;
+    size = Math.min(size, end - o);
+    if (ascii(b, o + 4, 4) === path[0]) {
+      const content = { offset: o + header, size: size - header };
+      return path.length === 1 ? content : findMp4Box(b, path.slice(1), content.offset, Math.min(end, content.offset + content.size));
+    }
+    o += size;
+  }
+  return null;
+};
+
+const probeMp4 = (b: Uint8Array): SourceFormat => {
+  const format = unknownFormat('MP4');
+  const mdia = ['moov', 'trak', 'mdia'];
+  const mdhd = findMp4Box(b, [...mdia, 'mdhd']);
+  if (mdhd) {
+    const v1 = b[mdhd.offset] === 1;
+    const timescale = u32be(b, mdhd.offset + (v1 ? 20 : 12));
+    const duration = v1 ? u32be(b, mdhd.offset + 24) * 2 ** 32 + u32be(b, mdhd.offset + 28) : u32be(b, mdhd.offset + 16);
+    if (timescale > 0) format.durationSec = duration / timescale;
+  }
+  const stsd = findMp4Box(b, [...mdia, 'minf', 'stbl', 'stsd']);
+  if (stsd) {
+    const entry = stsd.offset + 8; // version/flags + entry count
+    const type = ascii(b, entry + 4, 4);
+    format.codec = type === 'mp4a' ? 'AAC' : type === 'alac' ? 'ALAC' : type === 'Opus' ? 'Opus' : type;
+    format.channels = u16be(b, entry + 24);
+    format.bitsPerSample = type === 'alac' ? u16be(b, entry + 26) : null;
+    // 16.16 fixed point. HE-AAC streams report the core rate here; the decoder restores SBR on top.
+    format.sampleRate = u16be(b, entry + 32);
+  }
+  if (format.durationSec) format.bitrateKbps = Math.round((b.length * 8) / format.durationSec / 1000);
+  return format;
+};
+
+// --- AIFF ---
+
+// 80-bit IEEE extended float, as used for the AIFF sample rate
+const readExtended = (b: Uint8Array, o: number) => {
+  const exponent = ((b[o] & 0x7f) << 8) | b[o + 1];
+  const mantissa = u32be(b, o + 2);
+  return Math.round(mantissa * 2 ** (exponent - 16383 - 31));
+};
+
+const probeAiff = (b: Uint8Array): SourceFormat => {
+  const format = unknownFormat(ascii(b, 8, 4) === 'AIFC' ? 'AIFF-C' : 'AIFF', 'PCM');
+  let offset = 12;
+  while (offset + 8 <= b.length) {
+    const id = ascii(b, offset, 4);
+    const size = u32be(b, offset + 4);
+    if (id === 'COMM') {
+      const body = offset + 8;
+      format.channels = u16be(b, body);
+      const frames = u32be(b, body + 2);
+      format.bitsPerSample = u16be(b, body + 6);
+      format.sampleRate = readExtended(b, body + 8);
+      if (format.sampleRate > 0) format.durationSec = frames / format.sampleRate;
+      if (size >= 22) format.codec = ascii(b, body + 18, 4).trim() === 'NONE' ? 'PCM' : ascii(b, body + 18, 4);
+      break;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return format;
+};
+
+export const probeAudioFormat = (bytes: Uint8Array): SourceFormat => {
+  const magic = ascii(bytes, 0, 4);
+  if ((magic === 'RIFF' || magic === 'RF64') && ascii(bytes, 8, 4) === 'WAVE') return probeWav(bytes);
+  if (magic === 'fLaC') return probeFlac(bytes, 0);
+  if (magic === 'OggS') return probeOgg(bytes);
+  if (magic === 'FORM') return probeAiff(bytes);
+  if (ascii(bytes, 4, 4) === 'ftyp') return probeMp4(bytes);
+  if (ascii(bytes, 0, 9) === '#!AMR-WB\n') return { ...unknownFormat('AMR', 'AMR-WB'), sampleRate: 16000, channels: 1 };
+  if (ascii(bytes, 0, 6) === '#!AMR\n') return { ...unknownFormat('AMR', 'AMR-NB'), sampleRate: 8000, channels: 1 };
+  if (magic === '\x1a\x45\xdf\xa3') {
+    // Matroska/WebM: browser recordings are Opus (always 48 kHz) or Vorbis
+    const head = ascii(bytes, 0, Math.min(bytes.length, 4096));
+    if (head.includes('A_OPUS')) return { ...unknownFormat('WebM', 'Opus'), sampleRate: 48000 };
+    return unknownFormat('WebM', head.includes('A_VORBIS') ? 'Vorbis' : 'unknown');
+  }
+  // FLAC with a leading ID3 tag, then raw MPEG audio
+  const id3 = id3v2Length(bytes);
+  if (id3 > 0 && ascii(bytes, id3, 4) === 'fLaC') return probeFlac(bytes, id3);
+  return probeMp3(bytes);
+};
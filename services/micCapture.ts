@@ -0,0 +1,111 @@
+// --- Microphone Capture ---
+// Captures raw PCM from getUserMedia through an AudioWorklet. MediaRecorder is avoided
+// on purpose: its Opus/AAC output would add a codec lowpass to every take, which is
+// exactly the kind of artifact the analyzer is trying to measure.
+
+const CAPTURE_BLOCK_SIZE = 4096;
+const FLUSH_TIMEOUT_MS = 1000; // only reached if the audio thread has died
+
+// Batches the 128-sample render quanta into larger blocks before posting them back,
+// otherwise the main thread receives several hundred messages per second. A flush is
+// answered with { flushed } even when the block is empty, so stop() knows every sample
+// has been posted: full blocks already in flight arrive before the reply.
+const CAPTURE_PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.block = new Float32Array(${CAPTURE_BLOCK_SIZE});
+    this.offset = 0;
+    this.port.onmessage = () => {
+      this.port.postMessage({ flushed: this.block.slice(0, this.offset) });
+      this.offset = 0;
+    };
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let i = 0; i < channel.length; i++) {
+      this.block[this.offset++] = channel[i];
+      if (this.offset === this.block.length) {
+        this.port.postMessage(this.block.slice(0));
+        this.offset = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export interface MicCapture {
+  stream: MediaStream;
+  sampleRate: number;
+  stop: () => Promise<void>;
+}
+
+export const startMicCapture = async (onChunk: (chunk: Float32Array) => void): Promise<MicCapture> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error("Microphone capture requires a secure context (HTTPS or localhost).");
+  }
+
+  // Browser voice processing would strip the noise floor and breaths we rely on.
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false, channelCount: 1 }
+  });
+
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await audioContext.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = audioContext.createMediaStreamSource(stream);
+  const captureNode = new AudioWorkletNode(audioContext, 'pcm-capture');
+  captureNode.port.onmessage = (e: MessageEvent<Float32Array>) => onChunk(e.data);
+
+  // The worklet must be pulled by the graph to run; route it into a muted gain.
+  const sink = audioContext.createGain();
+  sink.gain.value = 0;
+  source.connect(captureNode);
+  captureNode.connect(sink);
+  sink.connect(audioContext.destination);
+
+  const stop = async () => {
+    // Ask the worklet to flush its partial block and wait for the reply before tearing the
+    // graph down; blocks still in flight are delivered first.
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, FLUSH_TIMEOUT_MS);
+      captureNode.port.onmessage = (e: MessageEvent<Float32Array | { flushed: Float32Array }>) => {
+        if (e.data instanceof Float32Array) {
+          onChunk(e.data);
+          return;
+        }
+        if (e.data.flushed.length > 0) onChunk(e.data.flushed);
+        clearTimeout(timer);
+        resolve();
+      };
+      captureNode.port.postMessage('flush');
+    });
+    captureNode.port.onmessage = null;
+    source.disconnect();
+    captureNode.disconnect();
+    sink.disconnect();
+    stream.getTracks().forEach(track => track.stop());
+    await audioContext.close();
+  };
+
+  return { stream, sampleRate: audioContext.sampleRate, stop };
+};
+
+export const concatChunks = (chunks: Float32Array[]): Float32Array => {
+  const total = chunks.reduce((n, c) => n + c.length, 0);
+  const output = new Float32Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
@@ -0,0 +1,145 @@
+import { ProsodyMetrics } from "../types";
+
+// --- Pitch Tracking ---
+// YIN fundamental-frequency estimation on the analysis frames, plus the prosody
+// statistics built from the resulting track. Pure, so it runs inside the worker.
+
+export const PITCH_MIN_HZ = 60;
+export const PITCH_MAX_HZ = 500;
+
+// Frames are box-decimated to roughly this rate first; F0 lives well below it and the
+// difference function costs O(window x lag).
+const PITCH_RATE = 8000;
+const YIN_THRESHOLD = 0.15;
+
+// Prosody statistics need this many voiced frames to mean anything
+export const MIN_VOICED_FRAMES = 10;
+
+// Neighbouring estimates further apart than this are octave errors, not jitter
+const MAX_PAIR_RATIO = 1.5;
+
+export interface PitchEstimate {
+  f0Hz: number;
+  hnrDb: number; // from the normalized autocorrelation at the detected period
+}
+
+const decimationScratch = new Map<number, Float32Array>();
+const cmndScratch = new Map<number, Float32Array>();
+
+const scratch = (cache: Map<number, Float32Array>, n: number) => {
+  let out = cache.get(n);
+  if (!out) {
+    out = new Float32Array(n);
+    cache.set(n, out);
+  }
+  return out;
+};
+
+// Null for unvoiced frames. At 88.2 kHz and above a frame spans fewer than two 60 Hz
+// periods, so the lowest trackable F0 rises accordingly.
+export const estimatePitch = (frame: Float32Array, sampleRate: number): PitchEstimate | null => {
+  const factor = Math.max(1, Math.floor(sampleRate / PITCH_RATE));
+  const rate = sampleRate / factor;
+  const n = Math.floor(frame.length / factor);
+  const x = scratch(decimationScratch, n);
+  for (let k = 0; k < n; k++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += frame[k * factor + j];
+    x[k] = sum / factor;
+  }
+
+  const minLag = Math.max(2, Math.floor(rate / PITCH_MAX_HZ));
+  const maxLag = Math.min(Math.ceil(rate / PITCH_MIN_HZ), Math.floor(n / 2) - 1);
+  if (maxLag <= minLag + 1) return null;
+  const window = n - maxLag - 1;
+
+  // Cumulative mean normalized difference function
+  const cmnd = scratch(cmndScratch, maxLag + 2);
+  cmnd[0] = 1;
+  let running = 0;
+  for (let tau = 1; tau <= maxLag + 1; tau++) {
+    let d = 0;
+    for (let j = 0; j < window; j++) {
+      const diff = x[j] - x[j + tau];
+      d += diff * diff;
+    }
+    running += d;
+    cmnd[tau] = running > 0 ? (d * tau) / running : 1;
+  }
+
+  // First dip under the threshold, followed down to its local minimum
+  let tau = -1;
+  for (let t = minLag; t <= maxLag; t++) {
+    if (cmnd[t] < YIN_THRESHOLD) {
+      while (t + 1 <= maxLag && cmnd[t + 1] < cmnd[t]) t++;
+      tau = t;
+      break;
+    }
+  }
+  if (tau < 0) return null;
+
+  // Parabolic interpolation around the minimum for sub-sample period accuracy
+  const a = cmnd[tau - 1], b = cmnd[tau], c = cmnd[tau + 1];
+  const denominator = a - 2 * b + c;
+  const shift = denominator !== 0 ? Math.max(-0.5, Math.min(0.5, (a - c) / (2 * denominator))) : 0;
+
+  let xy = 0, xx = 0, yy = 0;
+  for (let j = 0; j < window; j++) {
+    xy += x[j] * x[j + tau];
+    xx += x[j] * x[j];
+    yy += x[j + tau] * x[j + tau];
+  }
+  const r = Math.max(1e-6, Math.min(1 - 1e-6, xy / (Math.sqrt(xx * yy) || 1)));
+
+  return { f0Hz: rate / (tau + shift), hnrDb: 10 * Math.log10(r / (1 - r)) };
+};
+
+export interface PitchFrame {
+  pitch: PitchEstimate | null;
+  rms: number;
+}
+
+const semitones = (hz: number) => 12 * Math.log2(hz / 55);
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+
+// Statistics over the active frames, in time order. Jitter and shimmer are frame-level
+// (one period estimate per hop rather than per glottal cycle), so they compare files
+// analyzed here but not against cycle-level values from other tools.
+export const summarizePitch = (frames: PitchFrame[]): ProsodyMetrics | undefined => {
+  const voiced = frames.filter(f => f.pitch);
+  if (voiced.length < MIN_VOICED_FRAMES) return undefined;
+
+  const f0 = voiced.map(f => f.pitch!.f0Hz);
+  const st = f0.map(semitones);
+  const stMean = st.reduce((a, b) => a + b, 0) / st.length;
+  const sortedSt = [...st].sort((a, b) => a - b);
+
+  // Three-point perturbation (as in RAP / APQ3): each value against the mean of itself and
+  // its neighbours, so steady intonation glides and fades cancel out at any hop length.
+  let periodDev = 0, periodSum = 0, ampDev = 0, ampSum = 0, triples = 0;
+  for (let i = 1; i + 1 < frames.length; i++) {
+    const [prev, cur, next] = [frames[i - 1], frames[i], frames[i + 1]];
+    if (!prev.pitch || !cur.pitch || !next.pitch) continue;
+    const ratios = [cur.pitch.f0Hz / prev.pitch.f0Hz, next.pitch.f0Hz / cur.pitch.f0Hz];
+    if (ratios.some(r => r > MAX_PAIR_RATIO || r < 1 / MAX_PAIR_RATIO)) continue;
+    const periods = [prev, cur, next].map(f => 1 / f.pitch!.f0Hz);
+    periodDev += Math.abs(periods[1] - (periods[0] + periods[1] + periods[2]) / 3);
+    periodSum += periods[1];
+    ampDev += Math.abs(cur.rms - (prev.rms + cur.rms + next.rms) / 3);
+    ampSum += cur.rms;
+    triples++;
+  }
+  if (triples < MIN_VOICED_FRAMES / 2) return undefined;
+
+  return {
+    f0MeanHz: f0.reduce((a, b) => a + b, 0) / f0.length,
+    f0StdSemitones: Math.sqrt(st.reduce((a, b) => a + (b - stMean) ** 2, 0) / st.length),
+    f0RangeSemitones: percentile(sortedSt, 0.95) - percentile(sortedSt, 0.05),
+    jitterPct: (periodDev / periodSum) * 100,
+    shimmerPct: (ampDev / ampSum) * 100,
+    hnrDb: voiced.reduce((a, f) => a + f.pitch!.hnrDb, 0) / voiced.length,
+    voicedRatio: voiced.length / frames.length
+  };
+};
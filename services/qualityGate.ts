@@ -0,0 +1,113 @@
+import { DetectionProfile, InputQuality, QualityCheck } from "../types";
+import type { FrameRecord } from "./dspEngine";
+import { MIN_VOICED_FRAMES } from "./pitchTracker";
+
+// --- Input Quality Gate ---
+// Every rule assumes it is looking at speech. Silence, a fraction of a second of speech,
+// clipped or noise-buried audio give the rules nothing real to measure (with no gated
+// frames the mean rolloff is 0 Hz, which reads as band-limited), so such input gets an
+// Inconclusive verdict with the reasons instead of a confident label.
+
+// Flat tops within 0.1% of the clip level
+const CLIP_TOLERANCE = 0.999;
+
+// Samples in the frame's first hop sitting on a flat top at `level` (the previous sample is
+// there too). Counting one hop per frame covers every sample of the signal once.
+export const countClippedSamples = (frame: Float32Array, level: number, hopSize: number): number => {
+  const clip = level * CLIP_TOLERANCE;
+  let count = 0;
+  for (let i = 1; i <= hopSize && i < frame.length; i++) {
+    if (Math.abs(frame[i]) >= clip && Math.abs(frame[i - 1]) >= clip) count++;
+  }
+  return count;
+};
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+// Two estimates, and the better one is used. The level estimate is median speech level over
+// the 10th-percentile level of all audible frames (exact zeros left out, so zero-filled pauses
+// do not read as an infinitely quiet floor); it needs the level to dip between words. The
+// harmonic estimate is the median HNR of voiced frames, which stays high for clean speech that
+// never pauses and falls with the noise filling the gaps between harmonics.
+const estimateSnrDb = (frames: FrameRecord[], activeRmsGate: number): number | null => {
+  const active = frames.filter(f => f.rms > activeRmsGate);
+  const audible = frames.filter(f => f.rms > 0.00001).map(f => f.rms).sort((a, b) => a - b);
+  if (active.length === 0 || audible.length === 0) return null;
+  const speechLevel = percentile(active.map(f => f.rms).sort((a, b) => a - b), 0.5);
+  const levelSnr = 20 * Math.log10(speechLevel / percentile(audible, 0.1));
+
+  const hnr = active.filter(f => f.pitch).map(f => f.pitch!.hnrDb).sort((a, b) => a - b);
+  return hnr.length >= MIN_VOICED_FRAMES ? Math.max(levelSnr, percentile(hnr, 0.5)) : levelSnr;
+};
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+export const assessQuality = (
+  frames: FrameRecord[],
+  sampleRate: number,
+  hopSize: number,
+  profile: DetectionProfile
+): InputQuality => {
+  const t = profile.thresholds;
+  const activeCount = frames.filter(f => f.rms > t.activeRmsGate).length;
+  const speechSec = (activeCount * hopSize) / sampleRate;
+  const activeRatio = frames.length > 0 ? activeCount / frames.length : 0;
+  const clippedSamples = frames.reduce((sum, f) => sum + (f.clipped ?? 0), 0);
+  const clippingPct = frames.length > 0 ? (100 * clippedSamples) / (frames.length * hopSize) : 0;
+  const snrDb = estimateSnrDb(frames, t.activeRmsGate);
+
+  const checks: QualityCheck[] = [
+    {
+      id: 'speechDuration',
+      label: 'Speech duration',
+      value: round1(speechSec),
+      unit: 's',
+      threshold: `>= ${t.minSpeechSec} s`,
+      passed: speechSec >= t.minSpeechSec,
+      reason: activeCount === 0
+        ? "No frame is loud enough to count as speech."
+        : speechSec >= t.minSpeechSec
+          ? `${round1(speechSec)} s of active speech.`
+          : `Only ${round1(speechSec)} s of active speech; at least ${t.minSpeechSec} s is needed.`
+    },
+    {
+      id: 'activeRatio',
+      label: 'Active frames',
+      value: Math.round(activeRatio * 1000) / 10,
+      unit: '%',
+      threshold: `>= ${Math.round(t.minActiveRatio * 1000) / 10}%`,
+      passed: activeRatio >= t.minActiveRatio,
+      reason: activeRatio >= t.minActiveRatio
+        ? `${Math.round(activeRatio * 100)}% of frames carry speech.`
+        : `Only ${Math.round(activeRatio * 1000) / 10}% of frames carry speech; the rest is silence or noise.`
+    },
+    {
+      id: 'clipping',
+      label: 'Clipping',
+      value: Math.round(clippingPct * 100) / 100,
+      unit: '% samples',
+      threshold: `<= ${t.maxClippingPct}%`,
+      passed: clippingPct <= t.maxClippingPct,
+      reason: clippingPct <= t.maxClippingPct
+        ? "No significant clipping."
+        : `${Math.round(clippingPct * 100) / 100}% of samples are clipped; the distortion masks the spectral cues.`
+    },
+    {
+      id: 'snr',
+      label: 'Speech-to-noise ratio',
+      value: snrDb === null ? null : round1(snrDb),
+      unit: 'dB',
+      threshold: `>= ${t.minSnrDb} dB`,
+      // Not measurable without speech, which the duration check already reports
+      passed: snrDb === null || snrDb >= t.minSnrDb,
+      reason: snrDb === null
+        ? "Not measurable without active speech."
+        : snrDb >= t.minSnrDb
+          ? `Speech sits ${round1(snrDb)} dB above the noise.`
+          : `Speech sits only ${round1(snrDb)} dB above the noise.`
+    }
+  ];
+
+  return { passed: checks.every(c => c.passed), checks };
+};
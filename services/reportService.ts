@@ -0,0 +1,260 @@
+import { AnalysisReport, AnalysisResult } from "../types";
+import { ANALYZER_VERSION, APP_TITLE, REPORT_SCHEMA_VERSION } from "../constants";
+import { inspectContainer } from "./containerForensics";
+
+// --- Report Export ---
+
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Works on any Blob, so the Node CLI can build identical reports
+export const buildReport = async (
+  file: Blob,
+  name: string,
+  result: AnalysisResult
+): Promise<AnalysisReport> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return {
+    schema: 'sigspec.analysis-report',
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    analyzerVersion: ANALYZER_VERSION,
+    generatedAt: new Date().toISOString(),
+    file: {
+      name,
+      sizeBytes: file.size,
+      mimeType: file.type,
+      sha256: await hashFile(file),
+      durationSec: result.durationSec ?? null,
+      sampleRate: result.sampleRate ?? null
+    },
+    result,
+    container: inspectContainer(bytes, name)
+  };
+};
+
+export const reportToJson = (report: AnalysisReport) => JSON.stringify(report, null, 2);
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const snakeCase = (key: string) => key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+
+// One row per report; factor and feature columns are the union of every id seen
+export const reportsToCsv = (reports: AnalysisReport[]): string => {
+  const factorIds = Array.from(new Set(reports.flatMap(r => r.result.factors.map(f => f.id))));
+  const qualityIds = Array.from(new Set(reports.flatMap(r => (r.result.quality?.checks || []).map(c => c.id))));
+  const featureKeys = Array.from(new Set(reports.flatMap(r =>
+    (r.result.features || []).flatMap(e => e.metrics.map(m => `${e.id}.${m.key}`)))));
+  const header = [
+    'file', 'sha256', 'size_bytes', 'duration_sec', 'sample_rate',
+    'container', 'codec', 'native_sample_rate', 'bit_depth', 'channel_count', 'bitrate_kbps',
+    'classification', 'confidence', 'probability_ai', 'score', 'decision_threshold', 'profile', 'channel', 'lr_correlation',
+    'encoder', 'software', 'bitrate_mode', 'container_warnings',
+    'quality_issues', ...qualityIds.map(id => `quality_${snakeCase(id)}`),
+    'noise_floor_db', 'frequency_cutoff_hz', 'bandwidth_edge_hz', 'harmonic_regularity', 'energy_variation', 'breathing_artifacts',
+    ...featureKeys.map(k => { const [id, key] = k.split('.'); return `${id}_${snakeCase(key)}`; }),
+    ...factorIds.map(id => `factor_${id}`),
+    'discounted_points',
+    'analyzer_version', 'schema_version'
+  ];
+
+  const rows = reports.map(r => {
+    const m = r.result.metrics;
+    const src = r.result.source;
+    const featureValues = new Map<string, number | null>(
+      (r.result.features || []).flatMap(e => e.metrics.map(m => [`${e.id}.${m.key}`, m.value] as const)));
+    return [
+      r.file.name, r.file.sha256, r.file.sizeBytes, r.file.durationSec?.toFixed(3), r.file.sampleRate,
+      src?.container, src?.codec, src?.sampleRate, src?.bitsPerSample, src?.channels, src?.bitrateKbps,
+      r.result.classification, r.result.confidence, r.result.probabilityAI, r.result.score, r.result.decisionThreshold, r.result.profile?.id,
+      r.result.channel, r.result.stereo?.correlation.toFixed(4),
+      r.container?.encoder, r.container?.software, r.container?.bitrateMode,
+      r.container?.findings.filter(f => f.severity === 'warning').length,
+      (r.result.quality?.checks || []).filter(c => !c.passed).map(c => c.id).join(';'),
+      ...qualityIds.map(id => r.result.quality?.checks.find(c => c.id === id)?.value),
+      m.noiseFloorDb, m.frequencyCutoffHz, m.bandwidthEdgeHz, m.harmonicRegularityScore, m.energyVariationScore, m.breathingArtifactsDetected,
+      ...featureKeys.map(k => featureValues.get(k)),
+      ...factorIds.map(id => r.result.factors.filter(f => f.id === id).reduce((sum, f) => sum + f.points, 0)),
+      r.result.factors.reduce((sum, f) => sum + (f.originalPoints !== undefined ? f.originalPoints - f.points : 0), 0),
+      r.analyzerVersion, r.schemaVersion
+    ].map(csvCell).join(',');
+  });
+
+  return [header.join(','), ...rows].join('\r\n');
+};
+
+const verdictClass = (classification: string) =>
+  classification === 'AI-Generated Voice' ? 'ai' : classification === 'Inconclusive' ? 'inconclusive' : 'human';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Self-contained, print-ready dossier (no external assets)
+export const renderHtmlReport = (report: AnalysisReport, spectrogramDataUrl?: string): string => {
+  const { file, result } = report;
+  const source = result.source;
+  const isInconclusive = result.classification === 'Inconclusive';
+  const calibration = result.profile?.calibration;
+  const row = (label: string, value: string | number) =>
+    `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(String(value))}</td></tr>`;
+
+  const factorRows = result.factors
+    .map(f => `<tr><td>${escapeHtml(f.label)}</td><td class="num">${f.value} ${escapeHtml(f.unit)}</td><td>${escapeHtml(f.threshold)}</td><td class="num ${f.points > 0 ? 'ai' : 'human'}">${f.points > 0 ? '+' : ''}${f.points}${f.originalPoints !== undefined ? ` <s>+${f.originalPoints}</s>` : ''}</td><td>${escapeHtml(f.rationale)}${f.discountReason ? ` <span class="inconclusive">${escapeHtml(f.discountReason)}</span>` : ''}</td></tr>`)
+    .join('');
+  const channelRows = (result.channels || [])
+    .map(c => c.result
+      ? `<tr><td>${escapeHtml(c.label)}${c.label === result.channel ? ' (verdict)' : ''}</td><td class="${verdictClass(c.result.classification)}">${escapeHtml(c.result.classification)}</td><td class="num">${c.result.confidence}%</td><td class="num">${c.result.score}</td></tr>`
+      : `<tr><td>${escapeHtml(c.label)}</td><td>digitally silent</td><td></td><td></td></tr>`)
+    .join('');
+  const qualityRows = (result.quality?.checks || [])
+    .map(c => `<tr><td>${escapeHtml(c.label)}</td><td class="num">${c.value ?? 'n/a'} ${escapeHtml(c.unit)}</td><td>${escapeHtml(c.threshold)}</td><td class="${c.passed ? '' : 'inconclusive'}">${escapeHtml(c.reason)}</td></tr>`)
+    .join('');
+  const featureSections = (result.features || [])
+    .map(e => `<h2>${escapeHtml(e.label)}</h2>
+  <table class="kv">
+    ${e.metrics.map(m => row(m.label, m.value === null ? 'not measured' : `${m.value}${m.unit ? ` ${m.unit}` : ''}`)).join('')}
+  </table>`)
+    .join('\n\n  ');
+  const transcoding = result.transcoding;
+  const container = report.container;
+  const findingRows = (container?.findings || [])
+    .map(f => `<tr><td class="${f.severity === 'warning' ? 'ai' : ''}">${f.severity}</td><td>${escapeHtml(f.message)}</td></tr>`)
+    .join('');
+  const tagRows = (container?.tags || [])
+    .map(t => `<tr><td>${escapeHtml(t.block)}</td><td class="mono">${escapeHtml(t.key)}</td><td>${escapeHtml(t.value)}</td></tr>`)
+    .join('');
+  const breathRows = (result.breathing?.breaths || [])
+    .map(b => `<tr><td>${b.startSec.toFixed(2)}s - ${b.endSec.toFixed(2)}s</td><td class="num">${b.levelDb} dB</td></tr>`)
+    .join('');
+  const segmentRows = (result.segments || [])
+    .map(s => `<tr><td>${s.startSec.toFixed(1)}s - ${s.endSec.toFixed(1)}s</td><td class="${verdictClass(s.classification)}">${escapeHtml(s.classification)}</td><td class="num">${s.confidence}%</td></tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(APP_TITLE)} Report - ${escapeHtml(file.name)}</title>
+<style>
+  body { font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; color: #0f172a; max-width: 900px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.4rem; margin-bottom: 0; }
+  h2 { font-size: 1rem; text-transform: uppercase; letter-spacing: 0.08em; color: #475569; border-bottom: 1px solid #cbd5e1; padding-bottom: 0.25rem; margin-top: 2rem; }
+  .meta { color: #64748b; font-size: 0.8rem; }
+  .verdict { font-size: 1.6rem; font-weight: 700; margin: 1rem 0 0.25rem; }
+  .ai { color: #b91c1c; }
+  .human { color: #15803d; }
+  .inconclusive { color: #b45309; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.85rem; }
+  th, td { text-align: left; padding: 0.3rem 0.5rem; border-bottom: 1px solid #e2e8f0; }
+  th { color: #475569; font-weight: 500; }
+  table.kv th { width: 35%; }
+  td.num { text-align: right; font-family: ui-monospace, monospace; }
+  .mono { font-family: ui-monospace, monospace; word-break: break-all; }
+  img { width: 100%; border: 1px solid #cbd5e1; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } table, img { break-inside: avoid; } }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(APP_TITLE)} - Analysis Report</h1>
+  <div class="meta">Analyzer v${escapeHtml(report.analyzerVersion)} &middot; schema v${report.schemaVersion} &middot; generated ${escapeHtml(report.generatedAt)}</div>
+
+  <div class="verdict ${verdictClass(result.classification)}">${escapeHtml(result.classification)}${isInconclusive ? '' : ` (${result.confidence}%)`}</div>
+  <div class="meta">${isInconclusive
+    ? 'No verdict: the input failed the quality checks below. The score is shown for review only.'
+    : result.probabilityAI !== undefined
+    ? `Calibrated: P(AI) = ${result.probabilityAI} (${escapeHtml(calibration!.method)} fit on ${calibration!.corpus.human} human and ${calibration!.corpus.ai} AI files)`
+    : 'Heuristic confidence; the profile has no calibration, so this is not a probability.'}</div>
+  <div>Score ${result.score} against decision threshold ${result.decisionThreshold}. ${escapeHtml(result.keyObservation)}</div>
+  <p>${escapeHtml(result.explanation)}</p>
+
+  <h2>Evidence File</h2>
+  <table class="kv">
+    ${row('File name', file.name)}
+    ${row('Size', `${file.sizeBytes} bytes`)}
+    ${row('MIME type', file.mimeType || 'unknown')}
+    <tr><th>SHA-256</th><td class="mono">${file.sha256}</td></tr>
+    ${row('Duration', file.durationSec !== null ? `${file.durationSec.toFixed(3)} s` : 'unknown')}
+    ${row('Analysis sample rate', file.sampleRate !== null ? `${file.sampleRate} Hz` : 'unknown')}
+    ${source ? [
+      row('Container / codec', `${source.container} / ${source.codec}`),
+      row('Native sample rate', source.sampleRate !== null ? `${source.sampleRate} Hz` : 'not declared'),
+      row('Bit depth', source.bitsPerSample !== null ? `${source.bitsPerSample}-bit` : 'n/a'),
+      row('Channels', source.channels ?? 'not declared'),
+      row('Bitrate', source.bitrateKbps !== null ? `${source.bitrateKbps} kbps` : 'unknown')
+    ].join('') : ''}
+  </table>
+
+  ${container ? `<h2>Container Forensics</h2>
+  <table class="kv">
+    ${row('Container / codec', `${container.container} / ${container.codec}`)}
+    ${row('Encoder', container.encoder || 'not identified')}
+    ${row('Creation software', container.software || 'not identified')}
+    ${row('Created', container.createdAt || 'not recorded')}
+    ${row('Bitrate mode', container.bitrateMode)}
+    ${row('Structure', container.structure.join(' / ') || 'n/a')}
+  </table>
+  ${findingRows ? `<table>${findingRows}</table>` : ''}
+  ${tagRows ? `<table><tr><th>Block</th><th>Key</th><th>Value</th></tr>${tagRows}</table>` : ''}` : ''}
+
+  ${spectrogramDataUrl ? `<h2>Spectrogram</h2><img src="${spectrogramDataUrl}" alt="Spectrogram of ${escapeHtml(file.name)}" />` : ''}
+
+  <h2>Detection Profile</h2>
+  <table class="kv">
+    ${row('Profile', result.profile ? `${result.profile.name} (${result.profile.id})` : 'default')}
+    ${calibration ? row('Calibration', `${calibration.method}, fitted ${calibration.fittedAt} on ${calibration.corpus.human} human / ${calibration.corpus.ai} AI files`) : ''}
+    ${result.profile ? Object.entries(result.profile.thresholds).map(([k, v]) => row(`Threshold: ${k}`, v)).join('') : ''}
+  </table>
+
+  ${qualityRows ? `<h2>Input Quality</h2>
+  <table>
+    <tr><th>Check</th><th>Measured</th><th>Required</th><th>Result</th></tr>
+    ${qualityRows}
+  </table>` : ''}
+
+  <h2>Spectral Metrics</h2>
+  <table class="kv">
+    ${row('Noise floor (est.)', `${result.metrics.noiseFloorDb} dB`)}
+    ${row('Frequency cutoff (85% rolloff)', `${result.metrics.frequencyCutoffHz} Hz`)}
+    ${result.metrics.bandwidthEdgeHz !== undefined ? row('True bandwidth (-60 dB edge)', `${result.metrics.bandwidthEdgeHz} Hz`) : ''}
+    ${row('Harmonic regularity', `${result.metrics.harmonicRegularityScore}/100`)}
+    ${row('Energy variation', `${result.metrics.energyVariationScore}/100`)}
+  </table>
+
+  ${featureSections}
+
+  ${transcoding ? `<h2>Transcoding Evidence</h2>
+  <p>Codec likelihood ${Math.round(transcoding.codecLikelihood * 100)}%; ${transcoding.generations === 0 ? 'no lossy generation' : transcoding.generations === 1 ? 'one lossy generation' : 'two or more lossy generations'}.</p>
+  <ul>${transcoding.evidence.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>` : ''}
+
+  ${breathRows ? `<h2>Breath Events</h2><table><tr><th>Breath</th><th>Peak level vs. speech</th></tr>${breathRows}</table>` : ''}
+
+  <h2>Score Contributions</h2>
+  <table>
+    <tr><th>Rule</th><th>Measured</th><th>Condition</th><th>Points</th><th>Rationale</th></tr>
+    ${factorRows}
+    <tr><th>Total</th><td></td><td>AI if &gt; ${result.decisionThreshold}</td><td class="num">${result.score}</td><td></td></tr>
+  </table>
+
+  ${channelRows ? `<h2>Channels</h2><table><tr><th>Channel</th><th>Verdict</th><th>Confidence</th><th>Score</th></tr>${channelRows}</table>` : ''}
+  ${result.stereo ? `<p>L/R correlation ${result.stereo.correlation.toFixed(3)}${result.stereo.identical ? ' (bit-identical channels)' : ''}; side level ${result.stereo.sideLevelDb} dB relative to mid.</p>` : ''}
+
+  ${segmentRows ? `<h2>Segment Timeline</h2><table>${segmentRows}</table>` : ''}
+</body>
+</html>`;
+};
+
+export const downloadText = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Strips the extension so exports read e.g. "call-0412.report.json"
+export const reportBaseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || 'analysis';
@@ -0,0 +1,250 @@
+import { getRealFFT } from "./fft";
+import { decodeAudioFile } from "./analysisService";
+
+// --- Offline Spectrogram ---
+// Full-file STFT computed up front, independent of playback.
+
+// Upper bound on stored frames; longer files get a wider hop instead
+export const MAX_SPECTROGRAM_FRAMES = 20000;
+
+export interface SpectrogramData {
+  frames: number;
+  bins: number;
+  sampleRate: number;
+  fftSize: number;
+  hopSize: number;
+  db: Float32Array; // frames x bins, row-major by frame
+}
+
+export const computeSpectrogram = (
+  samples: Float32Array,
+  sampleRate: number,
+  fftSize = 1024,
+  requestedHop = fftSize / 2
+): SpectrogramData => {
+  const hopSize = Math.max(requestedHop, Math.ceil((samples.length - fftSize) / MAX_SPECTROGRAM_FRAMES));
+  const engine = getRealFFT(fftSize);
+  const bins = fftSize / 2;
+  const frames = Math.max(0, Math.floor((samples.length - fftSize) / hopSize) + 1);
+  const db = new Float32Array(frames * bins);
+  const mag = new Float32Array(bins);
+  // Hann window coherent gain is 0.5, so a full-scale sine peaks near 0 dB
+  const norm = 2 / (fftSize * 0.5);
+
+  for (let f = 0; f < frames; f++) {
+    engine.magnitudeSpectrum(samples.subarray(f * hopSize, f * hopSize + fftSize), mag);
+    const row = f * bins;
+    for (let b = 0; b < bins; b++) db[row + b] = 20 * Math.log10(mag[b] * norm + 1e-10);
+  }
+
+  return { frames, bins, sampleRate, fftSize, hopSize, db };
+};
+
+// --- Colormaps ---
+
+export type ColormapName = 'viridis' | 'magma' | 'grayscale' | 'heatmap';
+
+export const COLORMAP_NAMES: ColormapName[] = ['viridis', 'magma', 'grayscale', 'heatmap'];
+
+// Ten evenly spaced stops sampled from matplotlib's perceptually uniform maps
+const COLORMAP_STOPS: Record<'viridis' | 'magma', string[]> = {
+  viridis: ['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725'],
+  magma: ['#000004', '#180f3d', '#440f76', '#721f81', '#9e2f7f', '#cd4071', '#f1605d', '#fd9668', '#feca8d', '#fcfdbf']
+};
+
+const colormapCache = new Map<ColormapName, Uint8Array>();
+
+// 256-entry RGB lookup table
+export const getColormap = (name: ColormapName): Uint8Array => {
+  let lut = colormapCache.get(name);
+  if (lut) return lut;
+
+  lut = new Uint8Array(256 * 3);
+  for (let v = 0; v < 256; v++) {
+    let rgb: number[];
+    if (name === 'grayscale') {
+      rgb = [v, v, v];
+    } else if (name === 'heatmap') {
+      // Blue -> Green -> Red, as in the live view
+      rgb = [v, v > 100 ? v : 0, 255 - v];
+    } else {
+      const stops = COLORMAP_STOPS[name].map(hex => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)));
+      const pos = (v / 255) * (stops.length - 1);
+      const lo = Math.floor(pos);
+      const hi = Math.min(stops.length - 1, lo + 1);
+      const t = pos - lo;
+      rgb = [0, 1, 2].map(c => Math.round(stops[lo][c] + (stops[hi][c] - stops[lo][c]) * t));
+    }
+    lut.set(rgb, v * 3);
+  }
+  colormapCache.set(name, lut);
+  return lut;
+};
+
+// --- Frequency Axis ---
+
+export type FrequencyScale = 'linear' | 'log' | 'mel';
+
+// Lowest frequency a log axis will show; 0 Hz has no logarithm
+export const LOG_MIN_HZ = 20;
+
+export const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+export const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+// Maps a frequency to 0 (minHz, bottom) .. 1 (maxHz, top) on the chosen axis
+export const frequencyToPosition = (hz: number, scale: FrequencyScale, minHz: number, maxHz: number): number => {
+  if (scale === 'log') {
+    const lo = Math.max(LOG_MIN_HZ, minHz);
+    return Math.log(Math.max(hz, lo) / lo) / Math.log(maxHz / lo);
+  }
+  if (scale === 'mel') return (hzToMel(hz) - hzToMel(minHz)) / (hzToMel(maxHz) - hzToMel(minHz));
+  return (hz - minHz) / (maxHz - minHz);
+};
+
+export const positionToFrequency = (pos: number, scale: FrequencyScale, minHz: number, maxHz: number): number => {
+  if (scale === 'log') {
+    const lo = Math.max(LOG_MIN_HZ, minHz);
+    return lo * (maxHz / lo) ** pos;
+  }
+  if (scale === 'mel') return melToHz(hzToMel(minHz) + pos * (hzToMel(maxHz) - hzToMel(minHz)));
+  return minHz + pos * (maxHz - minHz);
+};
+
+// --- Rendering ---
+
+export interface SpectrogramView {
+  startSec: number;
+  endSec: number;
+  minHz: number;
+  maxHz: number;
+  scale: FrequencyScale;
+  minDb: number;
+  maxDb: number;
+  colormap: ColormapName;
+}
+
+export const fullView = (spec: SpectrogramData, overrides: Partial<SpectrogramView> = {}): SpectrogramView => ({
+  startSec: 0,
+  endSec: (spec.frames * spec.hopSize) / spec.sampleRate,
+  minHz: 0,
+  maxHz: spec.sampleRate / 2,
+  scale: 'linear',
+  minDb: -100,
+  maxDb: 0,
+  colormap: 'viridis',
+  ...overrides
+});
+
+// Level at a time/frequency point, or null outside the analyzed range
+export const sampleSpectrogram = (spec: SpectrogramData, timeSec: number, hz: number): number | null => {
+  const frame = Math.floor((timeSec * spec.sampleRate) / spec.hopSize);
+  const bin = Math.round((hz / (spec.sampleRate / 2)) * spec.bins);
+  if (frame < 0 || frame >= spec.frames || bin < 0 || bin >= spec.bins) return null;
+  return spec.db[frame * spec.bins + bin];
+};
+
+// Paints the visible window into `img`. Each pixel takes the loudest frame/bin it
+// covers, so narrow transients and brick-wall edges survive when zoomed out.
+export const paintSpectrogramView = (img: ImageData, spec: SpectrogramData, view: SpectrogramView) => {
+  const { width, height, data } = img;
+  const lut = getColormap(view.colormap);
+  const range = view.maxDb - view.minDb;
+  const framesPerSec = spec.sampleRate / spec.hopSize;
+  const binHz = spec.sampleRate / 2 / spec.bins;
+  const column = new Float32Array(spec.bins);
+
+  // Bin span for every pixel row, top row = highest frequency
+  const rowLo = new Int32Array(height);
+  const rowHi = new Int32Array(height);
+  for (let y = 0; y < height; y++) {
+    const top = positionToFrequency(1 - y / height, view.scale, view.minHz, view.maxHz);
+    const bottom = positionToFrequency(1 - (y + 1) / height, view.scale, view.minHz, view.maxHz);
+    rowLo[y] = Math.max(0, Math.min(spec.bins - 1, Math.floor(bottom / binHz)));
+    rowHi[y] = Math.max(rowLo[y], Math.min(spec.bins - 1, Math.floor(top / binHz)));
+  }
+
+  const secPerPixel = (view.endSec - view.startSec) / width;
+  for (let x = 0; x < width; x++) {
+    const f0 = Math.floor((view.startSec + x * secPerPixel) * framesPerSec);
+    const f1 = Math.max(f0, Math.floor((view.startSec + (x + 1) * secPerPixel) * framesPerSec) - 1);
+    const hasData = f0 >= 0 && f0 < spec.frames;
+
+    if (hasData) {
+      column.fill(-Infinity);
+      for (let f = f0; f <= Math.min(f1, spec.frames - 1); f++) {
+        const row = f * spec.bins;
+        for (let b = 0; b < spec.bins; b++) if (spec.db[row + b] > column[b]) column[b] = spec.db[row + b];
+      }
+    }
+
+    for (let y = 0; y < height; y++) {
+      const i = (y * width + x) * 4;
+      if (!hasData) {
+        data[i] = data[i + 1] = data[i + 2] = 0;
+        data[i + 3] = 255;
+        continue;
+      }
+      let level = -Infinity;
+      for (let b = rowLo[y]; b <= rowHi[y]; b++) if (column[b] > level) level = column[b];
+      const v = Math.round(255 * Math.max(0, Math.min(1, (level - view.minDb) / range)));
+      data[i] = lut[v * 3];
+      data[i + 1] = lut[v * 3 + 1];
+      data[i + 2] = lut[v * 3 + 2];
+      data[i + 3] = 255;
+    }
+  }
+};
+
+// Paints the spectrogram one pixel per frame/bin (low frequencies at the bottom)
+export const renderSpectrogramCanvas = (
+  spec: SpectrogramData,
+  minDb = -100,
+  maxDb = 0,
+  colormap: ColormapName = 'heatmap'
+): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, spec.frames);
+  canvas.height = spec.bins;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || spec.frames === 0) return canvas;
+
+  const img = ctx.createImageData(spec.frames, spec.bins);
+  const lut = getColormap(colormap);
+  const range = maxDb - minDb;
+  for (let x = 0; x < spec.frames; x++) {
+    for (let b = 0; b < spec.bins; b++) {
+      const v = Math.round(255 * Math.max(0, Math.min(1, (spec.db[x * spec.bins + b] - minDb) / range)));
+      const y = spec.bins - 1 - b;
+      const i = (y * spec.frames + x) * 4;
+      img.data[i] = lut[v * 3];
+      img.data[i + 1] = lut[v * 3 + 1];
+      img.data[i + 2] = lut[v * 3 + 2];
+      img.data[i + 3] = 255;
+    }
+  }
+  ctx.putImageData(img, 0, 0);
+  return canvas;
+};
+
+const SNAPSHOT_MAX_FRAMES = 1200;
+
+// PNG data URL of the whole-file spectrogram for embedding in the HTML report
+// (or, smaller, as a case-history thumbnail)
+export const renderSpectrogramSnapshot = async (file: File, width = 900, height = 300): Promise<string> => {
+  const decoded = await decodeAudioFile(file);
+  const samples = decoded.channels[0];
+  const fftSize = 1024;
+  // Widen the hop on long files so the snapshot stays a bounded size
+  const hopSize = Math.max(fftSize / 2, Math.ceil(samples.length / SNAPSHOT_MAX_FRAMES));
+  const canvas = renderSpectrogramCanvas(computeSpectrogram(samples, decoded.sampleRate, fftSize, hopSize));
+
+  const out = document.createElement('canvas');
+  out.width = width;
+  out.height = height;
+  const ctx = out.getContext('2d');
+  if (ctx) {
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(canvas, 0, 0, out.width, out.height);
+  }
+  return out.toDataURL('image/png');
+};
@@ -0,0 +1,134 @@
+import { DetectionProfile, StreamingUpdate } from "../types";
+import {
+  FFT_SIZE,
+  HOP_SIZE,
+  FrameRecord,
+  ZeroRun,
+  frameRms,
+  computeSpectralFeatures,
+  classifyFrames
+} from "./dspEngine";
+import { DEFAULT_PROFILE } from "./detectionProfiles";
+import { estimatePitch } from "./pitchTracker";
+import { countClippedSamples } from "./qualityGate";
+
+// --- Streaming (Live-Call) Analysis ---
+// Frames incoming chunks exactly like analyzeAudioSignal does, but keeps the features
+// for a rolling window only, so a synthetic voice that joins mid-call is not diluted
+// by the minutes of human speech that came before it.
+
+export interface StreamingAnalyzerOptions {
+  sampleRate: number;
+  windowSec?: number;
+  updateIntervalSec?: number;
+  profile?: DetectionProfile;
+  onUpdate: (update: StreamingUpdate) => void;
+}
+
+export interface StreamingAnalyzer {
+  push: (chunk: Float32Array) => void;
+  reset: () => void;
+}
+
+interface StreamFrame extends FrameRecord {
+  peak: number;
+}
+
+export const createStreamingAnalyzer = ({
+  sampleRate,
+  windowSec = 10,
+  updateIntervalSec = 3,
+  profile = DEFAULT_PROFILE,
+  onUpdate
+}: StreamingAnalyzerOptions): StreamingAnalyzer => {
+  const windowSamples = Math.round(windowSec * sampleRate);
+  const intervalSamples = Math.round(updateIntervalSec * sampleRate);
+
+  let tail = new Float32Array(0);   // samples not yet consumed by a full frame
+  let tailStart = 0;                // absolute index of tail[0]
+  let samplesSeen = 0;
+  let lastEmitSample = 0;
+  let frames: StreamFrame[] = [];
+  let zeroRuns: ZeroRun[] = [];
+  let currentZeroRun = 0;
+
+  const reset = () => {
+    tail = new Float32Array(0);
+    tailStart = 0;
+    samplesSeen = 0;
+    lastEmitSample = 0;
+    frames = [];
+    zeroRuns = [];
+    currentZeroRun = 0;
+  };
+
+  const trackZeroRuns = (chunk: Float32Array) => {
+    for (let i = 0; i < chunk.length; i++) {
+      if (chunk[i] === 0) {
+        currentZeroRun++;
+      } else {
+        if (currentZeroRun > 0) zeroRuns.push({ startSample: samplesSeen + i - currentZeroRun, length: currentZeroRun });
+        currentZeroRun = 0;
+      }
+    }
+  };
+
+  const emit = () => {
+    const windowStart = samplesSeen - windowSamples;
+    frames = frames.filter(f => f.startSample >= windowStart);
+    zeroRuns = zeroRuns.filter(r => r.startSample + r.length >= windowStart);
+    if (frames.length === 0) return;
+
+    // Mirror the batch peak normalization, but per window
+    const windowPeak = frames.reduce((m, f) => Math.max(m, f.peak), 0);
+    const scalar = windowPeak > 0 ? 0.95 / windowPeak : 1;
+
+    const scaledFrames = frames.map(f => ({ ...f, rms: f.rms * scalar }));
+    const maxZeroRun = zeroRuns.reduce((m, r) => Math.max(m, r.length), currentZeroRun);
+
+    onUpdate({
+      timeSec: samplesSeen / sampleRate,
+      windowSec: Math.min(samplesSeen, windowSamples) / sampleRate,
+      result: classifyFrames({ frames: scaledFrames, sampleRate, maxZeroRun, profile })
+    });
+  };
+
+  const push = (chunk: Float32Array) => {
+    trackZeroRuns(chunk);
+
+    const buffer = new Float32Array(tail.length + chunk.length);
+    buffer.set(tail);
+    buffer.set(chunk, tail.length);
+    samplesSeen += chunk.length;
+
+    let pos = 0;
+    for (; pos + FFT_SIZE <= buffer.length; pos += HOP_SIZE) {
+      const frame = buffer.subarray(pos, pos + FFT_SIZE);
+      const rms = frameRms(frame);
+      let peak = 0;
+      for (let i = 0; i < frame.length; i++) {
+        const v = Math.abs(frame[i]);
+        if (v > peak) peak = v;
+      }
+      // The normalization gain is only known per window, so spectral and pitch features are kept
+      // for every non-silent frame and gated at emit time.
+      frames.push({
+        startSample: tailStart + pos,
+        rms,
+        peak,
+        spectral: rms > 0 ? computeSpectralFeatures(frame, sampleRate) : null,
+        pitch: rms > 0 ? estimatePitch(frame, sampleRate) : null,
+        clipped: countClippedSamples(frame, 1, HOP_SIZE) // live input clips at full scale
+      });
+    }
+    tail = buffer.slice(pos);
+    tailStart += pos;
+
+    if (samplesSeen - lastEmitSample >= intervalSamples) {
+      lastEmitSample = samplesSeen;
+      emit();
+    }
+  };
+
+  return { push, reset };
+};
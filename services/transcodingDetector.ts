@@ -0,0 +1,364 @@
+import { FrameGrid, SourceFormat, SpectralCliff, TranscodingAnalysis } from "../types";
+import { getRealFFT } from "./fft";
+import type { FrameRecord } from "./dspEngine";
+
+// --- Transcoding Detector ---
+// Lossy codecs leave three kinds of trace: a lowpass well below Nyquist, spectral holes
+// where the bit allocator quantized whole bands away, and (after a re-encode) a grid of
+// requantization boundaries at the codec's frame length. Codec processing also produces
+// cues the scoring rules read as synthetic, such as a squelched noise floor, zero-filled
+// pauses and a rigid band edge, so the codec extractor discounts those factors by the
+// likelihood measured here. Pure, so it runs inside the worker.
+
+const toDb = (power: number) => 10 * Math.log10(power + 1e-20);
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// --- Lowpass Cliff ---
+
+const CLIFF_MIN_HZ = 3000;
+const CLIFF_SPAN_HZ = 500;       // passband and stopband windows either side of the edge
+const CLIFF_GAP_HZ = 100;        // transition band left out between them
+const CLIFF_MIN_DROP_DB = 18;    // natural speech rolls off by ~10 dB over the same span
+const CLIFF_EDGE_DB = 10;
+const CODEC_MIN_LOWPASS_HZ = 5000;  // even 32 kbps MP3 keeps more; lower edges are the content's own
+const NYQUIST_TOLERANCE = 0.02;
+const STANDARD_RATES = [8000, 11025, 16000, 22050, 24000, 32000, 44100, 48000];
+
+const LOWPASS_HINTS: { maxHz: number; hint: string }[] = [
+  { maxHz: 11000, hint: 'typical of low-bitrate (64 kbps or less) MP3 or AAC' },
+  { maxHz: 15500, hint: 'typical of 64-96 kbps MP3 or AAC' },
+  { maxHz: 19000, hint: 'typical of 128-192 kbps MP3, AAC or Vorbis' },
+  { maxHz: Infinity, hint: 'typical of Opus fullband or 256-320 kbps MP3/AAC' }
+];
+
+// Steepest drop in the long-term spectrum above 3 kHz, located at its -10 dB point
+const findCliff = (powerSum: Float64Array, sampleRate: number): SpectralCliff | null => {
+  const binHz = sampleRate / (powerSum.length * 2);
+  const prefix = new Float64Array(powerSum.length + 1);
+  for (let k = 0; k < powerSum.length; k++) prefix[k + 1] = prefix[k] + toDb(powerSum[k]);
+  const meanDb = (lo: number, hi: number) => (prefix[hi] - prefix[lo]) / (hi - lo);
+
+  const span = Math.round(CLIFF_SPAN_HZ / binHz);
+  const gap = Math.round(CLIFF_GAP_HZ / binHz);
+  // Stay clear of the anti-alias rolloff just below this file's own Nyquist
+  const last = Math.floor(0.95 * powerSum.length) - span;
+  let best = -1;
+  let bestDrop = 0;
+  let passDb = 0;
+  for (let k = Math.max(span, Math.round(CLIFF_MIN_HZ / binHz)); k < last; k++) {
+    const pass = meanDb(k - span, k - gap);
+    const drop = pass - meanDb(k + gap, k + span);
+    if (drop > bestDrop) {
+      bestDrop = drop;
+      best = k;
+      passDb = pass;
+    }
+  }
+  if (best < 0 || bestDrop < CLIFF_MIN_DROP_DB) return null;
+
+  let edge = best - gap;
+  while (edge < powerSum.length - 1 && toDb(powerSum[edge]) > passDb - CLIFF_EDGE_DB) edge++;
+  const frequencyHz = Math.round(edge * binHz);
+  const rate = STANDARD_RATES.find(r => Math.abs(frequencyHz - r / 2) <= NYQUIST_TOLERANCE * r / 2);
+  if (!rate && frequencyHz < CODEC_MIN_LOWPASS_HZ) return null;
+  return {
+    frequencyHz,
+    dropDb: round(bestDrop, 1),
+    kind: rate ? 'resampling' : 'codec',
+    hint: rate
+      ? `Nyquist of a ${rate} Hz source`
+      : LOWPASS_HINTS.find(h => frequencyHz <= h.maxHz)!.hint
+  };
+};
+
+// --- Spectral Holes & Frame Grid ---
+// One short-time pass over the active speech. Holes are cells far below their neighbours
+// in frequency, in runs as wide as a scale-factor band quantized to zero. A noiseless synthetic
+// voice has deep notches too, but they glide with the formants; a codec re-allocates bits
+// every frame, so its holes come and go. Only holes gone one window later count as codec
+// evidence. The grid test folds the frame-to-frame spectral change at each codec's frame length;
+// every boundary requantizes the spectrum, and a re-encode whose frames do not line up with
+// the first encode's makes those boundaries stand out.
+
+const STFT_SIZE = 512;
+const STFT_HOP = 32;
+const HOLE_EVERY = 8;            // hole census on every 8th frame, i.e. at 50% overlap
+const HOLE_RECHECK = 2;          // census frames to the next non-overlapping window
+const HOLE_MIN_HZ = 2000;
+const HOLE_NEIGHBOURS = 6;       // bins either side
+const HOLE_DEPTH = 1e-3;         // 30 dB below the neighbours' mean power
+const HOLE_BAND_FLOOR = 1e-6;    // bands 60 dB under the frame's peak carry nothing to carve holes from
+const HOLE_MIN_RUN_HZ = 250;     // a zeroed scale-factor band spans this much; valleys between harmonics do not
+const FLUX_MIN_HZ = 3000;
+const FLUX_MAX_HZ = 16000;
+const MIN_FLUX_FRAMES = 500;
+
+const GRID_CANDIDATES: { period: (sampleRate: number) => number; codec: string }[] = [
+  { period: () => 576, codec: 'MP3 granule' },
+  { period: () => 1152, codec: 'MP3 frame' },
+  { period: () => 1024, codec: 'AAC frame' }
+];
+// Opus and telephony frames (10/20 ms) are left out: neural vocoders run on 10-12.5 ms hops,
+// and a vocoder's frame grid must not be excused as a codec's.
+// No codec frames at these lengths; their median is what an unstructured signal folds to
+const CONTROL_PERIODS = [509, 613, 701, 797, 911, 997, 1103, 1237, 1409, 1523];
+const GRID_MIN_PROMINENCE = 8;
+const GRID_SHARPNESS = 2;        // must beat the fold 3% either side; a voice drifts, a codec grid does not
+const PITCH_TOLERANCE = 0.02;
+
+interface FluxSeries {
+  values: Float64Array; // NaN where the frame or its predecessor was not active speech
+  mean: number;
+  variance: number;
+  count: number;
+}
+
+// Between-phase variance of the flux folded at `period`, relative to the flux variance (~1 when unstructured)
+const foldStrength = (flux: FluxSeries, period: number): number => {
+  const bins = Math.max(4, Math.round(period / STFT_HOP));
+  const sums = new Float64Array(bins);
+  const counts = new Float64Array(bins);
+  for (let t = 0; t < flux.values.length; t++) {
+    const v = flux.values[t];
+    if (Number.isNaN(v)) continue;
+    const bin = Math.floor((((t * STFT_HOP) % period) / period) * bins);
+    sums[bin] += v;
+    counts[bin]++;
+  }
+  let between = 0;
+  for (let b = 0; b < bins; b++) {
+    if (counts[b] > 0) between += counts[b] * (sums[b] / counts[b] - flux.mean) ** 2;
+  }
+  return between / (bins - 1) / (flux.variance + 1e-20);
+};
+
+const findGrid = (flux: FluxSeries, sampleRate: number, medianF0: number | null): FrameGrid | null => {
+  if (flux.count < MIN_FLUX_FRAMES) return null;
+  const controls = CONTROL_PERIODS.map(p => foldStrength(flux, p)).sort((a, b) => a - b);
+  const reference = controls[controls.length >> 1];
+  const pitchPeriod = medianF0 ? sampleRate / medianF0 : null;
+
+  let best: FrameGrid | null = null;
+  for (const candidate of GRID_CANDIDATES) {
+    const period = candidate.period(sampleRate);
+    // A steady voice repeats at its pitch period too
+    if (pitchPeriod && Array.from({ length: 8 }, (_, m) => (m + 1) * pitchPeriod)
+      .some(p => Math.abs(p - period) <= PITCH_TOLERANCE * period)) continue;
+    const strength = foldStrength(flux, period);
+    const prominence = strength / (reference + 1e-20);
+    if (prominence < GRID_MIN_PROMINENCE || (best && prominence <= best.prominence)) continue;
+    const sharp = strength > GRID_SHARPNESS * Math.max(foldStrength(flux, period * 0.97), foldStrength(flux, period * 1.03));
+    if (sharp) {
+      best = {
+        periodSamples: round(period, 1),
+        periodMs: round((1000 * period) / sampleRate, 2),
+        prominence: round(prominence, 1),
+        codec: candidate.codec
+      };
+    }
+  }
+  return best;
+};
+
+interface ShortTimeMeasures {
+  holePct: number | null;        // all holes
+  flickerPct: number | null;     // holes not present (within a bin) one window later
+  flux: FluxSeries;
+}
+
+const measureShortTime = (
+  data: Float32Array,
+  sampleRate: number,
+  frames: FrameRecord[],
+  hopSize: number,
+  activeRmsGate: number,
+  passbandHz: number
+): ShortTimeMeasures => {
+  const fft = getRealFFT(STFT_SIZE);
+  const magnitude = new Float32Array(STFT_SIZE / 2);
+  const binHz = sampleRate / STFT_SIZE;
+  const holeLo = Math.round(HOLE_MIN_HZ / binHz);
+  const holeHi = Math.min(STFT_SIZE / 2 - HOLE_NEIGHBOURS, Math.round((0.95 * passbandHz) / binHz));
+  const minRun = Math.max(2, Math.round(HOLE_MIN_RUN_HZ / binHz));
+  const fluxLo = Math.round(FLUX_MIN_HZ / binHz);
+  const fluxHi = Math.max(fluxLo + 1, Math.min(STFT_SIZE / 2, Math.round(Math.min(FLUX_MAX_HZ, 0.95 * passbandHz) / binHz)));
+  const isActive = (sample: number) => {
+    const frame = frames[Math.min(frames.length - 1, Math.floor(sample / hopSize))];
+    return !!frame && frame.rms > activeRmsGate;
+  };
+
+  const count = Math.max(0, Math.floor((data.length - STFT_SIZE) / STFT_HOP) + 1);
+  const values = new Float64Array(count).fill(NaN);
+  const power = new Float64Array(STFT_SIZE / 2);
+  let previous: Float64Array | null = null;
+  let current = new Float64Array(fluxHi - fluxLo);
+  // Deep-cell maps of recent census frames (0 = not a cell, 1 = cell, 2 = hole), by frame index
+  const census = new Map<number, Uint8Array>();
+  let holes = 0;
+  let cells = 0;
+  let flicker = 0;
+  let pairedCells = 0;
+
+  for (let t = 0; t < count; t++) {
+    const start = t * STFT_HOP;
+    if (!isActive(start) || !isActive(start + STFT_SIZE - 1)) {
+      previous = null;
+      continue;
+    }
+    const frame = data.subarray(start, start + STFT_SIZE);
+    let energy = 0;
+    for (let i = 0; i < STFT_SIZE; i++) energy += frame[i] * frame[i];
+    // Onsets and tails inside an active analysis frame sit near the quantization floor
+    if (Math.sqrt(energy / STFT_SIZE) <= activeRmsGate) {
+      previous = null;
+      continue;
+    }
+    fft.magnitudeSpectrum(frame, magnitude, 'hann');
+    for (let k = 0; k < power.length; k++) power[k] = magnitude[k] * magnitude[k];
+
+    for (let k = fluxLo; k < fluxHi; k++) current[k - fluxLo] = Math.log(power[k] + 1e-12);
+    if (previous) {
+      let change = 0;
+      for (let k = 0; k < current.length; k++) change += Math.abs(current[k] - previous[k]);
+      values[t] = change / current.length;
+    }
+    const spare: Float64Array = previous ?? new Float64Array(current.length);
+    previous = current;
+    current = spare;
+
+    if (t % HOLE_EVERY !== 0) continue;
+    let peak = 0;
+    for (const p of power) if (p > peak) peak = p;
+    const map = new Uint8Array(power.length);
+    for (let k = holeLo; k < holeHi; k++) {
+      let neighbours = 0;
+      for (let j = k - HOLE_NEIGHBOURS; j <= k + HOLE_NEIGHBOURS; j++) if (j !== k) neighbours += power[j];
+      const bandLevel = neighbours / (2 * HOLE_NEIGHBOURS);
+      if (bandLevel < HOLE_BAND_FLOOR * peak) continue;
+      cells++;
+      map[k] = power[k] < HOLE_DEPTH * bandLevel ? 2 : 1;
+    }
+    // Deep bins in runs narrower than a band are notches, not holes
+    for (let k = holeLo; k < holeHi; ) {
+      if (map[k] !== 2) { k++; continue; }
+      let end = k;
+      while (end < holeHi && map[end] === 2) end++;
+      if (end - k < minRun) map.fill(1, k, end);
+      else holes += end - k;
+      k = end;
+    }
+
+    const earlierIndex = t - HOLE_RECHECK * HOLE_EVERY;
+    const earlier = census.get(earlierIndex);
+    if (earlier) {
+      for (let k = holeLo; k < holeHi; k++) {
+        if (earlier[k] === 0) continue;
+        pairedCells++;
+        if (earlier[k] === 2 && map[k - 1] !== 2 && map[k] !== 2 && map[k + 1] !== 2) flicker++;
+      }
+    }
+    census.delete(earlierIndex);
+    census.set(t, map);
+  }
+
+  let sum = 0;
+  let valid = 0;
+  for (const v of values) if (!Number.isNaN(v)) { sum += v; valid++; }
+  const mean = valid ? sum / valid : 0;
+  let variance = 0;
+  for (const v of values) if (!Number.isNaN(v)) variance += (v - mean) ** 2;
+
+  return {
+    holePct: cells > 0 ? round((100 * holes) / cells, 3) : null,
+    flickerPct: pairedCells > 0 ? round((100 * flicker) / pairedCells, 3) : null,
+    flux: { values, mean, variance: valid ? variance / valid : 0, count: valid }
+  };
+};
+
+// --- Entry Point ---
+
+// Lossless codecs as formatProbe names them; any other declared codec is lossy
+const LOSSLESS_CODECS = /^(PCM|IEEE float|FLAC|ALAC)/i;
+
+export const isLossyCodec = (codec: string) => codec !== 'unknown' && !LOSSLESS_CODECS.test(codec);
+
+const CLIFF_EVIDENCE = 0.6;
+const FLICKER_FLOOR_PCT = 0.25;  // uncompressed speech measures ~0.15%
+const FLICKER_FULL_PCT = 1;
+const FLICKER_EVIDENCE = 0.6;
+const GRID_EVIDENCE = 0.7;
+const LOSSY_LIKELIHOOD = 0.5;    // likelihood from which a lossy encode counts as evidenced
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length ? sorted[sorted.length >> 1] : null;
+};
+
+const formatKhz = (hz: number) => `${round(hz / 1000, 1)} kHz`;
+
+// `data` is the normalized buffer the frames were cut from; `powerSum` is the long-term
+// power spectrum of the active frames. `source` is the file as stored, when known: a
+// lossy codec declared there is certain evidence of one lossy generation.
+export const detectTranscoding = (
+  data: Float32Array,
+  sampleRate: number,
+  frames: FrameRecord[],
+  hopSize: number,
+  activeRmsGate: number,
+  powerSum: Float64Array,
+  source?: SourceFormat
+): TranscodingAnalysis => {
+  const cliff = findCliff(powerSum, sampleRate);
+  const passbandHz = Math.min(cliff ? cliff.frequencyHz : Infinity, sampleRate / 2);
+  const { holePct, flickerPct, flux } = measureShortTime(data, sampleRate, frames, hopSize, activeRmsGate, passbandHz);
+  const medianF0 = median(frames.filter(f => f.rms > activeRmsGate && f.pitch).map(f => f.pitch!.f0Hz));
+  const grid = findGrid(flux, sampleRate, medianF0);
+
+  // Independent evidence combined as noisy-OR. A resampling edge alone counts for nothing:
+  // synthesis at 16, 22.05 or 24 kHz upsampled for delivery shows exactly the same edge.
+  // Flicker only backs up a cliff or a grid: a noiseless synthetic signal has no floor to
+  // hide its spectral valleys in, and flickers just as much as a codec.
+  const codecCliff = cliff?.kind === 'codec';
+  const flickerShare = flickerPct === null || !(codecCliff || grid) ? 0
+    : Math.min(1, Math.max(0, (flickerPct - FLICKER_FLOOR_PCT) / (FLICKER_FULL_PCT - FLICKER_FLOOR_PCT)));
+  const evidence = [
+    codecCliff ? CLIFF_EVIDENCE : 0,
+    FLICKER_EVIDENCE * flickerShare,
+    grid ? GRID_EVIDENCE : 0
+  ];
+  const signalLikelihood = 1 - evidence.reduce((p, e) => p * (1 - e), 1);
+  const declaredLossy = !!source && isLossyCodec(source.codec);
+  const codecLikelihood = declaredLossy ? 1 : round(signalLikelihood, 2);
+
+  const findings: string[] = [];
+  if (declaredLossy) {
+    findings.push(`Stored as ${source!.codec}${source!.bitrateKbps !== null ? ` at ${source!.bitrateKbps} kbps` : ''}, a lossy codec.`);
+  } else if (source && signalLikelihood >= LOSSY_LIKELIHOOD) {
+    findings.push(`Stored as lossless ${source.codec} in ${source.container}, but the signal was decoded from a lossy encode.`);
+  }
+  if (codecCliff) {
+    findings.push(`Lowpass at ${formatKhz(cliff.frequencyHz)} with a ${cliff.dropDb} dB cliff, ${cliff.hint}.`);
+  } else if (cliff) {
+    findings.push(`Band edge at ${formatKhz(cliff.frequencyHz)} is the ${cliff.hint}: a resampling filter, which a codec need not explain.`);
+  }
+  if (flickerShare > 0) {
+    findings.push(`${flickerPct}% of passband time-frequency cells are holes that vanish a window later, as bit allocation does (uncompressed speech: about 0.15%).`);
+  }
+  if (grid) {
+    findings.push(`Spectral changes repeat every ${grid.periodMs} ms (${grid.periodSamples} samples, the ${grid.codec} length): requantization left by a re-encode.`);
+  }
+  if (findings.length === 0) findings.push("No lossy-codec traces found.");
+
+  return {
+    cliff,
+    holePct,
+    flickerPct,
+    grid,
+    codecLikelihood,
+    declaredLossy,
+    evidenceKinds: evidence.filter(e => e > 0).length,
+    generations: codecLikelihood < LOSSY_LIKELIHOOD ? 0 : grid ? 2 : 1,
+    evidence: findings
+  };
+};
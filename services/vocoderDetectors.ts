@@ -0,0 +1,386 @@
+import { VocoderMetrics } from "../types";
+import { getRealFFT, getWindow } from "./fft";
+import type { FrameRecord } from "./dspEngine";
+
+// --- Neural Vocoder Detectors ---
+// File-level measurements aimed at modern wideband synthesis, which sails through the
+// bandwidth and noise-floor checks. Pure, so it runs inside the worker. Each returns
+// null when the file is too short, too narrowband or too unvoiced to measure.
+
+const toDb = (power: number) => 10 * Math.log10(power + 1e-20);
+
+const wrapPhase = (phase: number) => phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI));
+
+const mean = (values: ArrayLike<number>) => {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return values.length ? sum / values.length : 0;
+};
+
+const std = (values: ArrayLike<number>) => {
+  const m = mean(values);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += (values[i] - m) ** 2;
+  return values.length ? Math.sqrt(sum / values.length) : 0;
+};
+
+const nextPowerOfTwo = (n: number) => Math.max(512, 2 ** Math.ceil(Math.log2(n)));
+
+const scratchBuffers = new Map<number, { windowed: Float32Array; re: Float32Array; im: Float32Array }>();
+
+const scratch = (n: number) => {
+  let buffers = scratchBuffers.get(n);
+  if (!buffers) {
+    buffers = { windowed: new Float32Array(n), re: new Float32Array(n / 2 + 1), im: new Float32Array(n / 2 + 1) };
+    scratchBuffers.set(n, buffers);
+  }
+  return buffers;
+};
+
+// --- Phase Coherence ---
+// Relative phase shift: each harmonic's phase minus h times the fundamental's. It is
+// independent of where the window falls, follows the glottal pulse shape, and so drifts
+// slowly in a real voice. Vocoders that generate phase per frame (or not at all) scramble it.
+
+const RPS_HARMONICS = 8;
+const RPS_MAX_HZ = 4000;
+const RPS_MIN_BINS_PER_HARMONIC = 4; // harmonics closer than this smear into each other
+const RPS_MAX_F0_RATIO = 1.1;        // consecutive frames must be on the same note
+const MIN_PHASE_PAIRS = 10;
+
+const relativePhaseShifts = (frame: Float32Array, sampleRate: number, f0: number): Float64Array | null => {
+  const n = frame.length;
+  const binHz = sampleRate / n;
+  if (f0 < RPS_MIN_BINS_PER_HARMONIC * binHz) return null;
+  const harmonics = Math.min(RPS_HARMONICS, Math.floor(Math.min(RPS_MAX_HZ, sampleRate * 0.45) / f0));
+  if (harmonics < 3) return null;
+
+  const { windowed, re, im } = scratch(n);
+  const window = getWindow(n, 'hann');
+  for (let i = 0; i < n; i++) windowed[i] = frame[i] * window[i];
+  getRealFFT(n).transform(windowed, re, im);
+
+  // Phase of the strongest bin near each harmonic, referenced to the window centre
+  const phases = new Float64Array(harmonics);
+  for (let h = 1; h <= harmonics; h++) {
+    const lo = Math.max(1, Math.round((h - 0.5) * f0 / binHz));
+    const hi = Math.min(n / 2 - 1, Math.round((h + 0.5) * f0 / binHz));
+    let best = lo;
+    let bestPower = -1;
+    for (let k = lo; k <= hi; k++) {
+      const power = re[k] * re[k] + im[k] * im[k];
+      if (power > bestPower) {
+        bestPower = power;
+        best = k;
+      }
+    }
+    phases[h - 1] = Math.atan2(im[best], re[best]) + Math.PI * best;
+  }
+
+  const shifts = new Float64Array(harmonics - 1);
+  for (let h = 2; h <= harmonics; h++) shifts[h - 2] = wrapPhase(phases[h - 1] - h * phases[0]);
+  return shifts;
+};
+
+// Mean frame-to-frame change of the relative phase shifts, as a fraction of pi.
+// 0 means locked phases; uniformly random phases average 0.5.
+const measurePhaseIncoherence = (data: Float32Array, frames: FrameRecord[], frameSize: number, sampleRate: number): number | null => {
+  let total = 0;
+  let pairs = 0;
+  let previous: { f0: number; shifts: Float64Array } | null = null;
+
+  for (const frame of frames) {
+    const f0 = frame.pitch?.f0Hz;
+    const shifts = f0 ? relativePhaseShifts(data.subarray(frame.startSample, frame.startSample + frameSize), sampleRate, f0) : null;
+    if (!f0 || !shifts) {
+      previous = null;
+      continue;
+    }
+    if (previous && Math.max(f0, previous.f0) / Math.min(f0, previous.f0) < RPS_MAX_F0_RATIO) {
+      const count = Math.min(shifts.length, previous.shifts.length);
+      let change = 0;
+      for (let h = 0; h < count; h++) change += Math.abs(wrapPhase(shifts[h] - previous.shifts[h]));
+      total += change / count / Math.PI;
+      pairs++;
+    }
+    previous = { f0, shifts };
+  }
+  return pairs >= MIN_PHASE_PAIRS ? total / pairs : null;
+};
+
+// --- High-Band Periodicity ---
+// Transposed-convolution upsampling layers leave evenly spaced spectral peaks above
+// 8 kHz. Speech harmonics smear out up there as pitch moves, so the long-term spectrum
+// of a real recording is smooth once its overall shape is removed.
+
+const HIGH_BAND_HZ = 8000;
+const DETREND_HZ = 1000;    // half-width of the moving average removed before autocorrelation
+const MIN_PEAK_SPACING_HZ = 60;
+const MIN_HIGH_BAND_BINS = 64;
+
+const measureHighBandPeriodicity = (powerSum: Float64Array, sampleRate: number, edgeHz: number | null): number | null => {
+  const binHz = sampleRate / (2 * powerSum.length);
+  const lo = Math.ceil(HIGH_BAND_HZ / binHz);
+  const hi = Math.floor(Math.min(sampleRate * 0.475, edgeHz ?? Infinity) / binHz);
+  if (hi - lo < MIN_HIGH_BAND_BINS) return null;
+
+  const db = new Float64Array(hi - lo);
+  for (let k = lo; k < hi; k++) db[k - lo] = toDb(powerSum[k]);
+
+  const halfWidth = Math.max(2, Math.round(DETREND_HZ / binHz));
+  const residual = new Float64Array(db.length);
+  for (let k = 0; k < db.length; k++) {
+    const from = Math.max(0, k - halfWidth);
+    const to = Math.min(db.length, k + halfWidth + 1);
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += db[j];
+    residual[k] = db[k] - sum / (to - from);
+  }
+
+  let energy = 0;
+  for (const r of residual) energy += r * r;
+  if (energy === 0) return null;
+
+  let best = 0;
+  const minLag = Math.max(3, Math.round(MIN_PEAK_SPACING_HZ / binHz));
+  const maxLag = Math.min(halfWidth, Math.floor(residual.length / 4));
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let k = 0; k + lag < residual.length; k++) sum += residual[k] * residual[k + lag];
+    best = Math.max(best, sum / energy);
+  }
+  return best;
+};
+
+// --- MFCC Statistics ---
+// Acoustic models regress toward the mean spectrum, so synthetic speech moves less
+// from one 10 ms frame to the next. Cepstra exclude c0, so level does not matter.
+
+const MFCC_WINDOW_SEC = 0.025;
+const MFCC_HOP_SEC = 0.01;
+const MEL_BANDS = 26;
+const MFCC_COEFFS = 12;      // c1..c12
+const MEL_MIN_HZ = 100;
+const MEL_MAX_HZ = 8000;
+const MIN_MFCC_FRAMES = 50;
+
+interface MelFilter {
+  start: number;
+  weights: Float32Array;
+}
+
+const melFilterCache = new Map<string, MelFilter[]>();
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+const melFilterbank = (fftSize: number, sampleRate: number): MelFilter[] => {
+  const key = `${fftSize}:${sampleRate}`;
+  let filters = melFilterCache.get(key);
+  if (filters) return filters;
+
+  const binHz = sampleRate / fftSize;
+  const lowMel = hzToMel(MEL_MIN_HZ);
+  const highMel = hzToMel(Math.min(MEL_MAX_HZ, sampleRate * 0.45));
+  const edges = Array.from({ length: MEL_BANDS + 2 }, (_, i) => melToHz(lowMel + ((highMel - lowMel) * i) / (MEL_BANDS + 1)));
+
+  filters = [];
+  for (let m = 1; m <= MEL_BANDS; m++) {
+    const [left, centre, right] = [edges[m - 1], edges[m], edges[m + 1]];
+    const start = Math.floor(left / binHz);
+    const end = Math.ceil(right / binHz);
+    const weights = new Float32Array(end - start + 1);
+    for (let k = start; k <= end; k++) {
+      const hz = k * binHz;
+      weights[k - start] = hz <= centre ? Math.max(0, (hz - left) / (centre - left)) : Math.max(0, (right - hz) / (right - centre));
+    }
+    filters.push({ start, weights });
+  }
+  melFilterCache.set(key, filters);
+  return filters;
+};
+
+const dctTable = (() => {
+  const table = Array.from({ length: MFCC_COEFFS }, () => new Float32Array(MEL_BANDS));
+  for (let j = 1; j <= MFCC_COEFFS; j++) {
+    for (let m = 0; m < MEL_BANDS; m++) table[j - 1][m] = Math.sqrt(2 / MEL_BANDS) * Math.cos((Math.PI * j * (m + 0.5)) / MEL_BANDS);
+  }
+  return table;
+})();
+
+// Mean std of c1..c12 and of their deltas, over 25 ms frames inside active speech
+const measureMfcc = (data: Float32Array, sampleRate: number, isActive: (sample: number) => boolean) => {
+  const windowSize = Math.round(MFCC_WINDOW_SEC * sampleRate);
+  const hop = Math.round(MFCC_HOP_SEC * sampleRate);
+  // A rate this low leaves no window to step; report "not measured" instead of spinning
+  if (hop < 1 || windowSize < 2) return { mfccStd: null, deltaMfccStd: null };
+  const fftSize = nextPowerOfTwo(windowSize);
+  const window = getWindow(windowSize, 'hamming');
+  const filters = melFilterbank(fftSize, sampleRate);
+  const fft = getRealFFT(fftSize);
+  const { windowed, re, im } = scratch(fftSize);
+  const logMel = new Float64Array(MEL_BANDS);
+
+  const coeffs: number[][] = Array.from({ length: MFCC_COEFFS }, () => []);
+  const deltas: number[][] = Array.from({ length: MFCC_COEFFS }, () => []);
+  let run: Float64Array[] = [];
+
+  const flushRun = () => {
+    for (let t = 1; t + 1 < run.length; t++) {
+      for (let j = 0; j < MFCC_COEFFS; j++) deltas[j].push((run[t + 1][j] - run[t - 1][j]) / 2);
+    }
+    run = [];
+  };
+
+  for (let start = 0; start + windowSize <= data.length; start += hop) {
+    if (!isActive(start + windowSize / 2)) {
+      flushRun();
+      continue;
+    }
+    windowed.fill(0);
+    for (let i = 0; i < windowSize; i++) windowed[i] = data[start + i] * window[i];
+    fft.transform(windowed, re, im);
+
+    filters.forEach((filter, m) => {
+      let energy = 0;
+      for (let k = 0; k < filter.weights.length; k++) {
+        const bin = filter.start + k;
+        energy += filter.weights[k] * (re[bin] * re[bin] + im[bin] * im[bin]);
+      }
+      logMel[m] = Math.log(energy + 1e-10);
+    });
+
+    const c = new Float64Array(MFCC_COEFFS);
+    for (let j = 0; j < MFCC_COEFFS; j++) {
+      let sum = 0;
+      for (let m = 0; m < MEL_BANDS; m++) sum += dctTable[j][m] * logMel[m];
+      c[j] = sum;
+      coeffs[j].push(sum);
+    }
+    run.push(c);
+  }
+  flushRun();
+
+  if (coeffs[0].length < MIN_MFCC_FRAMES || deltas[0].length < MIN_MFCC_FRAMES / 2) return { mfccStd: null, deltaMfccStd: null };
+  return { mfccStd: mean(coeffs.map(std)), deltaMfccStd: mean(deltas.map(std)) };
+};
+
+// --- Modulation Spectrum ---
+// Spectrum of the 100 Hz amplitude envelope. Speech carries syllable-rate energy at
+// 2-8 Hz and a tail of fast onsets and bursts above 16 Hz; over-smoothed synthesis lacks the tail.
+
+const ENVELOPE_RATE = 100;
+const MODULATION_CHUNK = 256;     // 2.56 s of envelope per transform
+const MODULATION_FFT = 512;
+const MODULATION_LOW_HZ = 1;
+const MODULATION_FAST_HZ = 16;
+const MODULATION_HIGH_HZ = 50;
+
+const measureModulation = (data: Float32Array, sampleRate: number, firstSample: number, lastSample: number): number | null => {
+  const hop = Math.round(sampleRate / ENVELOPE_RATE);
+  const windowSize = Math.round(MFCC_WINDOW_SEC * sampleRate);
+  if (hop < 1 || windowSize < 2) return null;
+  const window = getWindow(windowSize, 'hamming');
+  const windowSum = mean(window) * windowSize;
+
+  // Hamming-weighted RMS over 25 ms keeps pitch ripple out of the 0-50 Hz range
+  const envelope: number[] = [];
+  for (let start = firstSample; start + windowSize <= Math.min(data.length, lastSample); start += hop) {
+    let sum = 0;
+    for (let i = 0; i < windowSize; i++) sum += window[i] * data[start + i] * data[start + i];
+    envelope.push(Math.sqrt(sum / windowSum));
+  }
+  if (envelope.length < MODULATION_CHUNK) return null;
+
+  const fft = getRealFFT(MODULATION_FFT);
+  const { windowed, re, im } = scratch(MODULATION_FFT);
+  const chunkWindow = getWindow(MODULATION_CHUNK, 'hann');
+  const power = new Float64Array(MODULATION_FFT / 2);
+  for (let start = 0; start + MODULATION_CHUNK <= envelope.length; start += MODULATION_CHUNK / 2) {
+    const chunk = envelope.slice(start, start + MODULATION_CHUNK);
+    const chunkMean = mean(chunk);
+    windowed.fill(0);
+    for (let i = 0; i < MODULATION_CHUNK; i++) windowed[i] = (chunk[i] - chunkMean) * chunkWindow[i];
+    fft.transform(windowed, re, im);
+    for (let k = 0; k < power.length; k++) power[k] += re[k] * re[k] + im[k] * im[k];
+  }
+
+  const binHz = ENVELOPE_RATE / MODULATION_FFT;
+  let total = 0;
+  let fast = 0;
+  for (let k = Math.ceil(MODULATION_LOW_HZ / binHz); k <= Math.floor(MODULATION_HIGH_HZ / binHz) && k < power.length; k++) {
+    total += power[k];
+    if (k * binHz >= MODULATION_FAST_HZ) fast += power[k];
+  }
+  return total > 0 ? fast / total : null;
+};
+
+// --- Long-Term Average Spectrum ---
+// Slope of the one-third-octave LTAS from 500 Hz up, by least squares against octave
+// number. Averaged speech falls at roughly 5 dB per octave above 500 Hz.
+
+export const LTASS_SLOPE_DB_PER_OCT = -5;
+
+const LTAS_LOW_HZ = 500;
+const LTAS_HIGH_HZ = 8000;
+const MIN_LTAS_BANDS = 6;
+
+const measureLtasSlope = (powerSum: Float64Array, sampleRate: number, edgeHz: number | null): number | null => {
+  const binHz = sampleRate / (2 * powerSum.length);
+  const top = Math.min(LTAS_HIGH_HZ, sampleRate * 0.45, edgeHz ?? Infinity);
+  const points: [number, number][] = [];
+  for (let centre = LTAS_LOW_HZ; centre * 2 ** (1 / 6) <= top; centre *= 2 ** (1 / 3)) {
+    const lo = Math.floor((centre * 2 ** (-1 / 6)) / binHz);
+    const hi = Math.ceil((centre * 2 ** (1 / 6)) / binHz);
+    let sum = 0;
+    for (let k = lo; k < hi; k++) sum += powerSum[k];
+    points.push([Math.log2(centre), toDb(sum / Math.max(1, hi - lo))]);
+  }
+  if (points.length < MIN_LTAS_BANDS) return null;
+
+  const mx = mean(points.map(p => p[0]));
+  const my = mean(points.map(p => p[1]));
+  let sxy = 0;
+  let sxx = 0;
+  for (const [x, y] of points) {
+    sxy += (x - mx) * (y - my);
+    sxx += (x - mx) ** 2;
+  }
+  return sxy / sxx;
+};
+
+// --- Entry Point ---
+
+const round3 = (v: number | null) => (v === null ? null : Math.round(v * 1000) / 1000);
+
+// `data` is the normalized buffer the frames were cut from; `powerSum` is the long-term
+// power spectrum of the active frames, and `edgeHz` its -60 dB bandwidth edge.
+export const measureVocoderFeatures = (
+  data: Float32Array,
+  sampleRate: number,
+  frames: FrameRecord[],
+  frameSize: number,
+  hopSize: number,
+  activeRmsGate: number,
+  powerSum: Float64Array,
+  edgeHz: number | null
+): VocoderMetrics => {
+  const isActive = (sample: number) => {
+    const frame = frames[Math.min(frames.length - 1, Math.floor(sample / hopSize))];
+    return !!frame && frame.rms > activeRmsGate;
+  };
+  const active = frames.filter(f => f.rms > activeRmsGate);
+  const firstSample = active.length ? active[0].startSample : 0;
+  const lastSample = active.length ? active[active.length - 1].startSample + frameSize : 0;
+  const { mfccStd, deltaMfccStd } = measureMfcc(data, sampleRate, isActive);
+
+  return {
+    // Every frame, so a pause between voiced frames breaks the pair instead of being skipped over
+    phaseIncoherence: round3(measurePhaseIncoherence(data, frames, frameSize, sampleRate)),
+    highBandPeriodicity: round3(measureHighBandPeriodicity(powerSum, sampleRate, edgeHz)),
+    mfccStd: round3(mfccStd),
+    deltaMfccStd: round3(deltaMfccStd),
+    modulationFastRatio: round3(measureModulation(data, sampleRate, firstSample, lastSample)),
+    ltasSlopeDbPerOct: round3(measureLtasSlope(powerSum, sampleRate, edgeHz))
+  };
+};
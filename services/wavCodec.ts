@@ -0,0 +1,134 @@
+import { DecodedAudio } from "../types";
+import { MIN_SAMPLE_RATE } from "../constants";
+
+// --- WAV (RIFF PCM) Codec ---
+
+// Encodes mono float samples as 16-bit PCM WAV.
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);          // fmt chunk size
+  view.setUint16(20, 1, true);           // PCM
+  view.setUint16(22, 1, true);           // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * bytesPerSample, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const PCM_BIT_DEPTHS = [8, 16, 24, 32];
+const FLOAT_BIT_DEPTHS = [32, 64];
+
+const readFourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+// Decodes integer PCM (8/16/24/32-bit) and IEEE float (32/64-bit) WAV, including
+// WAVE_FORMAT_EXTENSIBLE headers.
+export const decodeWav = (bytes: Uint8Array): DecodedAudio => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 12 || readFourCC(view, 0) !== 'RIFF' || readFourCC(view, 8) !== 'WAVE') {
+    throw new Error("Not a RIFF/WAVE file.");
+  }
+
+  let format = 0;
+  let channelCount = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let blockAlign = 0;
+  let hasFmt = false;
+  let dataOffset = -1;
+  let dataSize = 0;
+
+  // Walk the chunk list; chunks are word-aligned
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const id = readFourCC(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      if (body + 16 > bytes.length) throw new Error("Invalid WAV: truncated fmt chunk.");
+      hasFmt = true;
+      format = view.getUint16(body, true);
+      channelCount = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      blockAlign = view.getUint16(body + 12, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (format === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+        // First two bytes of the SubFormat GUID carry the real format tag
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (id === 'data') {
+      dataOffset = body;
+      // Streaming writers leave the size at 0 or 0xFFFFFFFF; fall back to the rest of the file
+      dataSize = size === 0 || body + size > bytes.length ? bytes.length - body : size;
+      break;
+    }
+    offset = body + size + (size % 2);
+  }
+
+  if (dataOffset < 0 || !hasFmt) throw new Error("WAV file is missing its fmt or data chunk.");
+  if (format !== WAVE_FORMAT_PCM && format !== WAVE_FORMAT_IEEE_FLOAT) {
+    throw new Error(`Unsupported WAV encoding (format tag ${format}).`);
+  }
+  // Header fields come straight from the file; reject values that would break the sample loop
+  if (!(format === WAVE_FORMAT_PCM ? PCM_BIT_DEPTHS : FLOAT_BIT_DEPTHS).includes(bitsPerSample)) {
+    throw new Error(`Unsupported WAV bit depth (${bitsPerSample}).`);
+  }
+  if (channelCount === 0) throw new Error("Invalid WAV channel count (0).");
+  if (sampleRate < MIN_SAMPLE_RATE) throw new Error(`Invalid WAV sample rate (${sampleRate} Hz).`);
+  const bytesPerSample = bitsPerSample / 8;
+  if (blockAlign < channelCount * bytesPerSample) {
+    throw new Error(`Invalid WAV block align (${blockAlign} bytes for ${channelCount} × ${bitsPerSample}-bit samples).`);
+  }
+
+  const frameCount = Math.floor(dataSize / blockAlign);
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+
+  const readSample = (offset: number): number => {
+    if (format === WAVE_FORMAT_IEEE_FLOAT) {
+      return bitsPerSample === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+    }
+    switch (bitsPerSample) {
+      case 8: return (view.getUint8(offset) - 128) / 128;
+      case 16: return view.getInt16(offset, true) / 32768;
+      case 24: {
+        const v = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+        return v / 8388608;
+      }
+      case 32: return view.getInt32(offset, true) / 2147483648;
+      default: throw new Error(`Unsupported WAV bit depth (${bitsPerSample}).`);
+    }
+  };
+
+  for (let f = 0; f < frameCount; f++) {
+    const frameOffset = dataOffset + f * blockAlign;
+    for (let c = 0; c < channelCount; c++) {
+      channels[c][f] = readSample(frameOffset + c * bytesPerSample);
+    }
+  }
+
+  return { sampleRate, bitsPerSample, channels };
+};
@@ -5,18 +5,447 @@ export enum AudioSource {
 
 export interface SignalMetrics {
   noiseFloorDb: number;
-  frequencyCutoffHz: number;
+  frequencyCutoffHz: number;   // 85% spectral rolloff over active speech
+  bandwidthEdgeHz?: number;    // highest frequency within 60 dB of the long-term spectral peak (whole-file analysis only)
   harmonicRegularityScore: number; // 0-100
   energyVariationScore: number; // 0-100
-  breathingArtifactsDetected: boolean;
+  breathingArtifactsDetected?: boolean; // at least one inhalation event was detected; unset when the breathing extractor is off
 }
 
-export interface AnalysisResult {
-  classification: 'Human Voice' | 'AI-Generated Voice';
+// One named measurement from a feature extractor, rounded for display
+export interface FeatureMetric {
+  key: string;
+  label: string;
+  unit: string;
+  value: number | null; // null when the extractor could not measure it on this audio
+}
+
+// Output of one enabled extractor (see services/featureRegistry.ts)
+export interface ExtractorResult {
+  id: string;
+  label: string;
+  metrics: FeatureMetric[];
+}
+
+// Pitch (F0) statistics over the voiced frames. Jitter and shimmer are frame-to-frame.
+export interface ProsodyMetrics {
+  f0MeanHz: number;
+  f0StdSemitones: number;
+  f0RangeSemitones: number;  // 5th to 95th percentile
+  jitterPct: number;         // mean F0-period change between consecutive voiced frames
+  shimmerPct: number;        // mean RMS change between consecutive voiced frames
+  hnrDb: number;             // harmonics-to-noise ratio
+  voicedRatio: number;       // voiced share of the active (gated) frames, 0-1
+}
+
+// Neural-vocoder detectors over the whole file. A field is null when the file is too
+// short, too narrowband or too unvoiced for that measurement.
+export interface VocoderMetrics {
+  phaseIncoherence: number | null;    // frame-to-frame drift of harmonic relative phases, 0 (locked) to 0.5 (random)
+  highBandPeriodicity: number | null; // evenly spaced peaks in the > 8 kHz long-term spectrum, 0-1
+  mfccStd: number | null;             // mean std of MFCC 1-12 over 25 ms frames
+  deltaMfccStd: number | null;        // mean std of their frame-to-frame deltas
+  modulationFastRatio: number | null; // envelope modulation energy at 16-50 Hz vs 1-50 Hz
+  ltasSlopeDbPerOct: number | null;   // long-term spectrum slope from 500 Hz up
+}
+
+export type Classification = 'Human Voice' | 'AI-Generated Voice' | 'Inconclusive';
+
+// One input-quality check. Any failed check withholds the verdict (Inconclusive).
+export interface QualityCheck {
+  id: string;
+  label: string;
+  value: number | null; // null when not measurable (e.g. SNR with no speech)
+  unit: string;
+  threshold: string;    // condition the input must meet, e.g. ">= 1 s"
+  passed: boolean;
+  reason: string;       // why the check failed, or what it found
+}
+
+export interface InputQuality {
+  passed: boolean;
+  checks: QualityCheck[];
+}
+
+// Verdict for one 2-5s window of the file
+export interface SegmentVerdict {
+  startSec: number;
+  endSec: number;
+  classification: Classification;
   confidence: number;
+  keyObservation: string;
+}
+
+// Per-frame measurements behind the verdict, for drawing over the spectrogram.
+// Frame i spans [i * frameHopSec, i * frameHopSec + frameDurationSec).
+export interface EvidenceTracks {
+  frameHopSec: number;
+  frameDurationSec: number;
+  rolloffHz: (number | null)[];   // 85% rolloff; null for gated-out frames
+  centroidHz: (number | null)[];
+  f0Hz: (number | null)[];        // pitch; null for unvoiced or gated-out frames
+  active: boolean[];              // passed the active-speech RMS gate
+  minRmsFrame: number | null;     // frame the noise floor was measured on
+  digitalSilence: { startSec: number; endSec: number }[]; // zero runs long enough to score
+}
+
+// --- Breathing & Pauses ---
+
+export interface BreathEvent {
+  startSec: number;
+  endSec: number;
+  levelDb: number; // peak level relative to the median speech level
+}
+
+export interface PauseEvent {
+  startSec: number;
+  endSec: number;
+  breath: boolean; // a breath was detected inside the pause
+}
+
+// Distribution of pause lengths; a low CV means metronomic, inserted-looking pauses
+export interface PauseStats {
+  count: number;
+  meanSec: number;
+  medianSec: number;
+  stdSec: number;
+  cv: number;
+  minSec: number;
+  maxSec: number;
+  perMinute: number;
+}
+
+export interface BreathingAnalysis {
+  breaths: BreathEvent[];
+  pauses: PauseEvent[];
+  pauseStats: PauseStats | null; // null with fewer than three pauses
+}
+
+// --- Transcoding History ---
+
+// Steepest drop in the long-term spectrum. A cliff at the Nyquist frequency of a standard
+// sample rate is a resampling edge (and says nothing about codecs); anywhere else it is an
+// encoder's lowpass.
+export interface SpectralCliff {
+  frequencyHz: number;   // -10 dB point of the drop
+  dropDb: number;        // passband level minus stopband level around it
+  kind: 'codec' | 'resampling';
+  hint: string;          // e.g. "typical of 128-192 kbps MP3/AAC" or "Nyquist of a 22050 Hz source"
+}
+
+// One-third-octave long-term average spectrum of the active speech
+export interface LongTermSpectrum {
+  bandHz: number[];   // band centres, 1000 * 2^(n/3)
+  levelDb: number[];  // mean band power relative to the loudest band
+}
+
+// Periodic requantization boundaries: spectral change that repeats at a codec's frame length
+export interface FrameGrid {
+  periodSamples: number;
+  periodMs: number;
+  prominence: number;    // fold strength over the median of non-codec control periods
+  codec: string;         // codecs that use this frame length
+}
+
+// Traces of lossy coding over the whole file, and how far they explain codec-like factors.
+// The container's declared codec counts as evidence when the source format is known.
+export interface TranscodingAnalysis {
+  cliff: SpectralCliff | null;
+  holePct: number | null;       // passband time-frequency cells quantized to near silence, %
+  flickerPct: number | null;    // holes gone one window later, as a codec's bit allocation leaves them, %
+  grid: FrameGrid | null;
+  codecLikelihood: number;      // 0-1; 1 when the container declares a lossy codec, else from cliff, holes and grid
+  declaredLossy: boolean;       // the container's codec is lossy (MP3, AAC, Opus, ...)
+  evidenceKinds: number;        // how many of cliff, flicker and grid the signal likelihood rests on
+  generations: number;          // lossy encodes evidenced: 0, 1, or 2 when re-encoding left a frame grid
+  evidence: string[];           // one plain sentence per finding
+}
+
+// L/R similarity of a two-channel file. Bit-identical channels mean a mono source
+// was duplicated, which synthesis pipelines do far more often than microphones.
+export interface StereoCheck {
+  correlation: number;   // Pearson correlation of L and R, -1..1
+  identical: boolean;
+  sideLevelDb: number;   // side (L-R) energy relative to mid (L+R)
+}
+
+// Verdict for one channel of a multichannel file. Mid and Side are derived from L/R.
+export interface ChannelResult {
+  label: string;
+  derived?: boolean;
+  result: AnalysisResult | null; // null when the channel is digitally silent
+}
+
+// Every threshold and point weight the classifier uses. Presets ship in
+// services/detectionProfiles.ts; custom profiles live in localStorage.
+export interface DetectionProfile {
+  id: string;
+  name: string;
+  description: string;
+  builtIn?: boolean;
+  thresholds: {
+    activeRmsGate: number;        // frames above this RMS count as speech
+    minSpeechSec: number;         // less active speech than this = Inconclusive
+    minActiveRatio: number;       // smaller share of active frames than this = Inconclusive
+    maxClippingPct: number;       // more clipped samples (%) than this = Inconclusive
+    minSnrDb: number;             // speech-to-noise estimate below this = Inconclusive
+    bandwidthLimitHz: number;     // mean 85% rolloff below this = bandwidth-limited
+    cleanNoiseFloorDb: number;    // noise floor below this = unnaturally clean
+    rolloffStdHz: number;         // rolloff std below this = rigid filter
+    digitalSilenceRun: number;    // consecutive zero samples that count as zero-fill
+    rmsCV: number;                // RMS coefficient of variation below this = compressed
+    smoothJitterPct: number;      // frame-level jitter below this = over-smooth pitch
+    monotonePitchSt: number;      // F0 std (semitones) below this = monotone
+    phaseIncoherence: number;     // relative-phase drift above this = vocoder phase
+    highBandPeriodicity: number;  // > 8 kHz spectral periodicity above this = upsampling artifacts
+    smoothMfccDelta: number;      // delta-MFCC std below this = over-smoothed spectra
+    fastModulationRatio: number;  // 16-50 Hz envelope modulation share below this = over-smoothed
+    ltasSlopeDeviationDb: number; // LTAS slope further than this from speech (dB/octave) = unnatural
+    codecDiscountPct: number;     // share of codec-explainable AI points removed at codec likelihood 1
+    decisionThreshold: number;    // score above this = AI
+  };
+  extractors?: Record<string, boolean>; // extractor id -> enabled; missing ids are enabled
+  calibration?: Calibration;            // fitted by `sigspec calibrate` for these thresholds and weights
+  weights: {
+    bandwidthClean: number;
+    bandwidthNoisy: number;
+    fullBandwidth: number;
+    rolloffRigid: number;
+    rolloffNatural: number;
+    digitalSilence: number;
+    lowDynamicRange: number;
+    identicalChannels: number;
+    smoothProsody: number;
+    naturalProsody: number;
+    monotonePitch: number;
+    incoherentPhase: number;
+    highBandPeaks: number;
+    smoothMfcc: number;
+    smoothModulation: number;
+    unnaturalLtas: number;
+  };
+}
+
+// One evaluated scoring rule (points > 0 lean AI, < 0 lean Human)
+export interface ScoreFactor {
+  id: string;
+  label: string;
+  value: number;      // measured value the rule was evaluated on
+  unit: string;
+  threshold: string;  // condition the rule tests, e.g. "< 200 Hz"
+  points: number;
+  rationale: string;
+  originalPoints?: number; // points before a discount, e.g. for lossy-codec traces
+  discountReason?: string;
+}
+
+// --- Calibration ---
+
+export type CalibrationMethod = 'platt' | 'isotonic';
+
+// Maps a whole-file score to P(AI), fitted on a labeled corpus
+export interface Calibration {
+  method: CalibrationMethod;
+  fittedAt: string;                 // ISO 8601
+  corpus: { human: number; ai: number };
+  platt?: { a: number; b: number }; // P(AI) = 1 / (1 + exp(a * score + b))
+  isotonic?: { scores: number[]; probabilities: number[] }; // non-decreasing steps, interpolated between
+}
+
+export interface RocPoint {
+  threshold: number; // verdict is AI when score > threshold
+  tpr: number;
+  fpr: number;
+}
+
+export interface ConfusionMatrix {
+  threshold: number;
+  truePositive: number;  // AI files flagged as AI
+  falsePositive: number;
+  trueNegative: number;
+  falseNegative: number;
+  precision: number | null; // null when nothing was flagged
+  recall: number;
+  f1: number | null;
+  accuracy: number;
+}
+
+// Output of `sigspec calibrate`: how well the raw score separates the corpus,
+// and how well heuristic vs. calibrated confidence match the labels
+export interface CalibrationEvaluation {
+  profileId: string;
+  corpus: { human: number; ai: number };
+  auc: number;
+  eer: number;
+  eerThreshold: number;
+  roc: RocPoint[];
+  atDecisionThreshold: ConfusionMatrix;
+  atEerThreshold: ConfusionMatrix;
+  brier: { heuristic: number; calibrated: number };
+  logLoss: { heuristic: number; calibrated: number };
+  calibration: Calibration;
+}
+
+export interface AnalysisResult {
+  classification: Classification;
+  confidence: number;        // calibrated probability of the verdict when the profile has a calibration, else heuristic; 0 when Inconclusive
+  score: number;             // raw sum of factor points
+  probabilityAI?: number;    // calibrated P(AI), 0-1; conclusive whole-file results from a calibrated profile only
+  decisionThreshold: number; // score above which the verdict is AI
+  factors: ScoreFactor[];
   explanation: string;
   metrics: SignalMetrics;
+  quality?: InputQuality;       // checks the input had to pass before a verdict was issued
+  features?: ExtractorResult[]; // every enabled extractor that produced metrics, in registry order
   keyObservation: string;
+  durationSec?: number;
+  sampleRate?: number;
+  profile?: DetectionProfile; // profile the verdict was scored with
+  segments?: SegmentVerdict[];
+  evidence?: EvidenceTracks;
+  breathing?: BreathingAnalysis;
+  transcoding?: TranscodingAnalysis; // whole-file analysis only
+  ltas?: LongTermSpectrum;           // whole-file analysis only
+  channel?: string;            // channel the top-level verdict was taken from
+  channels?: ChannelResult[];  // every channel, for multichannel files
+  stereo?: StereoCheck;
+  source?: SourceFormat;       // the file as stored; sampleRate above is the rate analysis ran at
+}
+
+// Stream parameters as stored in the file, before any decoder resampling.
+// Fields the container does not declare are null.
+export interface SourceFormat {
+  container: string;          // WAV, FLAC, MP3, Ogg, MP4, ...
+  codec: string;
+  sampleRate: number | null;
+  bitsPerSample: number | null; // only meaningful for PCM-like codecs
+  channels: number | null;
+  durationSec: number | null;
+  bitrateKbps: number | null;
+}
+
+// PCM decoded outside Web Audio (CLI and native-format paths)
+export interface DecodedAudio {
+  sampleRate: number;
+  bitsPerSample: number;
+  channels: Float32Array[]; // one array per channel, samples in -1..1
+}
+
+// --- A/B Comparison ---
+
+// One measure of the suspect clip against the verified reference recording
+export interface MetricComparison {
+  key: string;
+  label: string;
+  unit: string;
+  reference: number | null;
+  suspect: number | null;
+  difference: number | null; // suspect minus reference
+  tolerance: string;         // largest difference still consistent with the same speaker and setup
+  deviates: boolean;
+}
+
+// Share of voiced frames per one-semitone F0 bin
+export interface PitchDistribution {
+  binHz: number[];
+  share: number[];
+}
+
+export interface ComparisonResult {
+  metrics: MetricComparison[];
+  ltas: { bandHz: number[]; reference: (number | null)[]; suspect: (number | null)[] };
+  pitch: { binHz: number[]; reference: number[]; suspect: number[] };
+  deviations: string[];      // labels of the measures that deviate
+  verdict: string;           // e.g. "Suspect deviates from the reference in noise floor and LTAS shape."
+}
+
+// --- Case History ---
+
+// A reviewer's final call on an analysis: agree with the verdict, or override it
+export interface CaseReview {
+  decision: 'agree' | 'override';
+  label: Classification;
+  reviewedAt: string;        // ISO 8601
+}
+
+// One analyzed file in the local case history, keyed by the SHA-256 of its bytes
+export interface CaseRecord {
+  sha256: string;
+  fileName: string;
+  sizeBytes: number;
+  mimeType: string;
+  analyzedAt: string;        // ISO 8601, of the latest analysis
+  updatedAt: string;         // ISO 8601, of the latest analysis or edit
+  result: AnalysisResult;    // carries the profile it was scored with
+  thumbnail: string | null;  // PNG data URL of the spectrogram
+  hasAudio: boolean;         // the file itself is stored too
+  tags: string[];
+  notes: string;
+  review: CaseReview | null;
+}
+
+export interface StreamingUpdate {
+  timeSec: number;   // stream position when the update was emitted
+  windowSec: number; // length of audio the verdict covers
+  result: AnalysisResult;
+}
+
+// --- Container Forensics ---
+
+export type BitrateMode = 'uncompressed' | 'lossless' | 'CBR' | 'ABR' | 'VBR' | 'unknown';
+
+// One metadata field as found in the file, e.g. { block: 'LIST/INFO', key: 'ISFT', value: 'Lavf58.76.100' }
+export interface MetadataTag {
+  block: string;
+  key: string;
+  value: string;
+}
+
+export interface ContainerFinding {
+  severity: 'info' | 'warning';
+  message: string;
+}
+
+// What the file's headers and metadata say about how it was produced
+export interface ContainerForensics {
+  container: string;
+  codec: string;
+  encoder: string | null;   // codec library string (LAME tag, Vorbis vendor, TSSE, ...)
+  software: string | null;  // authoring application (ISFT, bext originator, TENC, ...)
+  createdAt: string | null;
+  bitrateMode: BitrateMode;
+  structure: string[];      // chunk / block / box ids in file order
+  tags: MetadataTag[];
+  findings: ContainerFinding[];
+}
+
+// Exported evidence file. Bump REPORT_SCHEMA_VERSION on any breaking change.
+export interface AnalysisReport {
+  schema: 'sigspec.analysis-report';
+  schemaVersion: number;
+  analyzerVersion: string;
+  generatedAt: string; // ISO 8601
+  file: {
+    name: string;
+    sizeBytes: number;
+    mimeType: string;
+    sha256: string;
+    durationSec: number | null;
+    sampleRate: number | null;
+  };
+  result: AnalysisResult;
+  container?: ContainerForensics;
+}
+
+export type BatchStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchStatus;
+  progress: number; // 0-1
+  result?: AnalysisResult;
+  error?: string;
 }
 
 export interface AudioState {